@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "RescheduleRequestStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN     "held_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "reschedule_requests" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "order_id" TEXT NOT NULL,
+    "slot_id" TEXT,
+    "requested_start" TIMESTAMP(3) NOT NULL,
+    "requested_end" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "status" "RescheduleRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "response_note" TEXT,
+    "notification_id" TEXT,
+
+    CONSTRAINT "reschedule_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reschedule_requests_order_id_status_idx" ON "reschedule_requests"("order_id", "status");
+
+-- CreateIndex
+CREATE INDEX "reschedule_requests_status_expires_at_idx" ON "reschedule_requests"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "TimeSlot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
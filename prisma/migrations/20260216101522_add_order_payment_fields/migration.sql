@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "OrderPaymentMode" AS ENUM ('PAY_AT_GARAGE', 'FULL', 'DEPOSIT');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "amount_due" DECIMAL(65,30),
+ADD COLUMN     "paid_amount" DECIMAL(65,30),
+ADD COLUMN     "payment_expires_at" TIMESTAMP(3),
+ADD COLUMN     "payment_mode" "OrderPaymentMode" NOT NULL DEFAULT 'PAY_AT_GARAGE',
+ADD COLUMN     "payment_status" "PaymentStatus";
+
+-- CreateIndex
+CREATE INDEX "Order_payment_status_payment_expires_at_idx" ON "Order"("payment_status", "payment_expires_at");
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'REFUND';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "refunded_amount" DECIMAL(65,30);
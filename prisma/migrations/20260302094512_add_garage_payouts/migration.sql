@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'PAYOUT';
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "platform_fee" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "stripe_account_id" TEXT,
+ADD COLUMN     "stripe_payouts_enabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_stripe_account_id_key" ON "users"("stripe_account_id");
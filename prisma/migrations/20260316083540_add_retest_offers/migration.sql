@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "RetestOfferStatus" AS ENUM ('PENDING_RESULT', 'OFFERED', 'BOOKED', 'NOT_REQUIRED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "parent_order_id" TEXT,
+ADD COLUMN     "retest_deadline" TIMESTAMP(3),
+ADD COLUMN     "retest_status" "RetestOfferStatus";
+
+-- CreateIndex
+CREATE INDEX "Order_retest_status_idx" ON "Order"("retest_status");
+
+-- CreateIndex
+CREATE INDEX "Order_parent_order_id_idx" ON "Order"("parent_order_id");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_parent_order_id_fkey" FOREIGN KEY ("parent_order_id") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PUBLISHED', 'HIDDEN');
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "order_id" TEXT NOT NULL,
+    "driver_id" TEXT,
+    "garage_id" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "reply" TEXT,
+    "replied_at" TIMESTAMP(3),
+    "status" "ReviewStatus" NOT NULL DEFAULT 'PUBLISHED',
+    "moderation_note" TEXT,
+    "moderated_at" TIMESTAMP(3),
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_order_id_key" ON "reviews"("order_id");
+
+-- CreateIndex
+CREATE INDEX "reviews_garage_id_status_idx" ON "reviews"("garage_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_driver_id_fkey" FOREIGN KEY ("driver_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_garage_id_fkey" FOREIGN KEY ("garage_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'NO_SHOW';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "no_show_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "time_zone" TEXT NOT NULL DEFAULT 'Europe/London';
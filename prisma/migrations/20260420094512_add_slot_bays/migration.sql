@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "TimeSlot_garage_id_start_datetime_key";
+
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN     "bay" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "bays" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeSlot_garage_id_start_datetime_bay_key" ON "TimeSlot"("garage_id", "start_datetime", "bay");
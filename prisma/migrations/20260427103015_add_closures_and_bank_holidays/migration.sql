@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "BankHolidayRegion" AS ENUM ('ENGLAND_AND_WALES', 'SCOTLAND', 'NORTHERN_IRELAND');
+
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "bank_holiday_region" "BankHolidayRegion" NOT NULL DEFAULT 'ENGLAND_AND_WALES',
+ADD COLUMN     "closed_on_bank_holidays" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "schedule_closures" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "garage_id" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "label" TEXT NOT NULL,
+
+    CONSTRAINT "schedule_closures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_holidays" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "region" "BankHolidayRegion" NOT NULL,
+    "date" DATE NOT NULL,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+
+    CONSTRAINT "bank_holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_closures_garage_id_start_date_end_date_idx" ON "schedule_closures"("garage_id", "start_date", "end_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_holidays_region_date_key" ON "bank_holidays"("region", "date");
+
+-- AddForeignKey
+ALTER TABLE "schedule_closures" ADD CONSTRAINT "schedule_closures_garage_id_fkey" FOREIGN KEY ("garage_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "schedule_versions" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "effective_from" DATE NOT NULL,
+    "effective_to" DATE,
+    "label" TEXT,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "slot_duration" INTEGER NOT NULL DEFAULT 60,
+    "daily_hours" JSONB,
+    "bays" INTEGER NOT NULL DEFAULT 1,
+    "template_id" TEXT,
+
+    CONSTRAINT "schedule_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "schedule_templates" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "slot_duration" INTEGER NOT NULL DEFAULT 60,
+    "daily_hours" JSONB,
+    "bays" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "schedule_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_versions_schedule_id_effective_from_idx" ON "schedule_versions"("schedule_id", "effective_from");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_templates_schedule_id_name_key" ON "schedule_templates"("schedule_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "schedule_versions" ADD CONSTRAINT "schedule_versions_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_versions" ADD CONSTRAINT "schedule_versions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "schedule_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_templates" ADD CONSTRAINT "schedule_templates_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
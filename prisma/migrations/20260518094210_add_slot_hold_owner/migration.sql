@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN     "held_by" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TimeSlot_held_by_idx" ON "TimeSlot"("held_by");
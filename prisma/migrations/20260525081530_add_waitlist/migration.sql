@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "garage_id" TEXT NOT NULL,
+    "driver_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "offered_slot_id" TEXT,
+    "offer_expires_at" TIMESTAMP(3),
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_garage_id_date_status_idx" ON "waitlist_entries"("garage_id", "date", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_driver_id_status_idx" ON "waitlist_entries"("driver_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_garage_id_fkey" FOREIGN KEY ("garage_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_driver_id_fkey" FOREIGN KEY ("driver_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_offered_slot_id_fkey" FOREIGN KEY ("offered_slot_id") REFERENCES "TimeSlot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
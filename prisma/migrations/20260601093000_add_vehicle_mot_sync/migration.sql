@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "MotSyncStatus" AS ENUM ('SYNCED', 'NOT_FOUND', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Vehicle" ADD COLUMN     "mot_sync_attempted_at" TIMESTAMP(3),
+ADD COLUMN     "mot_sync_error" TEXT,
+ADD COLUMN     "mot_sync_status" "MotSyncStatus",
+ADD COLUMN     "mot_synced_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Vehicle_mot_expiry_date_idx" ON "Vehicle"("mot_expiry_date");
+
+-- CreateIndex
+CREATE INDEX "Vehicle_mot_synced_at_idx" ON "Vehicle"("mot_synced_at");
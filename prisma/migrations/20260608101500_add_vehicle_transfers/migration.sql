@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "VehicleTransferStatus" AS ENUM ('PENDING', 'DISPUTED', 'COMPLETED', 'REJECTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "vehicle_transfers" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "vehicle_id" TEXT NOT NULL,
+    "from_user_id" TEXT NOT NULL,
+    "to_user_id" TEXT NOT NULL,
+    "status" "VehicleTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "dispute_reason" TEXT,
+    "resolution_note" TEXT,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "vehicle_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicle_transfers_vehicle_id_status_idx" ON "vehicle_transfers"("vehicle_id", "status");
+
+-- CreateIndex
+CREATE INDEX "vehicle_transfers_from_user_id_status_idx" ON "vehicle_transfers"("from_user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "vehicle_transfers_to_user_id_status_idx" ON "vehicle_transfers"("to_user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "vehicle_transfers" ADD CONSTRAINT "vehicle_transfers_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_transfers" ADD CONSTRAINT "vehicle_transfers_from_user_id_fkey" FOREIGN KEY ("from_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_transfers" ADD CONSTRAINT "vehicle_transfers_to_user_id_fkey" FOREIGN KEY ("to_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
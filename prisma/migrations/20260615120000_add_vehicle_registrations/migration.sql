@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "MotSyncStatus" ADD VALUE 'PLATE_CHANGED';
+
+-- CreateTable
+CREATE TABLE "vehicle_registrations" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "vehicle_id" TEXT NOT NULL,
+    "registration_number" TEXT NOT NULL,
+    "replaced_at" TIMESTAMP(3),
+    "source" TEXT,
+
+    CONSTRAINT "vehicle_registrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicle_registrations_registration_number_idx" ON "vehicle_registrations"("registration_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vehicle_registrations_vehicle_id_registration_number_key" ON "vehicle_registrations"("vehicle_id", "registration_number");
+
+-- AddForeignKey
+ALTER TABLE "vehicle_registrations" ADD CONSTRAINT "vehicle_registrations_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
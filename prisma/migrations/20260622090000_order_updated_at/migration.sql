@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "updated_at" DROP DEFAULT;
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- At most one open transfer per vehicle; Prisma cannot express partial indexes
+CREATE UNIQUE INDEX "vehicle_transfers_vehicle_id_open_key" ON "vehicle_transfers"("vehicle_id") WHERE "status" IN ('PENDING', 'DISPUTED');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN     "base_end_datetime" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'PAYOUT_REVERSAL';
@@ -1,7 +1,14 @@
 import { AbilityBuilder, ExtractSubjectType, PureAbility } from '@casl/ability';
 import { createPrismaAbility, Subjects, PrismaQuery } from '@casl/prisma';
 import { Injectable } from '@nestjs/common';
-import { User, Role, Vehicle, Order, PaymentTransaction } from '@prisma/client';
+import {
+  User,
+  Role,
+  Vehicle,
+  Order,
+  PaymentTransaction,
+  Review,
+} from '@prisma/client';
 
 export enum Action {
   Manage = 'manage', // wildcard for any action
@@ -28,6 +35,7 @@ export type AppSubjects = Subjects<{
   Booking: Order;
   Subscription: User; // Using User as base type for subscription
   Payment: PaymentTransaction;
+  Review: Review;
   Analytics: User; // Using User as base type for analytics
   Reports: User; // Using User as base type for reports
 }>;
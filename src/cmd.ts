@@ -5,9 +5,10 @@ import { CommandFactory } from 'nest-commander';
 import { PrismaService } from './prisma/prisma.service';
 import { SeedCommand } from './command/seed.command';
 import { ResetCommand } from './command/reset.command';
+import { BankHolidayCommand } from './command/bank-holiday.command';
 
 @Module({
-  providers: [SeedCommand, PrismaService, ResetCommand],
+  providers: [SeedCommand, PrismaService, ResetCommand, BankHolidayCommand],
 })
 export class AppModule {}
 
@@ -0,0 +1,83 @@
+// external imports
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Command, CommandRunner } from 'nest-commander';
+import { BankHolidayRegion } from '@prisma/client';
+// internal imports
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Bundled data uses the GOV.UK bank holidays format
+ * (https://www.gov.uk/bank-holidays.json), one file per division
+ */
+interface BankHolidayFile {
+  division: string;
+  events: {
+    title: string;
+    date: string;
+    notes?: string;
+    bunting?: boolean;
+  }[];
+}
+
+const REGION_FILES: Record<BankHolidayRegion, string> = {
+  ENGLAND_AND_WALES: 'england-and-wales.json',
+  SCOTLAND: 'scotland.json',
+  NORTHERN_IRELAND: 'northern-ireland.json',
+};
+
+@Command({
+  name: 'bank-holidays',
+  description: 'Import bundled UK bank holidays per region',
+})
+export class BankHolidayCommand extends CommandRunner {
+  constructor(private readonly prisma: PrismaService) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.import();
+  }
+
+  async import(): Promise<void> {
+    try {
+      console.log(`Prisma Env: ${process.env.PRISMA_ENV}`);
+      console.log('📅 Bank holiday import started...');
+
+      for (const [region, file] of Object.entries(REGION_FILES)) {
+        const data: BankHolidayFile = JSON.parse(
+          readFileSync(
+            join(__dirname, '../common/data/bank-holidays', file),
+            'utf8',
+          ),
+        );
+
+        for (const event of data.events) {
+          const date = new Date(`${event.date}T00:00:00.000Z`);
+          await this.prisma.bankHoliday.upsert({
+            where: {
+              region_date: {
+                region: region as BankHolidayRegion,
+                date,
+              },
+            },
+            update: { title: event.title, notes: event.notes || null },
+            create: {
+              region: region as BankHolidayRegion,
+              date,
+              title: event.title,
+              notes: event.notes || null,
+            },
+          });
+        }
+
+        console.log(`   ✅ ${region}: ${data.events.length} bank holidays`);
+      }
+
+      console.log('🎉 Bank holiday import completed successfully!');
+    } catch (error) {
+      console.error('❌ Bank holiday import failed:', error);
+      throw error;
+    }
+  }
+}
@@ -167,6 +167,11 @@ export class SeedCommand extends CommandRunner {
         subject: 'Payment',
         scope: ['read', 'create', 'refund', 'show'],
       },
+      {
+        title: 'review_management',
+        subject: 'Review',
+        scope: ['read', 'show', 'update', 'delete'],
+      },
       { title: 'analytics', subject: 'Analytics' },
       { title: 'reports', subject: 'Reports', scope: ['generate'] },
 
@@ -253,6 +258,7 @@ export class SeedCommand extends CommandRunner {
         'booking_management',
         'subscription_management',
         'payment_management',
+        'review_management',
         'analytics',
         'reports',
         'faq_management',
@@ -269,6 +275,7 @@ export class SeedCommand extends CommandRunner {
         'booking_management',
         'subscription_management',
         'payment_management',
+        'review_management',
         'analytics',
         'reports',
       ],
@@ -284,6 +291,7 @@ export class SeedCommand extends CommandRunner {
         'garage_management',
         'driver_management',
         'booking_management',
+        'review_management',
       ],
       support_admin: [
         'dashboard_read',
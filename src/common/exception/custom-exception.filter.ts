@@ -76,6 +76,11 @@ export class CustomExceptionFilter implements ExceptionFilter {
       path: request.url,
     };
 
+    // Extra details an exception carries for the client, e.g. a policy text
+    if (errorDetails?.data !== undefined) {
+      responseBody.data = errorDetails.data;
+    }
+
     // Environment Specific Logic
     if (isDevelopment) {
       // Development: Send full details
@@ -0,0 +1,47 @@
+import { IcalHelper } from './ical.helper';
+
+describe('IcalHelper', () => {
+  const event = {
+    uid: 'booking-order-1@example.com',
+    start: new Date('2026-03-15T09:00:00.000Z'),
+    end: new Date('2026-03-15T10:00:00.000Z'),
+    summary: 'MOT: AB12 CDE',
+    location: '1 High Street, Leeds',
+  };
+
+  it('writes a VEVENT with UTC times and CRLF line endings', () => {
+    const ics = IcalHelper.buildCalendar({ name: 'Bookings', events: [event] });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:booking-order-1@example.com\r\n');
+    expect(ics).toContain('DTSTART:20260315T090000Z\r\n');
+    expect(ics).toContain('DTEND:20260315T100000Z\r\n');
+    expect(ics).toContain('LOCATION:1 High Street\\, Leeds\r\n');
+    expect(ics).toContain('STATUS:CONFIRMED\r\n');
+  });
+
+  it('marks cancelled bookings instead of dropping them', () => {
+    const ics = IcalHelper.buildCalendar({
+      name: 'Bookings',
+      events: [{ ...event, status: 'CANCELLED', sequence: 2 }],
+    });
+
+    expect(ics).toContain('STATUS:CANCELLED\r\n');
+    expect(ics).toContain('SEQUENCE:2\r\n');
+  });
+
+  it('escapes text values', () => {
+    expect(IcalHelper.escape('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const folded = IcalHelper.fold(`DESCRIPTION:${'x'.repeat(200)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+});
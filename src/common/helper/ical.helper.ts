@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import appConfig from '../../config/app.config';
+
+export type IcalEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface IcalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: IcalEventStatus;
+  lastModified?: Date;
+  /** Increase whenever the event changes so clients replace their copy */
+  sequence?: number;
+}
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for booking feeds and attachments.
+ * Times are written in UTC so no VTIMEZONE component is needed.
+ */
+export class IcalHelper {
+  /**
+   * Stable UID of a booking; reschedules and cancellations keep the same UID
+   * so calendar clients update the existing event instead of adding one
+   */
+  static bookingUid(orderId: string): string {
+    const appUrl = appConfig().app.url;
+    let host = 'bookings';
+    if (appUrl) {
+      try {
+        host = new URL(appUrl).host || host;
+      } catch (error) {
+        Logger.warn(
+          `APP_URL is not a valid URL, using "${host}" in booking UIDs: ${error.message}`,
+          IcalHelper.name,
+        );
+      }
+    }
+    return `booking-${orderId}@${host}`;
+  }
+
+  static buildCalendar(params: {
+    name: string;
+    events: IcalEvent[];
+    method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  }): string {
+    const now = new Date();
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:-//${IcalHelper.escape(appConfig().app.name || 'MOT Booking')}//Bookings//EN`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${params.method ?? 'PUBLISH'}`,
+      `X-WR-CALNAME:${IcalHelper.escape(params.name)}`,
+    ];
+
+    for (const event of params.events) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${IcalHelper.formatDate(now)}`,
+        `DTSTART:${IcalHelper.formatDate(event.start)}`,
+        `DTEND:${IcalHelper.formatDate(event.end)}`,
+        `SUMMARY:${IcalHelper.escape(event.summary)}`,
+      );
+      if (event.description) {
+        lines.push(`DESCRIPTION:${IcalHelper.escape(event.description)}`);
+      }
+      if (event.location) {
+        lines.push(`LOCATION:${IcalHelper.escape(event.location)}`);
+      }
+      lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`);
+      if (event.sequence !== undefined) {
+        lines.push(`SEQUENCE:${event.sequence}`);
+      }
+      if (event.lastModified) {
+        lines.push(
+          `LAST-MODIFIED:${IcalHelper.formatDate(event.lastModified)}`,
+        );
+      }
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map((line) => IcalHelper.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * UTC date-time, e.g. 20260315T090000Z
+   */
+  static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  static escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold content lines longer than 75 octets (continuation lines start with a space)
+   */
+  static fold(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const bytes = Buffer.byteLength(char);
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + bytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
@@ -0,0 +1,31 @@
+import { SettingHelper } from './setting.helper';
+
+describe('SettingHelper', () => {
+  const prismaWith = (default_value: string | null) => ({
+    setting: {
+      findUnique: jest
+        .fn()
+        .mockResolvedValue(default_value === null ? null : { default_value }),
+    },
+  });
+
+  it('reads a numeric setting', async () => {
+    const prisma = prismaWith('15');
+
+    await expect(
+      SettingHelper.getNumber(prisma, 'SLOT_HOLD_MINUTES', 10),
+    ).resolves.toBe(15);
+    expect(prisma.setting.findUnique).toHaveBeenCalledWith({
+      where: { key: 'SLOT_HOLD_MINUTES' },
+    });
+  });
+
+  it('falls back when the setting is missing, empty or not a number', async () => {
+    await expect(
+      SettingHelper.getNumber(prismaWith(null), 'SLOT_HOLD_MINUTES', 10),
+    ).resolves.toBe(10);
+    expect(SettingHelper.toNumber('', 10)).toBe(10);
+    expect(SettingHelper.toNumber('ten', 10)).toBe(10);
+    expect(SettingHelper.toNumber('0', 10)).toBe(0);
+  });
+});
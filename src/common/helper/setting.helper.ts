@@ -0,0 +1,30 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Admin-configurable values stored as text in the Setting table
+ */
+export class SettingHelper {
+  /**
+   * Numeric value of a setting
+   * @param fallback - Used when the setting is unset or not a number
+   */
+  static async getNumber(
+    prisma: {
+      setting: Pick<Prisma.TransactionClient['setting'], 'findUnique'>;
+    },
+    key: string,
+    fallback: number,
+  ): Promise<number> {
+    const setting = await prisma.setting.findUnique({ where: { key } });
+    return SettingHelper.toNumber(setting?.default_value, fallback);
+  }
+
+  /**
+   * Parse a stored setting value as a number
+   * @param fallback - Used when the value is empty or not a number
+   */
+  static toNumber(value: string | null | undefined, fallback: number): number {
+    const number = Number(value);
+    return value && Number.isFinite(number) ? number : fallback;
+  }
+}
@@ -0,0 +1,69 @@
+import { TimeSlotHelper } from './time-slot.helper';
+
+describe('TimeSlotHelper', () => {
+  const end = new Date('2026-07-06T10:00:00.000Z');
+
+  it('extends a slot from its own end and keeps that end', () => {
+    expect(
+      TimeSlotHelper.extendedEnd(
+        { end_datetime: end, base_end_datetime: null },
+        30,
+      ),
+    ).toEqual({
+      end_datetime: new Date('2026-07-06T10:30:00.000Z'),
+      base_end_datetime: end,
+    });
+  });
+
+  it('does not stack an extension on a slot that is still extended', () => {
+    const extended = { end_datetime: new Date('2026-07-06T10:30:00.000Z') };
+
+    expect(
+      TimeSlotHelper.extendedEnd({ ...extended, base_end_datetime: end }, 15),
+    ).toEqual({
+      end_datetime: new Date('2026-07-06T10:15:00.000Z'),
+      base_end_datetime: end,
+    });
+    expect(
+      TimeSlotHelper.extendedEnd({ ...extended, base_end_datetime: end }, 0),
+    ).toEqual({ end_datetime: end, base_end_datetime: null });
+  });
+
+  it('restores the unextended end when a slot is released', async () => {
+    const tx = {
+      timeSlot: {
+        findUnique: jest.fn().mockResolvedValue({ base_end_datetime: end }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    await TimeSlotHelper.release(tx, 'slot-1', { modified_by: 'garage-1' });
+
+    expect(tx.timeSlot.update).toHaveBeenCalledWith({
+      where: { id: 'slot-1' },
+      data: {
+        order_id: null,
+        is_available: true,
+        end_datetime: end,
+        base_end_datetime: null,
+        modified_by: 'garage-1',
+      },
+    });
+  });
+
+  it('leaves the end of a slot that was never extended', async () => {
+    const tx = {
+      timeSlot: {
+        findUnique: jest.fn().mockResolvedValue({ base_end_datetime: null }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    await TimeSlotHelper.release(tx, 'slot-1');
+
+    expect(tx.timeSlot.update).toHaveBeenCalledWith({
+      where: { id: 'slot-1' },
+      data: { order_id: null, is_available: true },
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Booking add-ons with a duration stretch a slot's end; the unextended end is
+ * kept in base_end_datetime so the slot can be given back at its own length
+ */
+export class TimeSlotHelper {
+  /**
+   * End fields of a slot booked with add-ons taking `extraMinutes`, measured
+   * from the slot's unextended end so repeated bookings do not stack
+   */
+  static extendedEnd(
+    slot: { end_datetime: Date; base_end_datetime: Date | null },
+    extraMinutes: number,
+  ): { end_datetime: Date; base_end_datetime: Date | null } {
+    const baseEnd = slot.base_end_datetime ?? slot.end_datetime;
+    if (extraMinutes <= 0) {
+      return { end_datetime: baseEnd, base_end_datetime: null };
+    }
+    return {
+      end_datetime: new Date(baseEnd.getTime() + extraMinutes * 60000),
+      base_end_datetime: baseEnd,
+    };
+  }
+
+  /**
+   * Free a booked slot inside the caller's transaction and restore the end
+   * its booking's add-ons extended
+   * @param data - Extra fields to write, e.g. the modification audit
+   */
+  static async release(
+    tx: {
+      timeSlot: Pick<
+        Prisma.TransactionClient['timeSlot'],
+        'findUnique' | 'update'
+      >;
+    },
+    slotId: string,
+    data: Prisma.TimeSlotUncheckedUpdateInput = {},
+  ) {
+    const slot = await tx.timeSlot.findUnique({
+      where: { id: slotId },
+      select: { base_end_datetime: true },
+    });
+
+    return tx.timeSlot.update({
+      where: { id: slotId },
+      data: {
+        order_id: null,
+        is_available: true,
+        ...(slot?.base_end_datetime && {
+          end_datetime: slot.base_end_datetime,
+          base_end_datetime: null,
+        }),
+        ...data,
+      },
+    });
+  }
+}
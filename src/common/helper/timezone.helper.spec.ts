@@ -0,0 +1,96 @@
+import { TimezoneHelper } from './timezone.helper';
+
+describe('TimezoneHelper', () => {
+  describe('toInstant', () => {
+    it('maps London wall-clock time to UTC in GMT and BST', () => {
+      expect(
+        TimezoneHelper.toInstant('2026-01-15', '09:00').toISOString(),
+      ).toBe('2026-01-15T09:00:00.000Z');
+      expect(
+        TimezoneHelper.toInstant('2026-07-15', '09:00').toISOString(),
+      ).toBe('2026-07-15T08:00:00.000Z');
+    });
+
+    it('handles the March clock change (GMT -> BST)', () => {
+      // Clocks go forward at 01:00 GMT on 29 March 2026
+      expect(
+        TimezoneHelper.toInstant('2026-03-28', '09:00').toISOString(),
+      ).toBe('2026-03-28T09:00:00.000Z');
+      expect(
+        TimezoneHelper.toInstant('2026-03-29', '09:00').toISOString(),
+      ).toBe('2026-03-29T08:00:00.000Z');
+    });
+
+    it('handles the October clock change (BST -> GMT)', () => {
+      // Clocks go back at 02:00 BST on 25 October 2026
+      expect(
+        TimezoneHelper.toInstant('2026-10-24', '09:00').toISOString(),
+      ).toBe('2026-10-24T08:00:00.000Z');
+      expect(
+        TimezoneHelper.toInstant('2026-10-25', '09:00').toISOString(),
+      ).toBe('2026-10-25T09:00:00.000Z');
+    });
+
+    it('supports other time zones', () => {
+      expect(
+        TimezoneHelper.toInstant(
+          '2026-07-15',
+          '09:00',
+          'Europe/Paris',
+        ).toISOString(),
+      ).toBe('2026-07-15T07:00:00.000Z');
+    });
+  });
+
+  describe('day bounds', () => {
+    const hours = (date: string) =>
+      (TimezoneHelper.startOfNextDay(date).getTime() -
+        TimezoneHelper.startOfDay(date).getTime()) /
+      3600000;
+
+    it('has a 23 hour day in March and a 25 hour day in October', () => {
+      expect(hours('2026-03-29')).toBe(23);
+      expect(hours('2026-10-25')).toBe(25);
+      expect(hours('2026-06-01')).toBe(24);
+    });
+
+    it('starts a BST day at 23:00 UTC the previous evening', () => {
+      expect(TimezoneHelper.startOfDay('2026-07-15').toISOString()).toBe(
+        '2026-07-14T23:00:00.000Z',
+      );
+    });
+  });
+
+  describe('calendar parts', () => {
+    it('uses the London date for instants just after BST midnight', () => {
+      // 00:30 BST on Monday 13 July 2026 is still Sunday in UTC
+      const instant = new Date('2026-07-12T23:30:00.000Z');
+
+      expect(TimezoneHelper.toDateString(instant)).toBe('2026-07-13');
+      expect(TimezoneHelper.dayOfWeek(instant)).toBe(1);
+      expect(TimezoneHelper.dateParts(instant)).toEqual({
+        year: 2026,
+        month: 7,
+        day: 13,
+        dayOfWeek: 1,
+      });
+    });
+
+    it('formats wall-clock time in the given zone', () => {
+      const instant = new Date('2026-10-25T08:00:00.000Z');
+
+      expect(TimezoneHelper.formatTime(instant)).toBe('08:00');
+      expect(TimezoneHelper.formatTime(instant, 'Europe/Paris')).toBe('09:00');
+    });
+  });
+
+  it('adds calendar days across clock changes', () => {
+    expect(TimezoneHelper.addDays('2026-03-28', 1)).toBe('2026-03-29');
+    expect(TimezoneHelper.addDays('2026-10-25', 1)).toBe('2026-10-26');
+  });
+
+  it('validates IANA time zone names', () => {
+    expect(TimezoneHelper.isValidTimeZone('Europe/London')).toBe(true);
+    expect(TimezoneHelper.isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import * as dayjs from 'dayjs';
+import * as utc from 'dayjs/plugin/utc';
+import * as timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const DEFAULT_TIME_ZONE = 'Europe/London';
+
+/**
+ * Time zone aware date helper.
+ * Garage opening hours are wall-clock times ("09:00") in the garage's time zone;
+ * these helpers turn them into instants independent of the server's TZ.
+ */
+export class TimezoneHelper {
+  /**
+   * Instant of a wall-clock time on a calendar date in the given zone
+   * @param date YYYY-MM-DD
+   * @param time HH:mm
+   */
+  static toInstant(
+    date: string,
+    time: string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): Date {
+    return dayjs.tz(`${date} ${time}`, 'YYYY-MM-DD HH:mm', timeZone).toDate();
+  }
+
+  /**
+   * Instant of a number of minutes after midnight (wall clock) on a calendar date
+   */
+  static minutesToInstant(
+    date: string,
+    minutes: number,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): Date {
+    return TimezoneHelper.toInstant(
+      date,
+      TimezoneHelper.minutesToTime(minutes),
+      timeZone,
+    );
+  }
+
+  /**
+   * Local midnight of a calendar date
+   */
+  static startOfDay(date: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+    return TimezoneHelper.toInstant(date, '00:00', timeZone);
+  }
+
+  /**
+   * Local midnight of the following calendar date (exclusive end of the day).
+   * Days are 23 or 25 hours long on clock-change days, so never add 24h.
+   */
+  static startOfNextDay(
+    date: string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): Date {
+    return TimezoneHelper.startOfDay(TimezoneHelper.addDays(date, 1), timeZone);
+  }
+
+  /**
+   * Calendar date (YYYY-MM-DD) of an instant in the given zone
+   */
+  static toDateString(
+    instant: Date | string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): string {
+    return dayjs(instant).tz(timeZone).format('YYYY-MM-DD');
+  }
+
+  /**
+   * Wall-clock time (HH:mm, 24h) of an instant in the given zone
+   */
+  static formatTime(
+    instant: Date | string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): string {
+    return dayjs(instant).tz(timeZone).format('HH:mm');
+  }
+
+  /**
+   * Day of the week (0 = Sunday) of an instant in the given zone
+   */
+  static dayOfWeek(
+    instant: Date | string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): number {
+    return dayjs(instant).tz(timeZone).day();
+  }
+
+  /**
+   * Calendar parts of an instant in the given zone (month is 1-12)
+   */
+  static dateParts(
+    instant: Date | string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): { year: number; month: number; day: number; dayOfWeek: number } {
+    const local = dayjs(instant).tz(timeZone);
+    return {
+      year: local.year(),
+      month: local.month() + 1,
+      day: local.date(),
+      dayOfWeek: local.day(),
+    };
+  }
+
+  /**
+   * Add calendar days to a YYYY-MM-DD date
+   */
+  static addDays(date: string, days: number): string {
+    return dayjs.utc(date).add(days, 'day').format('YYYY-MM-DD');
+  }
+
+  static minutesToTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,11 +1,27 @@
 import axios, { AxiosError, AxiosResponse } from 'axios';
 import appConfig from '../../../config/app.config';
 import {
+  Injectable,
   NotFoundException,
   InternalServerErrorException,
   BadRequestException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
+import { VehicleDataProvider } from './vehicle-data.provider';
+import {
+  VehicleDataMetricsService,
+  VehicleDataSource,
+} from './vehicle-data-metrics.service';
+import {
+  CircuitBreaker,
+  CircuitOpenException,
+  RateLimiter,
+  sleep,
+} from './resilience';
+
+// Cap on a single backoff, including a server-sent Retry-After
+const MAX_RETRY_DELAY_MS = 10000;
 
 /**
  * DVLA Service for interacting with UK Driver and Vehicle Licensing Agency APIs
@@ -14,28 +30,61 @@ import {
  * - Vehicle enquiry API (basic vehicle information)
  * - MOT History API (detailed MOT test history and vehicle details)
  * - Automatic OAuth token management for MOT API
+ * - Retries with backoff, client-side rate limiting and a circuit breaker
+ *   per API, so an outage fails fast instead of stalling every search
  * - Comprehensive error handling and logging
+ *
+ * Consumers go through VehicleDataService, which picks this or the offline
+ * stub provider and caches the responses.
  */
-export class DvlaService {
-  private static readonly logger = new Logger(DvlaService.name);
+@Injectable()
+export class DvlaService implements VehicleDataProvider {
+  private readonly logger = new Logger(DvlaService.name);
 
   // API Configuration
-  private static readonly DVLA_API_KEY = appConfig().dvla.api_key;
-  private static readonly DVLA_VEHICLE_URL =
+  private readonly DVLA_API_KEY = appConfig().dvla.api_key;
+  private readonly DVLA_VEHICLE_URL =
     'https://driver-vehicle-licensing.api.gov.uk/vehicle-enquiry/v1/vehicles';
-  private static readonly MOT_API_BASE_URL =
+  private readonly MOT_API_BASE_URL =
     'https://history.mot.api.gov.uk/v1/trade/vehicles/registration';
 
   // MOT API OAuth Configuration
-  private static readonly MOT_CLIENT_ID = appConfig().mot.client_id;
-  private static readonly MOT_CLIENT_SECRET = appConfig().mot.client_secret;
-  private static readonly MOT_TOKEN_URL =
+  private readonly MOT_CLIENT_ID = appConfig().mot.client_id;
+  private readonly MOT_CLIENT_SECRET = appConfig().mot.client_secret;
+  private readonly MOT_TOKEN_URL =
     'https://login.microsoftonline.com/a455b827-244f-4c97-b5b4-ce5d13b4d00c/oauth2/v2.0/token';
-  private static readonly MOT_SCOPE = 'https://tapi.dvsa.gov.uk/.default';
+  private readonly MOT_SCOPE = 'https://tapi.dvsa.gov.uk/.default';
 
   // Token management
-  private static motAccessToken: string | null = null;
-  private static tokenExpiryTime: number = 0;
+  private motAccessToken: string | null = null;
+  private tokenExpiryTime: number = 0;
+
+  private readonly limiters: Record<VehicleDataSource, RateLimiter>;
+  private readonly breakers: Record<VehicleDataSource, CircuitBreaker>;
+
+  constructor(private readonly metrics: VehicleDataMetricsService) {
+    const config = appConfig().vehicle_data;
+
+    this.limiters = {
+      dvla: new RateLimiter(config.dvla_rate_per_second, config.dvla_burst),
+      mot: new RateLimiter(config.mot_rate_per_second, config.mot_burst),
+    };
+
+    const breaker = (source: VehicleDataSource, name: string) =>
+      new CircuitBreaker({
+        name,
+        failureThreshold: config.circuit_failure_threshold,
+        resetTimeoutMs: config.circuit_reset_seconds * 1000,
+        onStateChange: (state) => {
+          this.logger.warn(`${name} circuit is now ${state}`);
+          this.metrics.recordCircuitState(source, state);
+        },
+      });
+    this.breakers = {
+      dvla: breaker('dvla', 'DVLA API'),
+      mot: breaker('mot', 'MOT API'),
+    };
+  }
 
   /**
    * Get vehicle details from DVLA Vehicle Enquiry API
@@ -45,7 +94,7 @@ export class DvlaService {
    * @throws NotFoundException - When vehicle is not found
    * @throws InternalServerErrorException - When DVLA API is unavailable
    */
-  static async getVehicleDetails(
+  async getVehicleDetails(
     registrationNumber: string,
   ): Promise<DvlaVehicleResponse> {
     try {
@@ -58,17 +107,20 @@ export class DvlaService {
         throw new BadRequestException('Invalid registration number format');
       }
 
-      const response: AxiosResponse<DvlaVehicleResponse> = await axios.post(
-        this.DVLA_VEHICLE_URL,
-        { registrationNumber: registrationNumber.toUpperCase() },
-        {
-          headers: {
-            'x-api-key': this.DVLA_API_KEY,
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000, // 10 second timeout
-        },
-      );
+      const response: AxiosResponse<DvlaVehicleResponse> =
+        await this.callUpstream('dvla', () =>
+          axios.post(
+            this.DVLA_VEHICLE_URL,
+            { registrationNumber: registrationNumber.toUpperCase() },
+            {
+              headers: {
+                'x-api-key': this.DVLA_API_KEY,
+                'Content-Type': 'application/json',
+              },
+              timeout: 10000, // 10 second timeout
+            },
+          ),
+        );
 
       this.logger.log(
         `Successfully retrieved vehicle details for: ${registrationNumber}`,
@@ -87,9 +139,7 @@ export class DvlaService {
    * @throws NotFoundException - When vehicle is not found
    * @throws InternalServerErrorException - When MOT API is unavailable
    */
-  static async getMotHistory(
-    registrationNumber: string,
-  ): Promise<MotHistoryResponse> {
+  async getMotHistory(registrationNumber: string): Promise<MotHistoryResponse> {
     try {
       this.logger.log(
         `Fetching MOT history for registration: ${registrationNumber}`,
@@ -100,21 +150,23 @@ export class DvlaService {
         throw new BadRequestException('Invalid registration number format');
       }
 
-      // Ensure we have a valid access token
-      await this.ensureValidMotToken();
-      // console.log('mot token: ', this.motAccessToken);
-
-      const response: AxiosResponse<MotHistoryResponse> = await axios.get(
-        `${this.MOT_API_BASE_URL}/${registrationNumber.toUpperCase()}`,
-        {
-          headers: {
-            'x-api-key': appConfig().mot.api_key,
-            Authorization: `Bearer ${this.motAccessToken}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 15000, // 15 second timeout for MOT API
-        },
-      );
+      const response: AxiosResponse<MotHistoryResponse> =
+        await this.callUpstream('mot', async () => {
+          // Ensure we have a valid access token
+          await this.ensureValidMotToken();
+
+          return axios.get(
+            `${this.MOT_API_BASE_URL}/${registrationNumber.toUpperCase()}`,
+            {
+              headers: {
+                'x-api-key': appConfig().mot.api_key,
+                Authorization: `Bearer ${this.motAccessToken}`,
+                'Content-Type': 'application/json',
+              },
+              timeout: 15000, // 15 second timeout for MOT API
+            },
+          );
+        });
       // console.log(response.data);
 
       this.logger.log(
@@ -126,74 +178,11 @@ export class DvlaService {
     }
   }
 
-  /**
-   * Get comprehensive vehicle information from both DVLA and MOT APIs
-   *
-   * @param registrationNumber - UK vehicle registration number
-   * @returns Promise<CombinedVehicleData> - Complete vehicle information
-   */
-  static async getCompleteVehicleData(
-    registrationNumber: string,
-  ): Promise<CombinedVehicleData> {
-    try {
-      this.logger.log(
-        `Fetching complete vehicle data for: ${registrationNumber}`,
-      );
-
-      // Fetch data from both APIs concurrently for better performance
-      const [dvlaData, motData] = await Promise.allSettled([
-        this.getVehicleDetails(registrationNumber),
-        this.getMotHistory(registrationNumber),
-      ]);
-
-      // Combine data from both sources
-      const combinedData: CombinedVehicleData = {
-        registrationNumber: registrationNumber.toUpperCase(),
-        dvlaData: dvlaData.status === 'fulfilled' ? dvlaData.value : null,
-        motData: motData.status === 'fulfilled' ? motData.value : null,
-        lastUpdated: new Date(),
-      };
-
-      // Log success/failure for each API
-      if (dvlaData.status === 'fulfilled') {
-        this.logger.log(`DVLA API: Success for ${registrationNumber}`);
-      } else {
-        this.logger.warn(
-          `DVLA API: Failed for ${registrationNumber} - ${dvlaData.reason}`,
-        );
-      }
-
-      if (motData.status === 'fulfilled') {
-        this.logger.log(`MOT API: Success for ${registrationNumber}`);
-      } else {
-        this.logger.warn(
-          `MOT API: Failed for ${registrationNumber} - ${motData.reason}`,
-        );
-      }
-
-      // Ensure we have at least some data
-      if (!combinedData.dvlaData && !combinedData.motData) {
-        throw new NotFoundException('Vehicle not found in any database');
-      }
-
-      this.logger.log(
-        `Complete vehicle data retrieved for: ${registrationNumber}`,
-      );
-      return combinedData;
-    } catch (error) {
-      this.logger.error(
-        `Failed to get complete vehicle data for ${registrationNumber}:`,
-        error,
-      );
-      throw error;
-    }
-  }
-
   /**
    * Ensure we have a valid MOT API access token
    * Automatically refreshes token if expired or missing
    */
-  private static async ensureValidMotToken(): Promise<void> {
+  private async ensureValidMotToken(): Promise<void> {
     const now = Date.now();
 
     // Check if token is still valid (with 5 minute buffer)
@@ -225,22 +214,105 @@ export class DvlaService {
 
       this.logger.log('MOT API access token refreshed successfully');
     } catch (error) {
-      // this.logger.error('Failed to refresh MOT API access token:', error);
+      // Let an outage of the token endpoint be retried like the API itself
+      if (this.isTransientError(error)) throw error;
+
       throw new InternalServerErrorException(
         'Unable to authenticate with MOT API',
       );
     }
   }
 
+  /**
+   * Make one logical call to an upstream API: rate limited, retried with
+   * backoff on 429/5xx/network errors and guarded by the API's circuit breaker
+   */
+  private async callUpstream<T>(
+    source: VehicleDataSource,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    const { retry_attempts } = appConfig().vehicle_data;
+    const maxAttempts = Math.max(1, retry_attempts);
+
+    this.metrics.increment(source, 'requests');
+
+    try {
+      const result = await this.breakers[source].execute(
+        async () => {
+          for (let attempt = 1; ; attempt++) {
+            const waitedMs = await this.limiters[source].acquire();
+            if (waitedMs > 0) {
+              this.metrics.increment(source, 'throttled');
+              this.metrics.increment(source, 'throttled_wait_ms', waitedMs);
+            }
+
+            this.metrics.increment(source, 'attempts');
+            try {
+              return await request();
+            } catch (error) {
+              if (axios.isAxiosError(error) && error.response?.status === 401) {
+                // Token may have been revoked early; fetch a new one next time
+                this.motAccessToken = null;
+              }
+              if (attempt >= maxAttempts || !this.isTransientError(error)) {
+                throw error;
+              }
+
+              this.metrics.increment(source, 'retries');
+              await sleep(this.retryDelay(error, attempt));
+            }
+          }
+        },
+        (error) => this.isTransientError(error),
+      );
+
+      this.metrics.increment(source, 'successes');
+      return result;
+    } catch (error) {
+      if (error instanceof CircuitOpenException) {
+        this.metrics.increment(source, 'short_circuited');
+      } else if (this.isTransientError(error)) {
+        this.metrics.increment(source, 'failures');
+      } else {
+        this.metrics.increment(source, 'client_errors');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Network errors, timeouts, throttling and server errors are worth retrying;
+   * other 4xx responses will not change
+   */
+  private isTransientError(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+
+    const status = error.response?.status;
+    return !status || status === 429 || status >= 500;
+  }
+
+  private retryDelay(error: unknown, attempt: number): number {
+    const { retry_base_delay_ms } = appConfig().vehicle_data;
+
+    const retryAfter = axios.isAxiosError(error)
+      ? Number(error.response?.headers?.['retry-after'])
+      : NaN;
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    }
+
+    const backoff = retry_base_delay_ms * 2 ** (attempt - 1);
+    const jitter = Math.random() * retry_base_delay_ms;
+    return Math.min(backoff + jitter, MAX_RETRY_DELAY_MS);
+  }
+
   /**
    * Validate UK vehicle registration number format
    *
    * @param registrationNumber - Registration number to validate
    * @returns boolean - True if format is valid
    */
-  private static isValidRegistrationNumber(
-    registrationNumber: string,
-  ): boolean {
+  private isValidRegistrationNumber(registrationNumber: string): boolean {
     if (!registrationNumber || typeof registrationNumber !== 'string') {
       return false;
     }
@@ -262,7 +334,7 @@ export class DvlaService {
   /**
    * Handle errors from DVLA Vehicle Enquiry API
    */
-  private static handleDvlaApiError(
+  private handleDvlaApiError(
     error: any,
     registrationNumber: string,
     operation: string,
@@ -272,6 +344,10 @@ export class DvlaService {
     //   error,
     // );
 
+    if (error instanceof HttpException) {
+      throw error;
+    }
+
     if (axios.isAxiosError(error)) {
       const status = error.response?.status;
       const message = error.response?.data?.message || error.message;
@@ -314,7 +390,7 @@ export class DvlaService {
   /**
    * Handle errors from MOT History API
    */
-  private static handleMotApiError(
+  private handleMotApiError(
     error: any,
     registrationNumber: string,
     operation: string,
@@ -324,6 +400,10 @@ export class DvlaService {
     //   error,
     // );
 
+    if (error instanceof HttpException) {
+      throw error;
+    }
+
     if (axios.isAxiosError(error)) {
       const status = error.response?.status;
       const message = error.response?.data?.message || error.message;
@@ -403,7 +483,8 @@ export interface MotTest {
   registrationAtTimeOfTest: string | null;
   motTestNumber: string;
   completedDate: string;
-  expiryDate: string;
+  // Absent on failed tests
+  expiryDate?: string;
   odometerValue: string;
   odometerUnit: string;
   odometerResultType: string;
@@ -429,4 +510,6 @@ export interface CombinedVehicleData {
   dvlaData: DvlaVehicleResponse | null;
   motData: MotHistoryResponse | null;
   lastUpdated: Date;
+  /** Part of the data is an old cached copy served while an API was down */
+  stale: boolean;
 }
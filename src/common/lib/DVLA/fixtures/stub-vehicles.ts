@@ -0,0 +1,177 @@
+import { DvlaVehicleResponse, MotHistoryResponse } from '../DvlaService';
+
+export interface StubVehicle {
+  dvla: DvlaVehicleResponse | null;
+  mot: MotHistoryResponse | null;
+}
+
+/**
+ * Vehicles known to the offline provider, keyed by registration without spaces
+ */
+export const STUB_VEHICLES: Record<string, StubVehicle> = {
+  // MOT'd car with a full history
+  AB12CDE: {
+    dvla: {
+      registrationNumber: 'AB12CDE',
+      taxStatus: 'Taxed',
+      taxDueDate: '2027-03-01',
+      motStatus: 'Valid',
+      make: 'FORD',
+      yearOfManufacture: 2012,
+      engineCapacity: 1596,
+      co2Emissions: 139,
+      fuelType: 'PETROL',
+      markedForExport: false,
+      colour: 'BLUE',
+      typeApproval: 'M1',
+      dateOfLastV5CIssued: '2021-06-14',
+      motExpiryDate: '2027-04-18',
+      wheelplan: '2 AXLE RIGID BODY',
+      monthOfFirstRegistration: '2012-04',
+    },
+    mot: {
+      registration: 'AB12CDE',
+      make: 'FORD',
+      model: 'FOCUS',
+      firstUsedDate: '2012-04-19',
+      fuelType: 'Petrol',
+      primaryColour: 'Blue',
+      registrationDate: '2012-04-19',
+      manufactureDate: '2012-04-19',
+      engineSize: '1596',
+      hasOutstandingRecall: 'No',
+      motTests: [
+        {
+          registrationAtTimeOfTest: 'AB12CDE',
+          motTestNumber: '100000000003',
+          completedDate: '2026-04-17T10:12:45.000Z',
+          expiryDate: '2027-04-18',
+          odometerValue: '84210',
+          odometerUnit: 'MI',
+          odometerResultType: 'READ',
+          motTestResult: 'PASSED',
+          rfrAndComments: [
+            {
+              type: 'ADVISORY',
+              text: 'Nearside Front Tyre worn close to legal limit',
+              dangerous: false,
+            },
+          ],
+        },
+        {
+          registrationAtTimeOfTest: 'AB12CDE',
+          motTestNumber: '100000000002',
+          completedDate: '2025-04-15T09:03:11.000Z',
+          expiryDate: '2026-04-18',
+          odometerValue: '77902',
+          odometerUnit: 'MI',
+          odometerResultType: 'READ',
+          motTestResult: 'PASSED',
+          rfrAndComments: [],
+        },
+        {
+          registrationAtTimeOfTest: 'AB12CDE',
+          motTestNumber: '100000000001',
+          completedDate: '2025-04-14T14:40:00.000Z',
+          odometerValue: '77898',
+          odometerUnit: 'MI',
+          odometerResultType: 'READ',
+          motTestResult: 'FAILED',
+          rfrAndComments: [
+            {
+              type: 'MAJOR',
+              text: 'Offside Headlamp aim too high',
+              dangerous: false,
+            },
+          ],
+        },
+      ],
+    },
+  },
+
+  // MOT expired after a failed test
+  XY19ABC: {
+    dvla: {
+      registrationNumber: 'XY19ABC',
+      taxStatus: 'Taxed',
+      taxDueDate: '2027-01-01',
+      motStatus: 'Not valid',
+      make: 'VOLKSWAGEN',
+      yearOfManufacture: 2019,
+      engineCapacity: 1968,
+      co2Emissions: 118,
+      fuelType: 'DIESEL',
+      markedForExport: false,
+      colour: 'GREY',
+      typeApproval: 'M1',
+      dateOfLastV5CIssued: '2023-09-02',
+      motExpiryDate: '2026-08-30',
+      wheelplan: '2 AXLE RIGID BODY',
+      monthOfFirstRegistration: '2019-08',
+    },
+    mot: {
+      registration: 'XY19ABC',
+      make: 'VOLKSWAGEN',
+      model: 'GOLF',
+      firstUsedDate: '2019-08-31',
+      fuelType: 'Diesel',
+      primaryColour: 'Grey',
+      registrationDate: '2019-08-31',
+      manufactureDate: '2019-08-31',
+      engineSize: '1968',
+      hasOutstandingRecall: 'Unknown',
+      motTests: [
+        {
+          registrationAtTimeOfTest: 'XY19ABC',
+          motTestNumber: '200000000002',
+          completedDate: '2026-08-28T11:20:00.000Z',
+          odometerValue: '61022',
+          odometerUnit: 'MI',
+          odometerResultType: 'READ',
+          motTestResult: 'FAILED',
+          rfrAndComments: [
+            {
+              type: 'DANGEROUS',
+              text: 'Nearside Front Brake disc excessively worn',
+              dangerous: true,
+            },
+          ],
+        },
+        {
+          registrationAtTimeOfTest: 'XY19ABC',
+          motTestNumber: '200000000001',
+          completedDate: '2025-08-29T08:45:30.000Z',
+          expiryDate: '2026-08-30',
+          odometerValue: '48377',
+          odometerUnit: 'MI',
+          odometerResultType: 'READ',
+          motTestResult: 'PASSED',
+          rfrAndComments: [],
+        },
+      ],
+    },
+  },
+
+  // Under three years old, so DVSA holds no MOT history yet
+  KL24MNO: {
+    dvla: {
+      registrationNumber: 'KL24MNO',
+      taxStatus: 'Taxed',
+      taxDueDate: '2027-05-01',
+      motStatus: 'No details held by DVLA',
+      make: 'TOYOTA',
+      yearOfManufacture: 2024,
+      engineCapacity: 1490,
+      co2Emissions: 102,
+      fuelType: 'HYBRID ELECTRIC',
+      markedForExport: false,
+      colour: 'WHITE',
+      typeApproval: 'M1',
+      dateOfLastV5CIssued: '2024-05-10',
+      motExpiryDate: '2027-05-09',
+      wheelplan: '2 AXLE RIGID BODY',
+      monthOfFirstRegistration: '2024-05',
+    },
+    mot: null,
+  },
+};
@@ -0,0 +1,67 @@
+import { CircuitBreaker, CircuitOpenException } from './resilience';
+
+describe('CircuitBreaker', () => {
+  const outage = new Error('503 Service Unavailable');
+  const isFailure = (error: unknown) => error === outage;
+
+  const build = () => {
+    const states: string[] = [];
+    const breaker = new CircuitBreaker({
+      name: 'MOT API',
+      failureThreshold: 2,
+      resetTimeoutMs: 30000,
+      onStateChange: (state) => states.push(state),
+    });
+    return { breaker, states };
+  };
+
+  afterEach(() => jest.useRealTimers());
+
+  it('opens after consecutive failures and rejects calls without making them', async () => {
+    const { breaker, states } = build();
+    const call = jest.fn().mockRejectedValue(outage);
+
+    await expect(breaker.execute(call, isFailure)).rejects.toBe(outage);
+    await expect(breaker.execute(call, isFailure)).rejects.toBe(outage);
+    await expect(breaker.execute(call, isFailure)).rejects.toThrow(
+      CircuitOpenException,
+    );
+
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(states).toEqual(['open']);
+  });
+
+  it('does not count answers such as a 404 against the upstream', async () => {
+    const { breaker } = build();
+    const notFound = new Error('404 Not Found');
+    const call = jest.fn().mockRejectedValue(notFound);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(call, isFailure)).rejects.toBe(notFound);
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets a single trial call through after the reset timeout', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { breaker, states } = build();
+    const failing = jest.fn().mockRejectedValue(outage);
+    await expect(breaker.execute(failing, isFailure)).rejects.toBe(outage);
+    await expect(breaker.execute(failing, isFailure)).rejects.toBe(outage);
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:31Z'));
+    let finishTrial: (value: string) => void = () => undefined;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (finishTrial = resolve)),
+      isFailure,
+    );
+    await expect(
+      breaker.execute(() => Promise.resolve('second'), isFailure),
+    ).rejects.toThrow(CircuitOpenException);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(states).toEqual(['open', 'half_open', 'closed']);
+  });
+});
@@ -0,0 +1,139 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Thrown without calling the upstream while its circuit is open
+ */
+export class CircuitOpenException extends ServiceUnavailableException {
+  constructor(name: string) {
+    super(`${name} is temporarily unavailable`);
+  }
+}
+
+/**
+ * Token bucket shared by every call to one upstream. Callers over the quota
+ * wait for their turn instead of failing; reservations are handed out in
+ * arrival order.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly burst: number,
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Take a token, waiting if none is free
+   *
+   * @returns milliseconds spent waiting
+   */
+  async acquire(): Promise<number> {
+    if (!(this.ratePerSecond > 0)) return 0;
+
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond,
+    );
+    this.lastRefill = now;
+
+    // Going negative reserves a future token for this caller
+    this.tokens -= 1;
+    if (this.tokens >= 0) return 0;
+
+    const waitMs = Math.ceil((-this.tokens / this.ratePerSecond) * 1000);
+    await sleep(waitMs);
+    return waitMs;
+  }
+}
+
+interface CircuitBreakerOptions {
+  name: string;
+  /** Consecutive failed calls that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single trial call is let through */
+  resetTimeoutMs: number;
+  onStateChange?: (state: CircuitState) => void;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Run `call` unless the circuit is open. Only errors matching `isFailure`
+   * count against the upstream; anything else (e.g. a 404) proves it is up.
+   */
+  async execute<T>(
+    call: () => Promise<T>,
+    isFailure: (error: unknown) => boolean,
+  ): Promise<T> {
+    let isTrial = false;
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.resetTimeoutMs) {
+        throw new CircuitOpenException(this.options.name);
+      }
+      this.transition('half_open');
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenException(this.options.name);
+      }
+      this.trialInFlight = isTrial = true;
+    }
+
+    try {
+      const result = await call();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  private recordSuccess() {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  private recordFailure() {
+    this.consecutiveFailures += 1;
+    if (
+      this.state === 'half_open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState) {
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,47 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DvlaVehicleResponse, MotHistoryResponse } from './DvlaService';
+import { STUB_VEHICLES } from './fixtures/stub-vehicles';
+import { VehicleDataProvider } from './vehicle-data.provider';
+
+/**
+ * Offline provider serving fixture vehicles, for local development and tests
+ * without DVLA/DVSA credentials. Enable with VEHICLE_DATA_PROVIDER=stub.
+ */
+@Injectable()
+export class StubVehicleDataProvider implements VehicleDataProvider {
+  async getVehicleDetails(
+    registrationNumber: string,
+  ): Promise<DvlaVehicleResponse> {
+    const vehicle = STUB_VEHICLES[this.normalize(registrationNumber)];
+    if (!vehicle?.dvla) {
+      throw new NotFoundException(
+        `Vehicle not found in DVLA database: ${registrationNumber}`,
+      );
+    }
+    return structuredClone(vehicle.dvla);
+  }
+
+  async getMotHistory(registrationNumber: string): Promise<MotHistoryResponse> {
+    const vehicle = STUB_VEHICLES[this.normalize(registrationNumber)];
+    if (!vehicle?.mot) {
+      throw new NotFoundException(
+        `Vehicle not found in MOT database: ${registrationNumber}`,
+      );
+    }
+    return structuredClone(vehicle.mot);
+  }
+
+  private normalize(registrationNumber: string) {
+    const cleanReg = (registrationNumber ?? '')
+      .replace(/\s/g, '')
+      .toUpperCase();
+    if (!/^[A-Z0-9]{2,8}$/.test(cleanReg)) {
+      throw new BadRequestException('Invalid registration number format');
+    }
+    return cleanReg;
+  }
+}
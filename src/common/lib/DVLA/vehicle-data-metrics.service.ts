@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { CircuitState } from './resilience';
+
+export type VehicleDataSource = 'dvla' | 'mot';
+
+interface SourceCounters {
+  /** Lookups that reached the provider */
+  requests: number;
+  /** HTTP attempts, including retries */
+  attempts: number;
+  retries: number;
+  successes: number;
+  /** Lookups that failed because the upstream was down, slow or throttling us */
+  failures: number;
+  /** Lookups the upstream answered with a 4xx, e.g. an unknown registration */
+  client_errors: number;
+  /** Lookups rejected without a call while the circuit was open */
+  short_circuited: number;
+  throttled: number;
+  throttled_wait_ms: number;
+  cache_hits: number;
+  cache_misses: number;
+  stale_served: number;
+  circuit_state: CircuitState;
+  circuit_opened_count: number;
+  circuit_changed_at: Date | null;
+}
+
+/**
+ * In-process counters for DVLA/DVSA traffic since the server started
+ */
+@Injectable()
+export class VehicleDataMetricsService {
+  private readonly since = new Date();
+  private readonly sources: Record<VehicleDataSource, SourceCounters> = {
+    dvla: this.emptyCounters(),
+    mot: this.emptyCounters(),
+  };
+
+  increment(
+    source: VehicleDataSource,
+    counter: Exclude<
+      keyof SourceCounters,
+      'circuit_state' | 'circuit_changed_at' | 'circuit_opened_count'
+    >,
+    by = 1,
+  ) {
+    this.sources[source][counter] += by;
+  }
+
+  recordCircuitState(source: VehicleDataSource, state: CircuitState) {
+    const counters = this.sources[source];
+    counters.circuit_state = state;
+    counters.circuit_changed_at = new Date();
+    if (state === 'open') counters.circuit_opened_count += 1;
+  }
+
+  snapshot() {
+    const sources = Object.fromEntries(
+      Object.entries(this.sources).map(([source, counters]) => {
+        const completed =
+          counters.successes + counters.failures + counters.client_errors;
+        const lookups = counters.cache_hits + counters.cache_misses;
+        return [
+          source,
+          {
+            ...counters,
+            failure_rate: completed
+              ? Number((counters.failures / completed).toFixed(4))
+              : 0,
+            cache_hit_rate: lookups
+              ? Number((counters.cache_hits / lookups).toFixed(4))
+              : 0,
+          },
+        ];
+      }),
+    );
+
+    return { since: this.since, sources };
+  }
+
+  private emptyCounters(): SourceCounters {
+    return {
+      requests: 0,
+      attempts: 0,
+      retries: 0,
+      successes: 0,
+      failures: 0,
+      client_errors: 0,
+      short_circuited: 0,
+      throttled: 0,
+      throttled_wait_ms: 0,
+      cache_hits: 0,
+      cache_misses: 0,
+      stale_served: 0,
+      circuit_state: 'closed',
+      circuit_opened_count: 0,
+      circuit_changed_at: null,
+    };
+  }
+}
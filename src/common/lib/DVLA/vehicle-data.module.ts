@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import appConfig from '../../../config/app.config';
+import { DvlaService } from './DvlaService';
+import { StubVehicleDataProvider } from './stub-vehicle-data.provider';
+import { VEHICLE_DATA_PROVIDER } from './vehicle-data.provider';
+import { VehicleDataService } from './vehicle-data.service';
+import { VehicleDataMetricsService } from './vehicle-data-metrics.service';
+
+@Module({
+  providers: [
+    {
+      provide: VEHICLE_DATA_PROVIDER,
+      useFactory: (metrics: VehicleDataMetricsService) =>
+        appConfig().vehicle_data.provider === 'stub'
+          ? new StubVehicleDataProvider()
+          : new DvlaService(metrics),
+      inject: [VehicleDataMetricsService],
+    },
+    VehicleDataMetricsService,
+    VehicleDataService,
+  ],
+  exports: [VehicleDataService, VehicleDataMetricsService],
+})
+export class VehicleDataModule {}
@@ -0,0 +1,14 @@
+import { DvlaVehicleResponse, MotHistoryResponse } from './DvlaService';
+
+export const VEHICLE_DATA_PROVIDER = 'VEHICLE_DATA_PROVIDER';
+
+/**
+ * Source of DVLA vehicle details and DVSA MOT history.
+ *
+ * Implementations throw NotFoundException for unknown registrations and
+ * BadRequestException for malformed ones, like the live APIs do.
+ */
+export interface VehicleDataProvider {
+  getVehicleDetails(registrationNumber: string): Promise<DvlaVehicleResponse>;
+  getMotHistory(registrationNumber: string): Promise<MotHistoryResponse>;
+}
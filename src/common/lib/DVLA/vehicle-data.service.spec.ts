@@ -0,0 +1,128 @@
+import { NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CircuitOpenException } from './resilience';
+import { StubVehicleDataProvider } from './stub-vehicle-data.provider';
+import { VEHICLE_DATA_PROVIDER } from './vehicle-data.provider';
+import { VehicleDataMetricsService } from './vehicle-data-metrics.service';
+import { VehicleDataService } from './vehicle-data.service';
+
+// In-memory stand-in for the Redis client the service connects on init
+const mockStore = new Map<string, string>();
+const mockRedis = {
+  get: jest.fn(),
+  set: jest.fn(),
+  on: jest.fn(),
+  quit: jest.fn(),
+};
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn(() => mockRedis),
+}));
+
+describe('VehicleDataService', () => {
+  let module: TestingModule;
+  let service: VehicleDataService;
+  let provider: StubVehicleDataProvider;
+  let metrics: VehicleDataMetricsService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockStore.clear();
+    mockRedis.get.mockImplementation(
+      async (key: string) => mockStore.get(key) ?? null,
+    );
+    mockRedis.set.mockImplementation(async (key: string, value: string) => {
+      mockStore.set(key, value);
+      return 'OK';
+    });
+    mockRedis.quit.mockResolvedValue('OK');
+
+    module = await Test.createTestingModule({
+      providers: [
+        VehicleDataService,
+        VehicleDataMetricsService,
+        { provide: VEHICLE_DATA_PROVIDER, useClass: StubVehicleDataProvider },
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get(VehicleDataService);
+    provider = module.get(VEHICLE_DATA_PROVIDER);
+    metrics = module.get(VehicleDataMetricsService);
+    jest.spyOn(provider, 'getVehicleDetails');
+    jest.spyOn(provider, 'getMotHistory');
+  });
+
+  afterEach(() => module.close());
+
+  it('serves repeat lookups of a registration from the cache', async () => {
+    const first = await service.getCompleteVehicleData('ab12 cde');
+    const second = await service.getCompleteVehicleData('AB12CDE');
+
+    expect(first.dvlaData?.make).toBe('FORD');
+    expect(second.motData?.motTests).toHaveLength(3);
+    expect(provider.getVehicleDetails).toHaveBeenCalledTimes(1);
+    expect(provider.getMotHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers registrations the provider does not know', async () => {
+    const vehicle = await service.getCompleteVehicleData('KL24MNO');
+    await expect(service.getMotHistory('KL24MNO')).rejects.toThrow(
+      NotFoundException,
+    );
+
+    expect(vehicle.motData).toBeNull();
+    expect(provider.getMotHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes to the provider when asked to refresh', async () => {
+    await service.getMotHistory('XY19ABC');
+    await service.getMotHistory('XY19ABC', { refresh: true });
+
+    expect(provider.getMotHistory).toHaveBeenCalledTimes(2);
+  });
+
+  it('still answers when the cache is unavailable', async () => {
+    mockRedis.get.mockRejectedValue(new Error('Connection is closed.'));
+    mockRedis.set.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(service.getVehicleDetails('AB12CDE')).resolves.toEqual(
+      expect.objectContaining({ registrationNumber: 'AB12CDE' }),
+    );
+  });
+
+  it('serves an expired copy flagged as stale while the API is down', async () => {
+    await service.getCompleteVehicleData('AB12CDE');
+
+    // Age both entries past the cache TTL
+    for (const [key, raw] of mockStore) {
+      mockStore.set(key, JSON.stringify({ ...JSON.parse(raw), fetched_at: 0 }));
+    }
+    jest
+      .spyOn(provider, 'getVehicleDetails')
+      .mockRejectedValue(new CircuitOpenException('DVLA API'));
+    jest
+      .spyOn(provider, 'getMotHistory')
+      .mockRejectedValue(new CircuitOpenException('MOT API'));
+
+    const vehicle = await service.getCompleteVehicleData('AB12CDE');
+
+    expect(vehicle.stale).toBe(true);
+    expect(vehicle.dvlaData?.make).toBe('FORD');
+    expect(vehicle.lastUpdated).toEqual(new Date(0));
+    expect(metrics.snapshot().sources.dvla.stale_served).toBe(1);
+  });
+
+  it('reports an outage rather than an unknown vehicle when nothing is cached', async () => {
+    jest
+      .spyOn(provider, 'getVehicleDetails')
+      .mockRejectedValue(new CircuitOpenException('DVLA API'));
+    jest
+      .spyOn(provider, 'getMotHistory')
+      .mockRejectedValue(new CircuitOpenException('MOT API'));
+
+    await expect(service.getCompleteVehicleData('AB12CDE')).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+  });
+});
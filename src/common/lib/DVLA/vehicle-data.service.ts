@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import appConfig from '../../../config/app.config';
+import {
+  CombinedVehicleData,
+  DvlaVehicleResponse,
+  MotHistoryResponse,
+} from './DvlaService';
+import {
+  VEHICLE_DATA_PROVIDER,
+  VehicleDataProvider,
+} from './vehicle-data.provider';
+import {
+  VehicleDataMetricsService,
+  VehicleDataSource,
+} from './vehicle-data-metrics.service';
+
+// Registrations unknown to DVLA/DVSA (e.g. cars too new for an MOT) are
+// remembered for less time than real responses
+const NOT_FOUND_TTL_SECONDS = 60 * 60;
+
+type CachedLookup<T> =
+  | { found: true; data: T; fetched_at: number }
+  | { found: false };
+
+interface LookupResult<T> {
+  data: T;
+  fetchedAt: Date;
+  /** Served from an expired cache entry because the API was unavailable */
+  stale: boolean;
+}
+
+export interface VehicleDataLookupOptions {
+  /** Skip the cache and fetch from the provider, e.g. when polling for a new MOT result */
+  refresh?: boolean;
+}
+
+/**
+ * Vehicle details and MOT history from the configured provider, cached in
+ * Redis per registration so repeat searches don't call DVLA/DVSA again.
+ * Expired entries are kept a while longer and served, flagged as stale, when
+ * the API is down. Redis being unavailable only ever costs a cache miss.
+ */
+@Injectable()
+export class VehicleDataService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VehicleDataService.name);
+  private redis: Redis;
+
+  constructor(
+    @Inject(VEHICLE_DATA_PROVIDER)
+    private readonly provider: VehicleDataProvider,
+    private readonly metrics: VehicleDataMetricsService,
+  ) {}
+
+  onModuleInit() {
+    this.redis = new Redis({
+      host: appConfig().redis.host,
+      port: Number(appConfig().redis.port),
+      password: appConfig().redis.password,
+      // Fail fast instead of queueing reads while disconnected
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.warn(`Vehicle data cache unavailable: ${error.message}`);
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.redis?.quit().catch(() => undefined);
+  }
+
+  async getVehicleDetails(
+    registrationNumber: string,
+    options: VehicleDataLookupOptions = {},
+  ): Promise<DvlaVehicleResponse> {
+    return (await this.lookupVehicleDetails(registrationNumber, options)).data;
+  }
+
+  async getMotHistory(
+    registrationNumber: string,
+    options: VehicleDataLookupOptions = {},
+  ): Promise<MotHistoryResponse> {
+    return (await this.lookupMotHistory(registrationNumber, options)).data;
+  }
+
+  /**
+   * Get comprehensive vehicle information from both DVLA and MOT sources
+   *
+   * @throws NotFoundException - When neither source knows the vehicle
+   */
+  async getCompleteVehicleData(
+    registrationNumber: string,
+    options: VehicleDataLookupOptions = {},
+  ): Promise<CombinedVehicleData> {
+    const [dvlaData, motData] = await Promise.allSettled([
+      this.lookupVehicleDetails(registrationNumber, options),
+      this.lookupMotHistory(registrationNumber, options),
+    ]);
+
+    if (dvlaData.status === 'rejected') {
+      this.logger.warn(
+        `DVLA lookup failed for ${registrationNumber} - ${dvlaData.reason}`,
+      );
+    }
+    if (motData.status === 'rejected') {
+      this.logger.warn(
+        `MOT lookup failed for ${registrationNumber} - ${motData.reason}`,
+      );
+    }
+
+    const results = [dvlaData, motData]
+      .filter((result) => result.status === 'fulfilled')
+      .map((result) => result.value);
+
+    const combinedData: CombinedVehicleData = {
+      registrationNumber: registrationNumber.toUpperCase(),
+      dvlaData: dvlaData.status === 'fulfilled' ? dvlaData.value.data : null,
+      motData: motData.status === 'fulfilled' ? motData.value.data : null,
+      // When the oldest part of the answer was fetched
+      lastUpdated: results.length
+        ? new Date(Math.min(...results.map((r) => r.fetchedAt.getTime())))
+        : new Date(),
+      stale: results.some((result) => result.stale),
+    };
+
+    if (!combinedData.dvlaData && !combinedData.motData) {
+      const unavailable = [dvlaData, motData].some(
+        (result) =>
+          result.status === 'rejected' && !this.isAnswer(result.reason),
+      );
+      if (unavailable) {
+        throw new ServiceUnavailableException(
+          'Vehicle data is temporarily unavailable, please try again shortly',
+        );
+      }
+      throw new NotFoundException('Vehicle not found in any database');
+    }
+
+    return combinedData;
+  }
+
+  private lookupVehicleDetails(
+    registrationNumber: string,
+    options: VehicleDataLookupOptions,
+  ) {
+    return this.lookup('dvla', registrationNumber, options, () =>
+      this.provider.getVehicleDetails(registrationNumber),
+    );
+  }
+
+  private lookupMotHistory(
+    registrationNumber: string,
+    options: VehicleDataLookupOptions,
+  ) {
+    return this.lookup('mot', registrationNumber, options, () =>
+      this.provider.getMotHistory(registrationNumber),
+    );
+  }
+
+  private async lookup<T>(
+    source: VehicleDataSource,
+    registrationNumber: string,
+    options: VehicleDataLookupOptions,
+    fetch: () => Promise<T>,
+  ): Promise<LookupResult<T>> {
+    const { cache_ttl_seconds, stale_ttl_seconds } = appConfig().vehicle_data;
+    const key = this.cacheKey(source, registrationNumber);
+
+    // A refresh wants the API's answer or an error, never a cached copy
+    const cached = options.refresh ? null : await this.read<T>(key);
+    if (
+      cached?.found &&
+      Date.now() - cached.fetched_at < cache_ttl_seconds * 1000
+    ) {
+      this.metrics.increment(source, 'cache_hits');
+      return {
+        data: cached.data,
+        fetchedAt: new Date(cached.fetched_at),
+        stale: false,
+      };
+    }
+    if (cached && !cached.found) {
+      this.metrics.increment(source, 'cache_hits');
+      throw new NotFoundException(
+        `Vehicle not found in ${source === 'dvla' ? 'DVLA' : 'MOT'} database: ${registrationNumber}`,
+      );
+    }
+    this.metrics.increment(source, 'cache_misses');
+
+    try {
+      const data = await fetch();
+      const fetchedAt = Date.now();
+      await this.write<T>(
+        key,
+        { found: true, data, fetched_at: fetchedAt },
+        cache_ttl_seconds + stale_ttl_seconds,
+      );
+      return { data, fetchedAt: new Date(fetchedAt), stale: false };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        await this.write<T>(key, { found: false }, NOT_FOUND_TTL_SECONDS);
+        throw error;
+      }
+      if (this.isAnswer(error) || !cached?.found) {
+        throw error;
+      }
+
+      this.metrics.increment(source, 'stale_served');
+      this.logger.warn(
+        `Serving stale ${source} data for ${registrationNumber} from ${new Date(cached.fetched_at).toISOString()}: ${error.message}`,
+      );
+      return {
+        data: cached.data,
+        fetchedAt: new Date(cached.fetched_at),
+        stale: true,
+      };
+    }
+  }
+
+  /**
+   * Whether the API actually answered, as opposed to being down or throttling
+   */
+  private isAnswer(error: unknown) {
+    return (
+      error instanceof NotFoundException || error instanceof BadRequestException
+    );
+  }
+
+  private async read<T>(key: string): Promise<CachedLookup<T> | null> {
+    if (!this.redis) return null;
+
+    try {
+      const raw = await this.redis.get(key);
+      return raw ? (JSON.parse(raw) as CachedLookup<T>) : null;
+    } catch (error) {
+      this.logger.warn(`Vehicle data cache read failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async write<T>(
+    key: string,
+    entry: CachedLookup<T>,
+    ttlSeconds: number,
+  ): Promise<void> {
+    if (!this.redis || !(ttlSeconds > 0)) return;
+
+    try {
+      await this.redis.set(key, JSON.stringify(entry), 'EX', ttlSeconds);
+    } catch (error) {
+      this.logger.warn(`Vehicle data cache write failed: ${error.message}`);
+    }
+  }
+
+  private cacheKey(source: VehicleDataSource, registrationNumber: string) {
+    const cleanReg = (registrationNumber ?? '')
+      .replace(/\s/g, '')
+      .toUpperCase();
+    return `vehicle-data:${source}:${cleanReg}`;
+  }
+}
@@ -10,6 +10,8 @@ const Stripe = new stripe(STRIPE_SECRET_KEY, {
 });
 
 const STRIPE_WEBHOOK_SECRET = appConfig().payment.stripe.webhook_secret;
+const STRIPE_CONNECT_WEBHOOK_SECRET =
+  appConfig().payment.stripe.connect_webhook_secret;
 /**
  * Stripe payment method helper
  */
@@ -199,13 +201,47 @@ export class StripePayment {
     metadata?: stripe.MetadataParam;
   }): Promise<stripe.PaymentIntent> {
     return Stripe.paymentIntents.create({
-      amount: amount * 100, // amount in cents
+      amount: Math.round(amount * 100), // amount in cents
       currency: currency,
       customer: customer_id,
       metadata: metadata,
     });
   }
 
+  static async retrievePaymentIntent(
+    payment_intent_id: string,
+  ): Promise<stripe.PaymentIntent> {
+    return Stripe.paymentIntents.retrieve(payment_intent_id);
+  }
+
+  static async cancelPaymentIntent(
+    payment_intent_id: string,
+  ): Promise<stripe.PaymentIntent> {
+    return Stripe.paymentIntents.cancel(payment_intent_id);
+  }
+
+  static async createRefund({
+    payment_intent_id,
+    amount,
+    metadata,
+    idempotency_key,
+  }: {
+    payment_intent_id: string;
+    amount?: number;
+    metadata?: stripe.MetadataParam;
+    idempotency_key?: string;
+  }): Promise<stripe.Refund> {
+    return Stripe.refunds.create(
+      {
+        payment_intent: payment_intent_id,
+        // omit amount for a full refund
+        ...(amount !== undefined && { amount: Math.round(amount * 100) }),
+        metadata: metadata,
+      },
+      idempotency_key ? { idempotencyKey: idempotency_key } : undefined,
+    );
+  }
+
   /**
    * Create stripe hosted checkout session
    * @param customer
@@ -410,11 +446,11 @@ export class StripePayment {
   // -----------------------payout system start--------------------------------
 
   // If you are paying users, they need Stripe Connect accounts. You can create Express or Standard accounts.
-  static async createConnectedAccount(email: string) {
+  static async createConnectedAccount(email: string, country: string = 'US') {
     const connectedAccount = await Stripe.accounts.create({
       type: 'express',
       email: email,
-      country: 'US', // change as per user's country
+      country: country,
       // business_profile: {
       //   url: appConfig().app.url,
       // },
@@ -451,20 +487,50 @@ export class StripePayment {
     return accountLink;
   }
 
+  static async retrieveAccount(account_id: string): Promise<stripe.Account> {
+    return Stripe.accounts.retrieve(account_id);
+  }
+
   // transfer money to account
   static async createTransfer(
     account_id: string,
     amount: number,
     currency: string,
+    metadata?: stripe.MetadataParam,
+    idempotency_key?: string,
+    source_transaction?: string,
   ) {
-    const transfer = await Stripe.transfers.create({
-      amount: amount * 100,
-      currency: currency,
-      destination: account_id,
-    });
+    const transfer = await Stripe.transfers.create(
+      {
+        amount: Math.round(amount * 100),
+        currency: currency,
+        destination: account_id,
+        metadata: metadata,
+        // charge the transfer is funded by; it waits for that charge to settle
+        ...(source_transaction && { source_transaction }),
+      },
+      idempotency_key ? { idempotencyKey: idempotency_key } : undefined,
+    );
     return transfer;
   }
 
+  // take (part of) a transfer back from the connected account
+  static async createTransferReversal(
+    transfer_id: string,
+    amount: number,
+    metadata?: stripe.MetadataParam,
+    idempotency_key?: string,
+  ): Promise<stripe.TransferReversal> {
+    return Stripe.transfers.createReversal(
+      transfer_id,
+      {
+        amount: Math.round(amount * 100),
+        metadata: metadata,
+      },
+      idempotency_key ? { idempotencyKey: idempotency_key } : undefined,
+    );
+  }
+
   // Once the user has an approved Stripe account with a linked bank, you can send them funds.
   static async createPayout(
     account_id: string,
@@ -677,12 +743,17 @@ export class StripePayment {
     });
   }
 
-  static handleWebhook(rawBody: string, sig: string | string[]): stripe.Event {
+  static handleWebhook(
+    rawBody: string,
+    sig: string | string[],
+    connect = false,
+  ): stripe.Event {
     try {
       const event = Stripe.webhooks.constructEvent(
         rawBody,
         sig,
-        STRIPE_WEBHOOK_SECRET,
+        // Connect endpoints are signed with their own secret
+        connect ? STRIPE_CONNECT_WEBHOOK_SECRET : STRIPE_WEBHOOK_SECRET,
       );
       return event;
     } catch (err) {
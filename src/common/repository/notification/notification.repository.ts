@@ -17,6 +17,7 @@ export enum NotificationType {
   ROLE_MANAGEMENT = 'role_management',
   SUBSCRIPTION = 'subscription',
   MOT_EXPIRY_REMINDER = 'mot_expiry_reminder',
+  VEHICLE_TRANSFER = 'vehicle_transfer',
   // Add new types here as needed
 }
 export class NotificationRepository {
@@ -61,6 +61,8 @@ export default () => ({
     stripe: {
       secret_key: process.env.STRIPE_SECRET_KEY,
       webhook_secret: process.env.STRIPE_WEBHOOK_SECRET,
+      // Endpoint receiving events of garages' Connect accounts (account.updated)
+      connect_webhook_secret: process.env.STRIPE_CONNECT_WEBHOOK_SECRET,
     },
   },
 
@@ -96,4 +98,36 @@ export default () => ({
     client_secret: process.env.MOT_CLIENT_SECRET,
     api_key: process.env.MOT_API_KEY,
   },
+  vehicle_data: {
+    // 'dvla' for the live DVLA/DVSA APIs, 'stub' for offline fixtures
+    provider: process.env.VEHICLE_DATA_PROVIDER || 'dvla',
+    cache_ttl_seconds: Number(
+      process.env.VEHICLE_DATA_CACHE_TTL_SECONDS || 6 * 60 * 60,
+    ),
+    // How long past its TTL a response may still be served while the API is down
+    stale_ttl_seconds: Number(
+      process.env.VEHICLE_DATA_STALE_TTL_SECONDS || 7 * 24 * 60 * 60,
+    ),
+    retry_attempts: Number(process.env.VEHICLE_DATA_RETRY_ATTEMPTS || 3),
+    retry_base_delay_ms: Number(
+      process.env.VEHICLE_DATA_RETRY_BASE_DELAY_MS || 300,
+    ),
+    // DVSA MOT History quota is 15 requests/second with a burst of 10
+    dvla_rate_per_second: Number(process.env.DVLA_RATE_PER_SECOND || 10),
+    dvla_burst: Number(process.env.DVLA_BURST || 10),
+    mot_rate_per_second: Number(process.env.MOT_RATE_PER_SECOND || 15),
+    mot_burst: Number(process.env.MOT_BURST || 10),
+    circuit_failure_threshold: Number(
+      process.env.VEHICLE_DATA_CIRCUIT_FAILURE_THRESHOLD || 5,
+    ),
+    circuit_reset_seconds: Number(
+      process.env.VEHICLE_DATA_CIRCUIT_RESET_SECONDS || 30,
+    ),
+    // Background MOT refresh: re-sync anything not synced for this long...
+    mot_refresh_stale_days: Number(process.env.MOT_REFRESH_STALE_DAYS || 30),
+    // ...and daily within this many days either side of its MOT expiry
+    mot_refresh_expiry_window_days: Number(
+      process.env.MOT_REFRESH_EXPIRY_WINDOW_DAYS || 30,
+    ),
+  },
 });
@@ -1,11 +1,14 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
 import { MailerService } from '@nestjs-modules/mailer';
 import appConfig from '../config/app.config';
+import { IcalHelper } from '../common/helper/ical.helper';
 
 @Injectable()
 export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
   constructor(
     @InjectQueue('mail-queue') private queue: Queue,
     private mailerService: MailerService,
@@ -775,15 +778,46 @@ export class MailService {
     vehicle_registration: string;
     booking_date: string; // formatted date
     booking_time: string; // formatted time range e.g. 10:00 - 10:30
+    // When given, an .ics file is attached so the driver can add the booking to a calendar
+    calendar_event?: {
+      order_id: string;
+      start: Date;
+      end: Date;
+    };
   }) {
     try {
       const from = `${process.env.MAIL_FROM_NAME} <${appConfig().mail.from}>`;
       const subject = 'MOT Booking Confirmed';
 
+      const attachments = params.calendar_event
+        ? [
+            {
+              filename: 'booking.ics',
+              contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+              content: IcalHelper.buildCalendar({
+                name: `${params.service_type} at ${params.garage_name}`,
+                events: [
+                  {
+                    uid: IcalHelper.bookingUid(params.calendar_event.order_id),
+                    start: params.calendar_event.start,
+                    end: params.calendar_event.end,
+                    summary: `${params.service_type} - ${params.vehicle_registration} at ${params.garage_name}`,
+                    description: `Garage contact number: ${params.garage_contact_number}`,
+                    location: [params.garage_address, params.garage_postcode]
+                      .filter((part) => part && part !== 'N/A')
+                      .join(', '),
+                  },
+                ],
+              }),
+            },
+          ]
+        : undefined;
+
       await this.queue.add('sendNotificationEmail', {
         to: params.to,
         from,
         subject,
+        attachments,
         template: 'booking-confirmation-driver',
         context: {
           app_name: process.env.APP_NAME || appConfig().app.name,
@@ -797,6 +831,7 @@ export class MailService {
           vehicle_registration: params.vehicle_registration,
           booking_date: params.booking_date,
           booking_time: params.booking_time,
+          has_calendar_attachment: !!attachments,
         },
       });
     } catch (error) {
@@ -842,4 +877,49 @@ export class MailService {
       // console.error('Error queuing garage booking notification email:', error);
     }
   }
+
+  // Booking: send cancellation email to driver or garage
+  async sendBookingCancellationEmail(params: {
+    to: string;
+    recipient_name: string;
+    message: string;
+    driver_name: string;
+    garage_name: string;
+    service_type: string;
+    vehicle_registration: string;
+    booking_date: string; // formatted date
+    booking_time: string; // formatted time range e.g. 10:00 - 10:30
+    reason?: string;
+    suggested_times?: string[]; // other free times the driver could book
+  }) {
+    try {
+      const from = `${process.env.MAIL_FROM_NAME} <${appConfig().mail.from}>`;
+      const subject = 'MOT Booking Cancelled';
+
+      await this.queue.add('sendNotificationEmail', {
+        to: params.to,
+        from,
+        subject,
+        template: 'booking-cancelled',
+        context: {
+          app_name: process.env.APP_NAME || appConfig().app.name,
+          support_email: appConfig().mail.from,
+          recipient_name: params.recipient_name,
+          message: params.message,
+          driver_name: params.driver_name,
+          garage_name: params.garage_name,
+          service_type: params.service_type,
+          vehicle_registration: params.vehicle_registration,
+          booking_date: params.booking_date,
+          booking_time: params.booking_time,
+          reason: params.reason || null,
+          suggested_times: params.suggested_times || [],
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error queuing booking cancellation email: ${error.message}`,
+      );
+    }
+  }
 }
@@ -184,6 +184,7 @@ export class MailProcessor extends WorkerHost {
             subject: job.data.subject,
             template: job.data.template,
             context: job.data.context,
+            attachments: job.data.attachments,
           });
           break;
         default:
@@ -23,6 +23,10 @@ async function bootstrap() {
     '/api/payment/stripe/webhook',
     bodyParser.raw({ type: 'application/json' }),
   );
+  app.use(
+    '/api/payment/stripe/connect-webhook',
+    bodyParser.raw({ type: 'application/json' }),
+  );
 
   app.setGlobalPrefix('api');
   app.enableCors({
@@ -12,6 +12,7 @@ import { BookingModule } from './booking/booking.module';
 import { SubscriptionModule } from './subscription/subscription.module';
 import { RoleModule } from './role/role.module';
 import { VehicleModule } from './vehicle/vehicle.module';
+import { ReviewsModule } from './reviews/reviews.module';
 
 @Module({
   imports: [
@@ -28,6 +29,7 @@ import { VehicleModule } from './vehicle/vehicle.module';
     SubscriptionModule,
     RoleModule,
     VehicleModule,
+    ReviewsModule,
   ],
 })
 export class AdminModule {}
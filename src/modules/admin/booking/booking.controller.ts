@@ -3,8 +3,10 @@ import {
   Get,
   Patch,
   Param,
+  Body,
   UseGuards,
   Query,
+  Req,
   BadRequestException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
@@ -16,6 +18,7 @@ import { Role } from 'src/common/guard/role/role.enum';
 import { CheckAbilities } from 'src/ability/abilities.decorator';
 import { Action } from 'src/ability/ability.factory';
 import { BookingService } from './booking.service';
+import { UpdateBookingSettingsDto } from './dto/update-booking-settings.dto';
 
 @ApiTags('Admin Booking Management')
 @Controller('admin/booking')
@@ -53,6 +56,20 @@ export class BookingController {
     );
   }
 
+  @ApiOperation({ summary: 'Get booking policy settings' })
+  @Get('settings')
+  @CheckAbilities({ action: Action.Read, subject: 'Booking' })
+  async getBookingSettings() {
+    return this.bookingService.getBookingSettings();
+  }
+
+  @ApiOperation({ summary: 'Update booking policy settings' })
+  @Patch('settings')
+  @CheckAbilities({ action: Action.Update, subject: 'Booking' })
+  async updateBookingSettings(@Body() dto: UpdateBookingSettingsDto) {
+    return this.bookingService.updateBookingSettings(dto);
+  }
+
   @ApiOperation({ summary: 'Get booking details by ID' })
   @Get(':id')
   @CheckAbilities({ action: Action.Show, subject: 'Booking' })
@@ -64,16 +81,27 @@ export class BookingController {
   @Patch(':id/status')
   @CheckAbilities({ action: Action.Update, subject: 'Booking' })
   async updateBookingStatus(
+    @Req() req,
     @Param('id') id: string,
     @Query('status') status: string,
+    @Query('reason') reason?: string,
   ) {
-    return this.bookingService.updateBookingStatus(id, status);
+    return this.bookingService.updateBookingStatus(
+      id,
+      status,
+      req.user.userId,
+      reason,
+    );
   }
 
   @ApiOperation({ summary: 'Cancel booking' })
   @Patch(':id/cancel')
   @CheckAbilities({ action: Action.Cancel, subject: 'Booking' })
-  async cancelBooking(@Param('id') id: string) {
-    return this.bookingService.cancelBooking(id);
+  async cancelBooking(
+    @Req() req,
+    @Param('id') id: string,
+    @Query('reason') reason?: string,
+  ) {
+    return this.bookingService.cancelBooking(id, req.user.userId, reason);
   }
 }
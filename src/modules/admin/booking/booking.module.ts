@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { AbilityModule } from 'src/ability/ability.module';
 import { BookingController } from './booking.controller';
 import { BookingService } from './booking.service';
+import { BookingStatusModule } from '../../application/booking-status/booking-status.module';
+import { GarageDashboardModule } from '../../application/garage-dashboard/garage-dashboard.module';
 
 @Module({
-  imports: [AbilityModule],
+  imports: [AbilityModule, BookingStatusModule, GarageDashboardModule],
   controllers: [BookingController],
   providers: [BookingService],
   exports: [BookingService],
@@ -2,12 +2,79 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
+import {
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  ServiceType,
+} from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SettingHelper } from 'src/common/helper/setting.helper';
+import { BookingStatusService } from '../../application/booking-status/booking-status.service';
+import { GarageBookingService } from '../../application/garage-dashboard/services/garage-booking.service';
+import { UpdateBookingSettingsDto } from './dto/update-booking-settings.dto';
+
+// Numeric booking settings stored in the Setting table, keyed by DTO field
+const BOOKING_SETTINGS: Record<
+  string,
+  { key: string; label: string; default: number }
+> = {
+  cancellationCutoffHours: {
+    key: 'BOOKING_CANCELLATION_CUTOFF_HOURS',
+    label: 'Booking Cancellation Cutoff (hours)',
+    default: 24,
+  },
+  rescheduleHoldHours: {
+    key: 'RESCHEDULE_HOLD_HOURS',
+    label: 'Reschedule Request Hold (hours)',
+    default: 24,
+  },
+  slotHoldMinutes: {
+    key: 'SLOT_HOLD_MINUTES',
+    label: 'Checkout Slot Hold (minutes)',
+    default: 10,
+  },
+  waitlistClaimMinutes: {
+    key: 'WAITLIST_CLAIM_MINUTES',
+    label: 'Waitlist Offer Claim Window (minutes)',
+    default: 30,
+  },
+  depositPercent: {
+    key: 'BOOKING_DEPOSIT_PERCENT',
+    label: 'Booking Deposit (% of total)',
+    default: 20,
+  },
+  paymentTimeoutMinutes: {
+    key: 'BOOKING_PAYMENT_TIMEOUT_MINUTES',
+    label: 'Booking Payment Timeout (minutes)',
+    default: 15,
+  },
+  platformFeePercent: {
+    key: 'PLATFORM_FEE_PERCENT',
+    label: 'Platform Fee on Garage Payouts (%)',
+    default: 10,
+  },
+  noShowPrepaymentThreshold: {
+    key: 'NO_SHOW_PREPAYMENT_THRESHOLD',
+    label: 'No-shows Before Online Payment Is Required (0 = never)',
+    default: 2,
+  },
+  noShowBlockThreshold: {
+    key: 'NO_SHOW_BLOCK_THRESHOLD',
+    label: 'No-shows Before Bookings Are Blocked (0 = never)',
+    default: 0,
+  },
+};
 
 @Injectable()
 export class BookingService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bookingStatusService: BookingStatusService,
+    private readonly garageBookingService: GarageBookingService,
+  ) {}
 
   async getBookings(
     page: number,
@@ -87,6 +154,18 @@ export class BookingService {
               registration_number: { contains: search, mode: 'insensitive' },
             },
           },
+          {
+            vehicle: {
+              previous_registrations: {
+                some: {
+                  registration_number: {
+                    contains: search,
+                    mode: 'insensitive',
+                  },
+                },
+              },
+            },
+          },
         ],
       });
     }
@@ -227,20 +306,30 @@ export class BookingService {
       throw new NotFoundException('Booking not found');
     }
 
+    const statusHistory = await this.bookingStatusService.getHistory(
+      booking.id,
+    );
+
     return {
       success: true,
-      data: booking,
+      data: {
+        ...booking,
+        allowed_statuses: this.bookingStatusService.allowedTransitions(
+          booking.status,
+          OrderStatusActor.ADMIN,
+        ),
+        status_history: statusHistory,
+      },
     };
   }
 
-  async updateBookingStatus(id: string, status: string) {
-    const validStatuses = [
-      'PENDING',
-      'ACCEPTED',
-      'REJECTED',
-      'COMPLETED',
-      'CANCELLED',
-    ];
+  async updateBookingStatus(
+    id: string,
+    status: string,
+    adminId: string,
+    reason?: string,
+  ) {
+    const validStatuses = Object.values(OrderStatus) as string[];
 
     if (!validStatuses.includes(status)) {
       throw new BadRequestException(
@@ -250,32 +339,19 @@ export class BookingService {
 
     const booking = await this.prisma.order.findUnique({
       where: { id },
+      include: { items: { select: { service: { select: { type: true } } } } },
     });
 
     if (!booking) {
       throw new NotFoundException('Booking not found');
     }
 
-    const updatedBooking = await this.prisma.order.update({
-      where: { id },
-      data: { status: status as any },
-      include: {
-        driver: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        garage: {
-          select: {
-            id: true,
-            garage_name: true,
-            email: true,
-          },
-        },
-      },
-    });
+    const updatedBooking = await this.changeStatus(
+      booking,
+      status as OrderStatus,
+      adminId,
+      reason,
+    );
 
     return {
       success: true,
@@ -284,55 +360,192 @@ export class BookingService {
     };
   }
 
-  async cancelBooking(id: string) {
+  async cancelBooking(id: string, adminId: string, reason?: string) {
     const booking = await this.prisma.order.findUnique({
       where: { id },
+      include: { items: { select: { service: { select: { type: true } } } } },
     });
 
     if (!booking) {
       throw new NotFoundException('Booking not found');
     }
 
-    if (booking.status === 'CANCELLED') {
-      throw new BadRequestException('Booking is already cancelled');
-    }
+    const updatedBooking = await this.changeStatus(
+      booking,
+      OrderStatus.CANCELLED,
+      adminId,
+      reason,
+    );
 
-    if (booking.status === 'COMPLETED') {
-      throw new BadRequestException('Cannot cancel a completed booking');
-    }
+    return {
+      success: true,
+      message: 'Booking cancelled successfully',
+      data: updatedBooking,
+    };
+  }
 
-    const updatedBooking = await this.prisma.order.update({
-      where: { id },
-      data: { status: 'CANCELLED', slot: null },
-      include: {
-        driver: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+  /**
+   * Apply an admin status change through the booking state machine.
+   * Rejected or cancelled bookings give back their slot and are refunded
+   * like the driver and garage paths.
+   */
+  private async changeStatus(
+    booking: {
+      id: string;
+      status: OrderStatus;
+      payment_status: PaymentStatus | null;
+      garage_id: string | null;
+      slot_id: string | null;
+      parent_order_id: string | null;
+      items: { service: { type: ServiceType } | null }[];
+    },
+    status: OrderStatus,
+    adminId: string,
+    reason?: string,
+  ) {
+    this.bookingStatusService.assertTransition(
+      booking.status,
+      status,
+      OrderStatusActor.ADMIN,
+    );
+    this.bookingStatusService.assertPaymentSettled(
+      booking.payment_status,
+      status,
+    );
+
+    const releasesSlot =
+      status === OrderStatus.REJECTED || status === OrderStatus.CANCELLED;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Only from the status checked above; the driver or garage may have moved it on
+      const { count } = await tx.order.updateMany({
+        where: { id: booking.id, status: booking.status },
+        data: this.garageBookingService.statusChangeData(status, booking.items),
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'This booking was updated in the meantime. Please refresh and try again.',
+        );
+      }
+
+      if (releasesSlot) {
+        await this.garageBookingService.releaseBooking(tx, booking);
+      }
+
+      await this.bookingStatusService.recordTransition(tx, {
+        order_id: booking.id,
+        from_status: booking.status,
+        to_status: status,
+        actor: OrderStatusActor.ADMIN,
+        changed_by_id: adminId,
+        reason,
+      });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id: booking.id },
+        include: {
+          driver: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
-        },
-        garage: {
-          select: {
-            id: true,
-            garage_name: true,
-            email: true,
+          garage: {
+            select: {
+              id: true,
+              garage_name: true,
+              email: true,
+            },
           },
         },
-      },
-    });
-    await this.prisma.timeSlot.update({
-      where: { id: booking.slot_id },
-      data: {
-        order: null,
-        is_available: true,
-      },
+      });
     });
 
+    if (releasesSlot) {
+      await this.garageBookingService.afterBookingReleased(
+        booking,
+        reason ||
+          (status === OrderStatus.REJECTED
+            ? 'Booking rejected by an admin'
+            : 'Booking cancelled by an admin'),
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Get booking policy settings (numeric Setting rows plus policy text)
+   */
+  async getBookingSettings() {
+    const [settings, websiteInfo] = await Promise.all([
+      this.prisma.setting.findMany({
+        where: {
+          key: { in: Object.values(BOOKING_SETTINGS).map((s) => s.key) },
+        },
+      }),
+      this.prisma.websiteInfo.findFirst({
+        select: { cancellation_policy: true },
+      }),
+    ]);
+
+    const data: Record<string, number | string | null> = {};
+    for (const [field, definition] of Object.entries(BOOKING_SETTINGS)) {
+      const setting = settings.find((s) => s.key === definition.key);
+      data[field] = SettingHelper.toNumber(
+        setting?.default_value,
+        definition.default,
+      );
+    }
+    data.cancellationPolicy = websiteInfo?.cancellation_policy || null;
+
     return {
       success: true,
-      message: 'Booking cancelled successfully',
-      data: updatedBooking,
+      data,
+    };
+  }
+
+  /**
+   * Update booking policy settings (only the provided fields are changed)
+   */
+  async updateBookingSettings(dto: UpdateBookingSettingsDto) {
+    const upserts = Object.entries(BOOKING_SETTINGS)
+      .filter(([field]) => dto[field] !== undefined)
+      .map(([field, definition]) =>
+        this.prisma.setting.upsert({
+          where: { key: definition.key },
+          update: { default_value: String(dto[field]) },
+          create: {
+            key: definition.key,
+            category: 'BOOKING',
+            label: definition.label,
+            default_value: String(dto[field]),
+          },
+        }),
+      );
+
+    if (upserts.length > 0) {
+      await this.prisma.$transaction(upserts);
+    }
+
+    if (dto.cancellationPolicy !== undefined) {
+      const websiteInfo = await this.prisma.websiteInfo.findFirst();
+      if (websiteInfo) {
+        await this.prisma.websiteInfo.update({
+          where: { id: websiteInfo.id },
+          data: { cancellation_policy: dto.cancellationPolicy },
+        });
+      } else {
+        await this.prisma.websiteInfo.create({
+          data: { cancellation_policy: dto.cancellationPolicy },
+        });
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Booking settings updated successfully',
     };
   }
 }
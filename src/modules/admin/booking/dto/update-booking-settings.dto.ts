@@ -0,0 +1,121 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateBookingSettingsDto {
+  @ApiProperty({
+    description:
+      'Minimum number of hours before the appointment that a driver can still cancel',
+    example: 24,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  @IsOptional()
+  cancellationCutoffHours?: number;
+
+  @ApiProperty({
+    description:
+      'How long a slot proposed in a driver reschedule request is held for the garage to respond (hours)',
+    example: 24,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  @IsOptional()
+  rescheduleHoldHours?: number;
+
+  @ApiProperty({
+    description:
+      'How long a slot selected by a driver is held for them while they check out (minutes)',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  @IsOptional()
+  slotHoldMinutes?: number;
+
+  @ApiProperty({
+    description:
+      'How long a slot freed for a waitlisted driver is held for them to claim (minutes)',
+    example: 30,
+    required: false,
+  })
+  @IsInt()
+  @Min(5)
+  @Max(1440)
+  @IsOptional()
+  waitlistClaimMinutes?: number;
+
+  @ApiProperty({
+    description: 'Deposit taken when a driver chooses to pay a deposit (%)',
+    example: 20,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  depositPercent?: number;
+
+  @ApiProperty({
+    description:
+      'How long a booking slot is held while an online payment is pending (minutes)',
+    example: 15,
+    required: false,
+  })
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  @IsOptional()
+  paymentTimeoutMinutes?: number;
+
+  @ApiProperty({
+    description:
+      'Platform fee withheld from booking revenue transferred to garages (%)',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  platformFeePercent?: number;
+
+  @ApiProperty({
+    description:
+      'Number of no-shows after which a driver must pay online when booking (0 disables the rule)',
+    example: 2,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  @IsOptional()
+  noShowPrepaymentThreshold?: number;
+
+  @ApiProperty({
+    description:
+      'Number of no-shows after which a driver can no longer book (0 disables the rule)',
+    example: 0,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  @IsOptional()
+  noShowBlockThreshold?: number;
+
+  @ApiProperty({
+    description: 'Cancellation policy text shown to drivers',
+    example:
+      'Bookings can be cancelled free of charge up to 24 hours before the appointment.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cancellationPolicy?: string;
+}
@@ -4,6 +4,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SettingHelper } from 'src/common/helper/setting.helper';
 import { MailService } from 'src/mail/mail.service';
 
 @Injectable()
@@ -52,6 +53,7 @@ export class DriverService {
           status: true,
           created_at: true,
           approved_at: true,
+          no_show_count: true,
         },
         skip,
         take: limit,
@@ -92,6 +94,7 @@ export class DriverService {
         zip_code: true,
         date_of_birth: true,
         gender: true,
+        no_show_count: true,
         vehicles: {
           select: {
             id: true,
@@ -109,9 +112,24 @@ export class DriverService {
       throw new NotFoundException('Driver not found');
     }
 
+    const [blockThreshold, prepaymentThreshold] = await Promise.all([
+      SettingHelper.getNumber(this.prisma, 'NO_SHOW_BLOCK_THRESHOLD', 0),
+      SettingHelper.getNumber(this.prisma, 'NO_SHOW_PREPAYMENT_THRESHOLD', 2),
+    ]);
+
     return {
       success: true,
-      data: driver,
+      data: {
+        ...driver,
+        reliability: {
+          no_show_count: driver.no_show_count,
+          requires_prepayment:
+            prepaymentThreshold > 0 &&
+            driver.no_show_count >= prepaymentThreshold,
+          booking_blocked:
+            blockThreshold > 0 && driver.no_show_count >= blockThreshold,
+        },
+      },
     };
   }
 
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class RefundPaymentTransactionDto {
+  @ApiProperty({
+    required: false,
+    description:
+      'Amount to refund. Leave empty to refund the whole remaining payment',
+    example: 10.5,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Reason for the refund (shown to the driver)',
+    example: 'Garage closed unexpectedly',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -1,4 +1,13 @@
-import { Controller, Get, Param, Delete, UseGuards, Req } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  Delete,
+  UseGuards,
+  Req,
+  Post,
+  Body,
+} from '@nestjs/common';
 import { PaymentTransactionService } from './payment-transaction.service';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { RolesGuard } from '../../../common/guard/role/roles.guard';
@@ -9,6 +18,7 @@ import { Request } from 'express';
 import { AbilitiesGuard } from '../../../ability/abilities.guard';
 import { CheckAbilities } from '../../../ability/abilities.decorator';
 import { Action } from '../../../ability/ability.factory';
+import { RefundPaymentTransactionDto } from './dto/refund-payment-transaction.dto';
 
 @ApiBearerAuth()
 @ApiTags('Payment transaction')
@@ -60,6 +70,25 @@ export class PaymentTransactionController {
     }
   }
 
+  @ApiOperation({ summary: 'Refund a booking payment (full or partial)' })
+  @Post(':id/refund')
+  @CheckAbilities({ action: Action.Refund, subject: 'Payment' })
+  async refund(
+    @Param('id') id: string,
+    @Body() refundDto: RefundPaymentTransactionDto,
+  ) {
+    try {
+      const refund = await this.paymentTransactionService.refund(id, refundDto);
+
+      return refund;
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
   @Delete(':id')
   @CheckAbilities({ action: Action.Delete, subject: 'Payment' })
   async remove(@Req() req: Request, @Param('id') id: string) {
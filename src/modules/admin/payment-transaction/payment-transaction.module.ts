@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { PaymentTransactionService } from './payment-transaction.service';
 import { PaymentTransactionController } from './payment-transaction.controller';
+import { BookingPaymentModule } from '../../application/booking-payment/booking-payment.module';
 
 @Module({
+  imports: [BookingPaymentModule],
   controllers: [PaymentTransactionController],
   providers: [PaymentTransactionService],
 })
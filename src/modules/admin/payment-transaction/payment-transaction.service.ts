@@ -1,10 +1,16 @@
 import { Injectable } from '@nestjs/common';
+import { PaymentStatus, PaymentType } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { UserRepository } from '../../../common/repository/user/user.repository';
+import { BookingPaymentService } from '../../application/booking-payment/booking-payment.service';
+import { RefundPaymentTransactionDto } from './dto/refund-payment-transaction.dto';
 
 @Injectable()
 export class PaymentTransactionService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private bookingPaymentService: BookingPaymentService,
+  ) {}
 
   async findAll(user_id?: string) {
     try {
@@ -22,7 +28,9 @@ export class PaymentTransactionService {
           },
           select: {
             id: true,
+            order_id: true,
             reference_number: true,
+            type: true,
             status: true,
             provider: true,
             amount: true,
@@ -64,7 +72,9 @@ export class PaymentTransactionService {
           },
           select: {
             id: true,
+            order_id: true,
             reference_number: true,
+            type: true,
             status: true,
             provider: true,
             amount: true,
@@ -95,6 +105,54 @@ export class PaymentTransactionService {
     }
   }
 
+  async refund(id: string, refundDto: RefundPaymentTransactionDto) {
+    try {
+      const paymentTransaction =
+        await this.prisma.paymentTransaction.findUnique({
+          where: {
+            id: id,
+          },
+        });
+
+      if (!paymentTransaction) {
+        return {
+          success: false,
+          message: 'Payment transaction not found',
+        };
+      }
+
+      if (
+        paymentTransaction.type !== PaymentType.ORDER ||
+        paymentTransaction.status !== PaymentStatus.PAID ||
+        !paymentTransaction.order_id
+      ) {
+        return {
+          success: false,
+          message: 'Only paid booking payments can be refunded',
+        };
+      }
+
+      const refund = await this.bookingPaymentService.refundPayment(
+        paymentTransaction.order_id,
+        {
+          amount: refundDto.amount,
+          reason: refundDto.reason,
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Refund issued successfully',
+        data: refund,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
   async remove(id: string, user_id?: string) {
     try {
       const userDetails = await UserRepository.getUserDetails(user_id);
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ReviewStatus } from '@prisma/client';
+
+export class ModerateReviewDto {
+  @ApiProperty({
+    enum: ReviewStatus,
+    example: ReviewStatus.HIDDEN,
+    description: 'Hidden reviews are excluded from garage ratings',
+  })
+  @IsEnum(ReviewStatus)
+  status: ReviewStatus;
+
+  @ApiProperty({
+    required: false,
+    example: 'Contains personal information',
+    description: 'Internal note explaining the moderation decision',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  moderation_note?: string;
+}
@@ -0,0 +1,27 @@
+import { Transform } from 'class-transformer';
+import { IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import { ReviewStatus } from '@prisma/client';
+
+export class GetReviewsQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => (value ? Number(value) : 1))
+  @IsNumber()
+  page: number = 1;
+
+  @IsOptional()
+  @Transform(({ value }) => (value ? Number(value) : 10))
+  @IsNumber()
+  limit: number = 10;
+
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus;
+
+  @IsOptional()
+  @IsString()
+  garage_id?: string;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/common/guard/role/roles.guard';
+import { AbilitiesGuard } from 'src/ability/abilities.guard';
+import { Roles } from 'src/common/guard/role/roles.decorator';
+import { Role } from 'src/common/guard/role/role.enum';
+import { CheckAbilities } from 'src/ability/abilities.decorator';
+import { Action } from 'src/ability/ability.factory';
+import { ReviewsService } from './reviews.service';
+import { GetReviewsQueryDto } from './dto/query-review.dto';
+import { ModerateReviewDto } from './dto/moderate-review.dto';
+
+@ApiTags('Admin Review Management')
+@Controller('admin/reviews')
+@UseGuards(JwtAuthGuard, RolesGuard, AbilitiesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth()
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @ApiOperation({ summary: 'Get all garage reviews' })
+  @Get()
+  @CheckAbilities({ action: Action.Read, subject: 'Review' })
+  async getReviews(@Query() query: GetReviewsQueryDto) {
+    return this.reviewsService.getReviews(query);
+  }
+
+  @ApiOperation({ summary: 'Get review by ID' })
+  @Get(':id')
+  @CheckAbilities({ action: Action.Show, subject: 'Review' })
+  async getReview(@Param('id') id: string) {
+    return this.reviewsService.getReview(id);
+  }
+
+  @ApiOperation({ summary: 'Publish or hide a review' })
+  @Patch(':id/moderate')
+  @CheckAbilities({ action: Action.Update, subject: 'Review' })
+  async moderateReview(
+    @Param('id') id: string,
+    @Body() dto: ModerateReviewDto,
+  ) {
+    return this.reviewsService.moderateReview(id, dto);
+  }
+
+  @ApiOperation({ summary: 'Delete a review' })
+  @Delete(':id')
+  @CheckAbilities({ action: Action.Delete, subject: 'Review' })
+  async deleteReview(@Param('id') id: string) {
+    return this.reviewsService.deleteReview(id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsService } from './reviews.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { AbilityModule } from 'src/ability/ability.module';
+
+@Module({
+  imports: [PrismaModule, AbilityModule],
+  controllers: [ReviewsController],
+  providers: [ReviewsService],
+})
+export class ReviewsModule {}
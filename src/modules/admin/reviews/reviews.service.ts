@@ -0,0 +1,145 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GetReviewsQueryDto } from './dto/query-review.dto';
+import { ModerateReviewDto } from './dto/moderate-review.dto';
+
+const REVIEW_SELECT = {
+  id: true,
+  order_id: true,
+  rating: true,
+  comment: true,
+  reply: true,
+  replied_at: true,
+  status: true,
+  moderation_note: true,
+  moderated_at: true,
+  created_at: true,
+  driver: { select: { id: true, name: true, email: true } },
+  garage: { select: { id: true, garage_name: true, email: true } },
+} satisfies Prisma.ReviewSelect;
+
+@Injectable()
+export class ReviewsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getReviews(query: GetReviewsQueryDto) {
+    const { page = 1, limit = 10, status, garage_id, search } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReviewWhereInput = {
+      ...(status && { status }),
+      ...(garage_id && { garage_id }),
+    };
+
+    if (search && search.trim() !== '') {
+      where.OR = [
+        { comment: { contains: search, mode: 'insensitive' } },
+        { reply: { contains: search, mode: 'insensitive' } },
+        { driver: { name: { contains: search, mode: 'insensitive' } } },
+        { garage: { garage_name: { contains: search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+        select: REVIEW_SELECT,
+      }),
+      this.prisma.review.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      message: 'Reviews retrieved successfully',
+      data: {
+        reviews,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  async getReview(id: string) {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+      select: {
+        ...REVIEW_SELECT,
+        order: {
+          select: {
+            id: true,
+            order_date: true,
+            status: true,
+            vehicle: { select: { registration_number: true } },
+          },
+        },
+      },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return {
+      success: true,
+      message: 'Review retrieved successfully',
+      data: review,
+    };
+  }
+
+  /**
+   * Publish or hide a review; hidden reviews no longer count towards the garage rating
+   */
+  async moderateReview(id: string, dto: ModerateReviewDto) {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const updated = await this.prisma.review.update({
+      where: { id },
+      data: {
+        status: dto.status,
+        moderation_note: dto.moderation_note ?? null,
+        moderated_at: new Date(),
+        updated_at: new Date(),
+      },
+      select: REVIEW_SELECT,
+    });
+
+    return {
+      success: true,
+      message: 'Review moderated successfully',
+      data: updated,
+    };
+  }
+
+  async deleteReview(id: string) {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    await this.prisma.review.delete({ where: { id } });
+
+    return {
+      success: true,
+      message: 'Review deleted successfully',
+    };
+  }
+}
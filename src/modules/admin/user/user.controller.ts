@@ -297,6 +297,7 @@ export class UserController {
                 can_manage_bookings: { type: 'boolean' },
                 can_manage_subscriptions: { type: 'boolean' },
                 can_manage_payments: { type: 'boolean' },
+                can_manage_reviews: { type: 'boolean' },
                 can_manage_roles: { type: 'boolean' },
                 can_manage_users: { type: 'boolean' },
                 can_view_analytics: { type: 'boolean' },
@@ -606,6 +606,9 @@ export class UserService {
           can_manage_payments: userPermissions.some(
             (p) => p.subject === 'Payment',
           ),
+          can_manage_reviews: userPermissions.some(
+            (p) => p.subject === 'Review',
+          ),
           can_manage_roles: userPermissions.some((p) => p.subject === 'Role'),
           can_manage_users: userPermissions.some((p) => p.subject === 'User'),
           can_view_analytics: userPermissions.some(
@@ -20,13 +20,18 @@ import { Action } from 'src/ability/ability.factory';
 import { VehicleService } from './vehicle.service';
 import { GetAllQueryDto } from './dto/query-vehicle.dto';
 import { UpdateMotReminderSettingsDto } from './dto/update-mot-reminder.dto';
+import { VehicleTransferService } from 'src/modules/application/vehicle-transfer/vehicle-transfer.service';
+import { ResolveVehicleTransferDto } from 'src/modules/application/vehicle-transfer/dto/resolve-vehicle-transfer.dto';
 @ApiTags('Admin Vehicle Management')
 @Controller('admin/vehicle')
 @UseGuards(JwtAuthGuard, RolesGuard, AbilitiesGuard)
 @Roles(Role.ADMIN)
 @ApiBearerAuth()
 export class VehicleController {
-  constructor(private readonly vehicleService: VehicleService) {}
+  constructor(
+    private readonly vehicleService: VehicleService,
+    private readonly vehicleTransferService: VehicleTransferService,
+  ) {}
 
   @ApiOperation({ summary: 'Get all vehicles (admin view)' })
   @Get()
@@ -53,6 +58,36 @@ export class VehicleController {
     );
   }
 
+  @ApiOperation({
+    summary:
+      'DVLA/DVSA API call counts, failure rates and circuit breaker state (Admin only)',
+  })
+  @Get('data-provider-metrics')
+  async getVehicleDataMetrics() {
+    return this.vehicleService.getVehicleDataMetrics();
+  }
+
+  @ApiOperation({ summary: 'Get disputed vehicle ownership transfers' })
+  @Get('transfers')
+  @CheckAbilities({ action: Action.Read, subject: 'Driver' })
+  async getDisputedTransfers() {
+    return this.vehicleTransferService.getDisputedTransfers();
+  }
+
+  @ApiOperation({
+    summary: 'Resolve a disputed vehicle ownership transfer',
+    description:
+      'Approving moves the vehicle and its MOT history to the claimant; rejecting leaves it with the current owner.',
+  })
+  @Patch('transfers/:id')
+  @CheckAbilities({ action: Action.Update, subject: 'Driver' })
+  async resolveTransfer(
+    @Param('id') id: string,
+    @Body() dto: ResolveVehicleTransferDto,
+  ) {
+    return this.vehicleTransferService.resolveDispute(id, dto);
+  }
+
   @ApiOperation({ summary: 'Delete a vehicle' })
   @Delete(':id')
   @CheckAbilities({ action: Action.Delete, subject: 'Driver' })
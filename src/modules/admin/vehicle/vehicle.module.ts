@@ -3,9 +3,16 @@ import { VehicleController } from './vehicle.controller';
 import { VehicleService } from './vehicle.service';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { AbilityModule } from 'src/ability/ability.module';
+import { VehicleDataModule } from 'src/common/lib/DVLA/vehicle-data.module';
+import { VehicleTransferModule } from 'src/modules/application/vehicle-transfer/vehicle-transfer.module';
 
 @Module({
-  imports: [PrismaModule, AbilityModule],
+  imports: [
+    PrismaModule,
+    AbilityModule,
+    VehicleDataModule,
+    VehicleTransferModule,
+  ],
   controllers: [VehicleController],
   providers: [VehicleService],
 })
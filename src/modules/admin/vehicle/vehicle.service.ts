@@ -4,10 +4,14 @@ import { VehicleExpiryStatus } from './dto/query-vehicle.dto';
 import { Prisma } from '@prisma/client';
 import { UpdateMotReminderSettingsDto } from './dto/update-mot-reminder.dto';
 import { Logger } from '@nestjs/common';
+import { VehicleDataMetricsService } from 'src/common/lib/DVLA/vehicle-data-metrics.service';
 
 @Injectable()
 export class VehicleService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vehicleDataMetrics: VehicleDataMetricsService,
+  ) {}
 
   async getVehicles(
     page: number,
@@ -49,6 +53,11 @@ export class VehicleService {
 
         // Vehicle (string only)
         { registration_number: searchFilter },
+        {
+          previous_registrations: {
+            some: { registration_number: searchFilter },
+          },
+        },
         { make: searchFilter },
         { model: searchFilter },
         { color: searchFilter },
@@ -174,6 +183,17 @@ export class VehicleService {
 
   private readonly logger = new Logger(VehicleService.name);
 
+  /**
+   * DVLA/DVSA call counts, failure rates and circuit state of this server
+   */
+  getVehicleDataMetrics() {
+    return {
+      success: true,
+      message: 'Vehicle data API metrics fetched successfully',
+      data: this.vehicleDataMetrics.snapshot(),
+    };
+  }
+
   /**
    * Get MOT reminder settings from the database
    */
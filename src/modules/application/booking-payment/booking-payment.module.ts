@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
+import { BookingStatusModule } from '../booking-status/booking-status.module';
+import { SlotAvailabilityCacheModule } from '../slot-availability/slot-availability-cache.module';
+import { BookingPaymentService } from './booking-payment.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationModule,
+    BookingStatusModule,
+    SlotAvailabilityCacheModule,
+  ],
+  providers: [BookingPaymentService],
+  exports: [BookingPaymentService],
+})
+export class BookingPaymentModule {}
@@ -0,0 +1,352 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  OrderPaymentMode,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  PaymentType,
+} from '@prisma/client';
+import { StripePayment } from 'src/common/lib/Payment/stripe/StripePayment';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BookingStatusService } from '../booking-status/booking-status.service';
+import { NotificationService } from '../notification/notification.service';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+import { BookingPaymentService } from './booking-payment.service';
+
+// The real Stripe client needs an API key
+jest.mock('src/common/lib/Payment/stripe/StripePayment', () => ({
+  StripePayment: {
+    createPaymentIntent: jest.fn(),
+    cancelPaymentIntent: jest.fn(),
+    createRefund: jest.fn(),
+    createTransferReversal: jest.fn(),
+  },
+}));
+
+describe('BookingPaymentService', () => {
+  const stripe = jest.mocked(StripePayment);
+
+  const paidOrder = {
+    id: 'order-1',
+    driver_id: 'driver-1',
+    garage_id: 'garage-1',
+    paid_amount: 50,
+    refunded_amount: null,
+    garage: { garage_name: 'Test Garage' },
+    payment_transactions: [
+      { reference_number: 'pi_1', paid_amount: 50, status: 'PAID' },
+    ],
+  };
+
+  const unpaidOrder = {
+    id: 'order-2',
+    status: OrderStatus.PENDING,
+    payment_status: PaymentStatus.PENDING,
+    driver_id: 'driver-1',
+    garage_id: 'garage-1',
+    slot_id: 'slot-1',
+    parent_order_id: null,
+    total_amount: 80,
+    driver: { id: 'driver-1', billing_id: 'cus_1' },
+    garage: { garage_name: 'Test Garage' },
+  };
+
+  const tx = {
+    order: { updateMany: jest.fn() },
+    paymentTransaction: { create: jest.fn(), updateMany: jest.fn() },
+    timeSlot: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn(
+      (operations: ((client: typeof tx) => unknown) | Promise<unknown>[]) =>
+        typeof operations === 'function'
+          ? operations(tx)
+          : Promise.all(operations),
+    ),
+    setting: { findUnique: jest.fn() },
+    order: { findUnique: jest.fn(), update: jest.fn() },
+    paymentTransaction: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  };
+  const notificationService = { create: jest.fn() };
+  const bookingStatusService = {
+    canTransition: jest.fn(),
+    recordTransition: jest.fn(),
+  };
+  const availabilityCache = { invalidateGarage: jest.fn() };
+
+  let service: BookingPaymentService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    prisma.order.findUnique.mockResolvedValue(paidOrder);
+    prisma.order.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...paidOrder, ...data }),
+    );
+    prisma.paymentTransaction.findMany.mockResolvedValue([]);
+    prisma.paymentTransaction.findFirst.mockResolvedValue(null);
+    tx.order.updateMany.mockResolvedValue({ count: 1 });
+    tx.paymentTransaction.create.mockResolvedValue({ id: 'refund-row-1' });
+    stripe.createRefund.mockResolvedValue({
+      id: 're_1',
+      status: 'succeeded',
+      currency: 'gbp',
+    } as Awaited<ReturnType<typeof StripePayment.createRefund>>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingPaymentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: BookingStatusService, useValue: bookingStatusService },
+        { provide: SlotAvailabilityCacheService, useValue: availabilityCache },
+      ],
+    }).compile();
+
+    service = module.get(BookingPaymentService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('initiatePayment', () => {
+    it('charges the configured deposit and holds the booking until the payment timeout', async () => {
+      jest.useFakeTimers({
+        now: new Date('2026-11-01T12:00:00.000Z'),
+        doNotFake: ['nextTick', 'setImmediate'],
+      });
+      prisma.order.findUnique.mockResolvedValue(unpaidOrder);
+      prisma.setting.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve({
+          default_value: where.key === 'BOOKING_DEPOSIT_PERCENT' ? '25' : '30',
+        }),
+      );
+      stripe.createPaymentIntent.mockResolvedValue({
+        id: 'pi_2',
+        client_secret: 'secret',
+        status: 'requires_payment_method',
+      } as Awaited<ReturnType<typeof StripePayment.createPaymentIntent>>);
+
+      const result = await service.initiatePayment(
+        'order-2',
+        OrderPaymentMode.DEPOSIT,
+      );
+
+      const expiresAt = new Date('2026-11-01T12:30:00.000Z');
+      expect(stripe.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 20, customer_id: 'cus_1' }),
+      );
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-2' },
+        data: {
+          payment_mode: OrderPaymentMode.DEPOSIT,
+          payment_status: PaymentStatus.PENDING,
+          amount_due: 20,
+          payment_expires_at: expiresAt,
+        },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          payment_intent_id: 'pi_2',
+          amount: 20,
+          expires_at: expiresAt,
+        }),
+      );
+    });
+
+    it('refuses pay-at-garage bookings', async () => {
+      await expect(
+        service.initiatePayment('order-2', OrderPaymentMode.PAY_AT_GARAGE),
+      ).rejects.toThrow(BadRequestException);
+      expect(stripe.createPaymentIntent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markPaymentFailed', () => {
+    const failedIntent = {
+      id: 'pi_2',
+      status: 'requires_payment_method',
+      metadata: { order_id: 'order-2' },
+    };
+
+    beforeEach(() => {
+      prisma.order.findUnique.mockResolvedValue(unpaidOrder);
+      stripe.cancelPaymentIntent.mockResolvedValue(
+        {} as Awaited<ReturnType<typeof StripePayment.cancelPaymentIntent>>,
+      );
+      bookingStatusService.canTransition.mockReturnValue(true);
+      tx.timeSlot.findUnique.mockResolvedValue({ base_end_datetime: null });
+    });
+
+    it('cancels the intent, then releases the booking and its slot', async () => {
+      await service.markPaymentFailed(failedIntent);
+
+      expect(stripe.cancelPaymentIntent).toHaveBeenCalledWith('pi_2');
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-2', status: OrderStatus.PENDING },
+        data: expect.objectContaining({
+          status: OrderStatus.CANCELLED,
+          payment_status: PaymentStatus.FAILED,
+          slot_id: null,
+        }),
+      });
+      expect(tx.timeSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot-1' },
+        data: { order_id: null, is_available: true },
+      });
+      expect(bookingStatusService.recordTransition).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({
+          to_status: OrderStatus.CANCELLED,
+          actor: OrderStatusActor.SYSTEM,
+        }),
+      );
+      expect(availabilityCache.invalidateGarage).toHaveBeenCalledWith(
+        'garage-1',
+      );
+      expect(notificationService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ receiver_id: 'driver-1' }),
+      );
+    });
+
+    it('keeps the booking when the intent can no longer be cancelled', async () => {
+      stripe.cancelPaymentIntent.mockRejectedValue(
+        new Error('already succeeded'),
+      );
+
+      await service.markPaymentFailed(failedIntent);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves a booking the garage changed meanwhile alone', async () => {
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.markPaymentFailed(failedIntent);
+
+      expect(stripe.cancelPaymentIntent).toHaveBeenCalledWith('pi_2');
+      expect(tx.timeSlot.update).not.toHaveBeenCalled();
+      expect(bookingStatusService.recordTransition).not.toHaveBeenCalled();
+      expect(availabilityCache.invalidateGarage).not.toHaveBeenCalled();
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPayment', () => {
+    it('reserves the refund before asking Stripe, keyed by the reserved row', async () => {
+      const result = await service.refundPayment('order-1', { amount: 20 });
+
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', refunded_amount: null },
+        data: { refunded_amount: 20 },
+      });
+      expect(tx.paymentTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: PaymentType.REFUND,
+          status: PaymentStatus.PENDING,
+          amount: 20,
+        }),
+      });
+      expect(stripe.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_intent_id: 'pi_1',
+          amount: 20,
+          idempotency_key: 'refund-refund-row-1',
+        }),
+      );
+      expect(
+        tx.paymentTransaction.create.mock.invocationCallOrder[0],
+      ).toBeLessThan(stripe.createRefund.mock.invocationCallOrder[0]);
+      expect(prisma.paymentTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'refund-row-1' },
+        data: {
+          status: PaymentStatus.REFUNDED,
+          reference_number: 're_1',
+          raw_status: 'succeeded',
+          currency: 'gbp',
+        },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ refund_id: 're_1', amount: 20 }),
+      );
+    });
+
+    it('refuses when another refund changed the refunded total meanwhile', async () => {
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.refundPayment('order-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(tx.paymentTransaction.create).not.toHaveBeenCalled();
+      expect(stripe.createRefund).not.toHaveBeenCalled();
+    });
+
+    it('gives the reserved amount back when Stripe rejects the refund', async () => {
+      stripe.createRefund.mockRejectedValue(new Error('charge disputed'));
+
+      await expect(service.refundPayment('order-1')).rejects.toThrow(
+        'charge disputed',
+      );
+      expect(prisma.paymentTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'refund-row-1' },
+        data: { status: PaymentStatus.FAILED, raw_status: 'charge disputed' },
+      });
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: { refunded_amount: 0, payment_status: PaymentStatus.PAID },
+      });
+    });
+
+    it("takes the garage's share back when the booking was already paid out", async () => {
+      prisma.paymentTransaction.findFirst.mockResolvedValue({
+        reference_number: 'tr_1',
+        amount: 36,
+        platform_fee: 4,
+      });
+      prisma.paymentTransaction.aggregate.mockResolvedValue({
+        _sum: { amount: null },
+      });
+      stripe.createTransferReversal.mockResolvedValue({
+        id: 'trr_1',
+        currency: 'gbp',
+      } as Awaited<ReturnType<typeof StripePayment.createTransferReversal>>);
+
+      await service.refundPayment('order-1', { amount: 20 });
+
+      expect(stripe.createTransferReversal).toHaveBeenCalledWith(
+        'tr_1',
+        18,
+        expect.objectContaining({ order_id: 'order-1', refund_id: 're_1' }),
+        'payout-reversal-re_1',
+      );
+      expect(prisma.paymentTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: PaymentType.PAYOUT_REVERSAL,
+          status: PaymentStatus.PAID,
+          reference_number: 'trr_1',
+          amount: 18,
+        }),
+      });
+    });
+
+    it('rejects more than the amount still refundable', async () => {
+      prisma.order.findUnique.mockResolvedValue({
+        ...paidOrder,
+        refunded_amount: 40,
+      });
+
+      await expect(
+        service.refundPayment('order-1', { amount: 20 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
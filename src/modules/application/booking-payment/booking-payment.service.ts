@@ -0,0 +1,722 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  OrderPaymentMode,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  PaymentType,
+  RetestOfferStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SettingHelper } from 'src/common/helper/setting.helper';
+import { TimeSlotHelper } from 'src/common/helper/time-slot.helper';
+import { StripePayment } from 'src/common/lib/Payment/stripe/StripePayment';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from 'src/common/repository/notification/notification.repository';
+import { BookingStatusService } from '../booking-status/booking-status.service';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+
+const BOOKING_CURRENCY = 'gbp';
+
+@Injectable()
+export class BookingPaymentService {
+  private readonly logger = new Logger(BookingPaymentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly bookingStatusService: BookingStatusService,
+    private readonly availabilityCache: SlotAvailabilityCacheService,
+  ) {}
+
+  /**
+   * Start an online payment (full amount or deposit) for a freshly created booking.
+   * The booking keeps its slot until the payment succeeds, fails or times out.
+   */
+  async initiatePayment(orderId: string, mode: OrderPaymentMode) {
+    if (mode === OrderPaymentMode.PAY_AT_GARAGE) {
+      throw new BadRequestException('Online payment mode is required');
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { driver: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    const total = Number(order.total_amount || 0);
+    if (total <= 0) {
+      throw new BadRequestException('This booking has no amount to pay online');
+    }
+
+    const [depositPercent, timeoutMinutes] = await Promise.all([
+      SettingHelper.getNumber(this.prisma, 'BOOKING_DEPOSIT_PERCENT', 20),
+      SettingHelper.getNumber(
+        this.prisma,
+        'BOOKING_PAYMENT_TIMEOUT_MINUTES',
+        15,
+      ),
+    ]);
+
+    const amountDue =
+      mode === OrderPaymentMode.DEPOSIT
+        ? Math.round(total * depositPercent) / 100
+        : total;
+
+    const customerId = await this.getOrCreateCustomer(order.driver);
+
+    const paymentIntent = await StripePayment.createPaymentIntent({
+      amount: amountDue,
+      currency: BOOKING_CURRENCY,
+      customer_id: customerId,
+      metadata: {
+        type: PaymentType.ORDER,
+        order_id: order.id,
+        driver_id: order.driver_id,
+        garage_id: order.garage_id,
+        payment_mode: mode,
+      },
+    });
+
+    const expiresAt = new Date(Date.now() + timeoutMinutes * 60 * 1000);
+
+    await this.prisma.$transaction([
+      this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          payment_mode: mode,
+          payment_status: PaymentStatus.PENDING,
+          amount_due: amountDue,
+          payment_expires_at: expiresAt,
+        },
+      }),
+      this.prisma.paymentTransaction.create({
+        data: {
+          user_id: order.driver_id,
+          order_id: order.id,
+          garage_id: order.garage_id,
+          type: PaymentType.ORDER,
+          status: PaymentStatus.PENDING,
+          provider: 'stripe',
+          reference_number: paymentIntent.id,
+          raw_status: paymentIntent.status,
+          amount: amountDue,
+          currency: BOOKING_CURRENCY,
+        },
+      }),
+    ]);
+
+    return {
+      payment_intent_id: paymentIntent.id,
+      client_secret: paymentIntent.client_secret,
+      payment_mode: mode,
+      amount: amountDue,
+      currency: BOOKING_CURRENCY,
+      expires_at: expiresAt,
+    };
+  }
+
+  /**
+   * Record a successful booking payment (payment_intent.succeeded).
+   * Returns the order when it is newly confirmed, or null if there is nothing to confirm.
+   */
+  async markPaymentSucceeded(paymentIntent: {
+    id: string;
+    amount: number;
+    amount_received?: number;
+    currency: string;
+    status: string;
+    metadata?: Record<string, string>;
+  }) {
+    const order = await this.findOrderForPaymentIntent(paymentIntent);
+    if (!order || order.payment_status === PaymentStatus.PAID) {
+      return null;
+    }
+
+    const paidAmount =
+      (paymentIntent.amount_received ?? paymentIntent.amount) / 100;
+
+    await this.prisma.$transaction([
+      this.prisma.paymentTransaction.updateMany({
+        where: { reference_number: paymentIntent.id },
+        data: {
+          status: PaymentStatus.PAID,
+          paid_amount: paidAmount,
+          paid_currency: paymentIntent.currency,
+          raw_status: paymentIntent.status,
+        },
+      }),
+      this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          payment_status: PaymentStatus.PAID,
+          paid_amount: paidAmount,
+          payment_expires_at: null,
+        },
+      }),
+    ]);
+
+    if (order.status === OrderStatus.CANCELLED) {
+      // Payment arrived after the slot was released
+      this.logger.warn(
+        `Payment ${paymentIntent.id} succeeded for already cancelled booking ${order.id}`,
+      );
+      await this.refundIfPaid(
+        order.id,
+        'Payment received after the booking was released',
+      );
+      return null;
+    }
+
+    return order;
+  }
+
+  /**
+   * Handle a failed booking payment (payment_intent.payment_failed)
+   */
+  async markPaymentFailed(paymentIntent: {
+    id: string;
+    status: string;
+    metadata?: Record<string, string>;
+  }) {
+    const order = await this.findOrderForPaymentIntent(paymentIntent);
+    if (!order || order.payment_status !== PaymentStatus.PENDING) {
+      return;
+    }
+
+    await this.prisma.paymentTransaction.updateMany({
+      where: { reference_number: paymentIntent.id },
+      data: { raw_status: paymentIntent.status },
+    });
+
+    // A failed intent can still be retried, so close it before freeing the slot
+    try {
+      await StripePayment.cancelPaymentIntent(paymentIntent.id);
+    } catch (error) {
+      // Most likely a retry succeeded meanwhile; the webhook will confirm it
+      this.logger.warn(
+        `Could not cancel payment ${paymentIntent.id} for booking ${order.id}: ${error.message}`,
+      );
+      return;
+    }
+
+    await this.releaseUnpaidBooking(order.id, 'the payment failed');
+  }
+
+  /**
+   * Release bookings whose payment was not completed within the timeout
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredPayments() {
+    try {
+      const expiredOrders = await this.prisma.order.findMany({
+        where: {
+          status: OrderStatus.PENDING,
+          payment_status: PaymentStatus.PENDING,
+          payment_expires_at: { lte: new Date() },
+        },
+        include: {
+          payment_transactions: {
+            where: {
+              type: PaymentType.ORDER,
+              status: PaymentStatus.PENDING,
+            },
+          },
+        },
+      });
+
+      for (const order of expiredOrders) {
+        try {
+          for (const transaction of order.payment_transactions) {
+            if (transaction.reference_number) {
+              await StripePayment.cancelPaymentIntent(
+                transaction.reference_number,
+              );
+            }
+          }
+        } catch (error) {
+          // Most likely the payment completed meanwhile; the webhook will confirm it
+          this.logger.warn(
+            `Could not cancel payment for booking ${order.id}: ${error.message}`,
+          );
+          continue;
+        }
+
+        await this.releaseUnpaidBooking(
+          order.id,
+          'the payment was not completed in time',
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to release expired booking payments: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Cancel an unpaid booking and free its slot
+   */
+  async releaseUnpaidBooking(orderId: string, reason: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { garage: { select: { garage_name: true } } },
+    });
+
+    if (
+      !order ||
+      !this.bookingStatusService.canTransition(
+        order.status,
+        OrderStatus.CANCELLED,
+        OrderStatusActor.SYSTEM,
+      )
+    ) {
+      return;
+    }
+
+    const released = await this.prisma.$transaction(async (tx) => {
+      // Only from the status read above; a concurrent change wins
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, status: order.status },
+        data: {
+          status: OrderStatus.CANCELLED,
+          payment_status: PaymentStatus.FAILED,
+          payment_expires_at: null,
+          slot_id: null,
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await this.bookingStatusService.recordTransition(tx, {
+        order_id: order.id,
+        from_status: order.status,
+        to_status: OrderStatus.CANCELLED,
+        actor: OrderStatusActor.SYSTEM,
+        reason: `Released because ${reason}`,
+      });
+
+      if (order.slot_id) {
+        await TimeSlotHelper.release(tx, order.slot_id);
+      }
+
+      await tx.paymentTransaction.updateMany({
+        where: {
+          order_id: order.id,
+          type: PaymentType.ORDER,
+          status: PaymentStatus.PENDING,
+        },
+        data: { status: PaymentStatus.FAILED },
+      });
+
+      // An unpaid retest re-opens the offer on the original MOT booking
+      if (order.parent_order_id) {
+        await tx.order.updateMany({
+          where: {
+            id: order.parent_order_id,
+            retest_status: RetestOfferStatus.BOOKED,
+            retest_deadline: { gt: new Date() },
+          },
+          data: { retest_status: RetestOfferStatus.OFFERED },
+        });
+      }
+
+      return true;
+    });
+
+    if (!released) {
+      this.logger.warn(
+        `Booking ${order.id} changed while its unpaid slot was being released`,
+      );
+      return;
+    }
+
+    await this.availabilityCache.invalidateGarage(order.garage_id);
+
+    if (order.driver_id) {
+      await this.notificationService.create({
+        receiver_id: order.driver_id,
+        type: NotificationType.PAYMENT_TRANSACTION,
+        text: `Your booking with ${order.garage?.garage_name || 'the garage'} was cancelled because ${reason}. The slot has been released.`,
+        entity_id: order.id,
+      });
+    }
+  }
+
+  /**
+   * Refund an online booking payment through Stripe.
+   * Without an amount the whole remaining (not yet refunded) payment is refunded.
+   */
+  async refundPayment(
+    orderId: string,
+    { amount, reason }: { amount?: number; reason?: string } = {},
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        garage: { select: { garage_name: true } },
+        payment_transactions: {
+          where: { type: PaymentType.ORDER, status: PaymentStatus.PAID },
+          orderBy: { created_at: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    const charge = order.payment_transactions[0];
+    if (!charge?.reference_number) {
+      throw new BadRequestException(
+        'This booking has no online payment to refund',
+      );
+    }
+
+    const paidAmount = Number(order.paid_amount ?? charge.paid_amount ?? 0);
+    const refundable =
+      Math.round((paidAmount - Number(order.refunded_amount || 0)) * 100) / 100;
+
+    if (refundable <= 0) {
+      throw new BadRequestException(
+        'This booking has already been fully refunded',
+      );
+    }
+
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new BadRequestException(
+        `Refund amount must be between 0.01 and ${refundable.toFixed(2)}`,
+      );
+    }
+
+    // Reserve the amount first so a concurrent refund sees it as taken; the
+    // guard on the refunded total read above lets only one of them through
+    const reservation = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, refunded_amount: order.refunded_amount },
+        data: {
+          refunded_amount:
+            Math.round(
+              (Number(order.refunded_amount || 0) + refundAmount) * 100,
+            ) / 100,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'Another refund for this booking is in progress. Please try again.',
+        );
+      }
+
+      return tx.paymentTransaction.create({
+        data: {
+          user_id: order.driver_id,
+          order_id: order.id,
+          garage_id: order.garage_id,
+          type: PaymentType.REFUND,
+          status: PaymentStatus.PENDING,
+          provider: 'stripe',
+          amount: refundAmount,
+          currency: BOOKING_CURRENCY,
+        },
+      });
+    });
+
+    let refund: Awaited<ReturnType<typeof StripePayment.createRefund>>;
+    try {
+      // Keyed by the reserved row, so a retried call cannot refund twice
+      refund = await StripePayment.createRefund({
+        payment_intent_id: charge.reference_number,
+        amount: refundAmount,
+        metadata: {
+          type: PaymentType.REFUND,
+          order_id: order.id,
+          ...(reason && { reason }),
+        },
+        idempotency_key: `refund-${reservation.id}`,
+      });
+    } catch (error) {
+      await this.prisma.paymentTransaction.update({
+        where: { id: reservation.id },
+        data: { status: PaymentStatus.FAILED, raw_status: error.message },
+      });
+      await this.recalculateRefunds(order.id);
+      throw error;
+    }
+
+    const refundStatus = this.mapRefundStatus(refund.status);
+
+    await this.prisma.paymentTransaction.update({
+      where: { id: reservation.id },
+      data: {
+        status: refundStatus,
+        reference_number: refund.id,
+        raw_status: refund.status,
+        currency: refund.currency,
+      },
+    });
+
+    const updatedOrder = await this.recalculateRefunds(order.id);
+
+    if (refundStatus !== PaymentStatus.FAILED) {
+      await this.reversePayoutShare(order, refund.id, refundAmount);
+    }
+
+    if (order.driver_id && refundStatus !== PaymentStatus.FAILED) {
+      await this.notificationService.create({
+        receiver_id: order.driver_id,
+        type: NotificationType.PAYMENT_TRANSACTION,
+        text: `A refund of ${refundAmount.toFixed(2)} ${refund.currency.toUpperCase()} for your booking with ${order.garage?.garage_name || 'the garage'} has been issued.${reason ? ` Reason: ${reason}` : ''}`,
+        entity_id: order.id,
+      });
+    }
+
+    return {
+      refund_id: refund.id,
+      amount: refundAmount,
+      currency: refund.currency,
+      status: refundStatus,
+      refunded_amount: Number(updatedOrder.refunded_amount || 0),
+      payment_status: updatedOrder.payment_status,
+    };
+  }
+
+  /**
+   * Take the garage's share of a refund back when the booking was already paid
+   * out. Failures are logged, not thrown: the driver's refund has gone through.
+   */
+  private async reversePayoutShare(
+    order: { id: string; garage_id: string | null },
+    refundId: string,
+    refundAmount: number,
+  ) {
+    const payout = await this.prisma.paymentTransaction.findFirst({
+      where: {
+        order_id: order.id,
+        type: PaymentType.PAYOUT,
+        status: PaymentStatus.PAID,
+        reference_number: { not: null },
+      },
+    });
+    if (!payout) {
+      return;
+    }
+
+    const reversed = await this.prisma.paymentTransaction.aggregate({
+      where: {
+        order_id: order.id,
+        type: PaymentType.PAYOUT_REVERSAL,
+        status: PaymentStatus.PAID,
+      },
+      _sum: { amount: true },
+    });
+
+    // The garage was paid its share of the payment net of the platform fee
+    const payoutAmount = Number(payout.amount || 0);
+    const share =
+      payoutAmount / (payoutAmount + Number(payout.platform_fee || 0));
+    const amount = Math.min(
+      Math.round(refundAmount * share * 100) / 100,
+      Math.round((payoutAmount - Number(reversed._sum.amount || 0)) * 100) /
+        100,
+    );
+    if (amount <= 0) {
+      return;
+    }
+
+    try {
+      const reversal = await StripePayment.createTransferReversal(
+        payout.reference_number,
+        amount,
+        {
+          type: PaymentType.PAYOUT_REVERSAL,
+          order_id: order.id,
+          refund_id: refundId,
+        },
+        `payout-reversal-${refundId}`,
+      );
+
+      await this.prisma.paymentTransaction.create({
+        data: {
+          user_id: order.garage_id,
+          order_id: order.id,
+          garage_id: order.garage_id,
+          type: PaymentType.PAYOUT_REVERSAL,
+          status: PaymentStatus.PAID,
+          provider: 'stripe',
+          reference_number: reversal.id,
+          amount,
+          currency: reversal.currency,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to reverse payout ${payout.reference_number} for booking ${order.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Fully refund a booking that was paid online, if there is anything left to refund.
+   * Used when a booking is cancelled or rejected; failures are logged, not thrown,
+   * so the cancellation itself still goes through (admins can retry the refund).
+   */
+  async refundIfPaid(orderId: string, reason: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { payment_status: true },
+    });
+
+    if (
+      order?.payment_status !== PaymentStatus.PAID &&
+      order?.payment_status !== PaymentStatus.PARTIALLY_REFUNDED
+    ) {
+      return null;
+    }
+
+    try {
+      return await this.refundPayment(orderId, { reason });
+    } catch (error) {
+      this.logger.error(
+        `Failed to refund booking ${orderId}: ${error.message}`,
+        error.stack,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Sync a refund status change from Stripe (refund.updated)
+   */
+  async syncRefund(refund: { id: string; status: string }) {
+    const transaction = await this.prisma.paymentTransaction.findFirst({
+      where: { reference_number: refund.id, type: PaymentType.REFUND },
+    });
+
+    if (!transaction) {
+      return;
+    }
+
+    await this.prisma.paymentTransaction.update({
+      where: { id: transaction.id },
+      data: {
+        status: this.mapRefundStatus(refund.status),
+        raw_status: refund.status,
+      },
+    });
+
+    if (transaction.order_id) {
+      await this.recalculateRefunds(transaction.order_id);
+    }
+  }
+
+  /**
+   * Recompute the refunded total and payment status of an order from its refund rows
+   */
+  private async recalculateRefunds(orderId: string) {
+    const [order, refunds] = await Promise.all([
+      this.prisma.order.findUnique({
+        where: { id: orderId },
+        select: { paid_amount: true },
+      }),
+      this.prisma.paymentTransaction.findMany({
+        where: {
+          order_id: orderId,
+          type: PaymentType.REFUND,
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.REFUNDED] },
+        },
+        select: { amount: true },
+      }),
+    ]);
+
+    const refundedAmount =
+      Math.round(
+        refunds.reduce((sum, refund) => sum + Number(refund.amount || 0), 0) *
+          100,
+      ) / 100;
+    const paidAmount = Number(order?.paid_amount || 0);
+
+    let paymentStatus: PaymentStatus = PaymentStatus.PAID;
+    if (refundedAmount > 0) {
+      paymentStatus =
+        refundedAmount >= paidAmount
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED;
+    }
+
+    return this.prisma.order.update({
+      where: { id: orderId },
+      data: {
+        refunded_amount: refundedAmount,
+        payment_status: paymentStatus,
+      },
+    });
+  }
+
+  private mapRefundStatus(status: string | null): PaymentStatus {
+    switch (status) {
+      case 'succeeded':
+        return PaymentStatus.REFUNDED;
+      case 'failed':
+      case 'canceled':
+        return PaymentStatus.FAILED;
+      default:
+        return PaymentStatus.PENDING;
+    }
+  }
+
+  private async findOrderForPaymentIntent(paymentIntent: {
+    id: string;
+    metadata?: Record<string, string>;
+  }) {
+    const orderId = paymentIntent.metadata?.order_id;
+    if (orderId) {
+      return this.prisma.order.findUnique({ where: { id: orderId } });
+    }
+
+    const transaction = await this.prisma.paymentTransaction.findFirst({
+      where: { reference_number: paymentIntent.id, type: PaymentType.ORDER },
+      include: { order: true },
+    });
+
+    return transaction?.order ?? null;
+  }
+
+  private async getOrCreateCustomer(driver: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    billing_id: string | null;
+  }): Promise<string> {
+    if (driver.billing_id) {
+      return driver.billing_id;
+    }
+
+    const customer = await StripePayment.createCustomer({
+      user_id: driver.id,
+      name: driver.name,
+      email: driver.email,
+    });
+
+    await this.prisma.user.update({
+      where: { id: driver.id },
+      data: { billing_id: customer.id },
+    });
+
+    return customer.id;
+  }
+}
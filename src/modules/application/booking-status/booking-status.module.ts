@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { BookingStatusService } from './booking-status.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [BookingStatusService],
+  exports: [BookingStatusService],
+})
+export class BookingStatusModule {}
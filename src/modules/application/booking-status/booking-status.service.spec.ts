@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { OrderStatus, OrderStatusActor, PaymentStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BookingStatusService } from './booking-status.service';
+
+describe('BookingStatusService', () => {
+  const prismaMock = { orderStatusHistory: { create: jest.fn() } };
+
+  let service: BookingStatusService;
+  let prisma: PrismaService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingStatusService,
+        { provide: PrismaService, useValue: prismaMock },
+      ],
+    }).compile();
+
+    service = module.get(BookingStatusService);
+    prisma = module.get(PrismaService);
+  });
+
+  describe('transitions', () => {
+    it('lets a driver only cancel an open booking', () => {
+      expect(
+        service.allowedTransitions(
+          OrderStatus.PENDING,
+          OrderStatusActor.DRIVER,
+        ),
+      ).toEqual([OrderStatus.CANCELLED]);
+      expect(
+        service.canTransition(
+          OrderStatus.ACCEPTED,
+          OrderStatus.COMPLETED,
+          OrderStatusActor.DRIVER,
+        ),
+      ).toBe(false);
+    });
+
+    it('lets a garage mark no-shows but not an admin', () => {
+      expect(
+        service.canTransition(
+          OrderStatus.ACCEPTED,
+          OrderStatus.NO_SHOW,
+          OrderStatusActor.GARAGE,
+        ),
+      ).toBe(true);
+      expect(
+        service.canTransition(
+          OrderStatus.ACCEPTED,
+          OrderStatus.NO_SHOW,
+          OrderStatusActor.ADMIN,
+        ),
+      ).toBe(false);
+    });
+
+    it('lets the system only release pending bookings', () => {
+      expect(
+        service.canTransition(
+          OrderStatus.PENDING,
+          OrderStatus.CANCELLED,
+          OrderStatusActor.SYSTEM,
+        ),
+      ).toBe(true);
+      expect(
+        service.canTransition(
+          OrderStatus.ACCEPTED,
+          OrderStatus.CANCELLED,
+          OrderStatusActor.SYSTEM,
+        ),
+      ).toBe(false);
+    });
+
+    it('treats rejected, completed, cancelled and no-show bookings as final', () => {
+      const finalStatuses = [
+        OrderStatus.REJECTED,
+        OrderStatus.COMPLETED,
+        OrderStatus.CANCELLED,
+        OrderStatus.NO_SHOW,
+      ];
+
+      for (const status of finalStatuses) {
+        for (const actor of Object.values(OrderStatusActor)) {
+          expect(service.allowedTransitions(status, actor)).toEqual([]);
+        }
+      }
+    });
+
+    it('reports no-show bookings as final but not open ones', () => {
+      expect(service.isFinal(OrderStatus.NO_SHOW)).toBe(true);
+      expect(service.isFinal(OrderStatus.COMPLETED)).toBe(true);
+      expect(service.isFinal(OrderStatus.PENDING)).toBe(false);
+      expect(service.isFinal(OrderStatus.ACCEPTED)).toBe(false);
+    });
+
+    it('explains a refused transition', () => {
+      expect(() =>
+        service.assertTransition(
+          OrderStatus.PENDING,
+          OrderStatus.COMPLETED,
+          OrderStatusActor.GARAGE,
+        ),
+      ).toThrow(
+        'A garage cannot change a pending booking to completed. Allowed: ACCEPTED, REJECTED, CANCELLED, NO_SHOW',
+      );
+      expect(() =>
+        service.assertTransition(
+          OrderStatus.NO_SHOW,
+          OrderStatus.CANCELLED,
+          OrderStatusActor.ADMIN,
+        ),
+      ).toThrow('no-show bookings cannot be changed');
+      expect(() =>
+        service.assertTransition(
+          OrderStatus.ACCEPTED,
+          OrderStatus.ACCEPTED,
+          OrderStatusActor.GARAGE,
+        ),
+      ).toThrow('Booking is already accepted');
+    });
+  });
+
+  describe('assertPaymentSettled', () => {
+    it('refuses to accept or complete a booking waiting for its payment', () => {
+      expect(() =>
+        service.assertPaymentSettled(
+          PaymentStatus.PENDING,
+          OrderStatus.ACCEPTED,
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.assertPaymentSettled(
+          PaymentStatus.PENDING,
+          OrderStatus.COMPLETED,
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('lets pending payments be rejected or cancelled, and paid bookings accepted', () => {
+      expect(() =>
+        service.assertPaymentSettled(
+          PaymentStatus.PENDING,
+          OrderStatus.CANCELLED,
+        ),
+      ).not.toThrow();
+      expect(() =>
+        service.assertPaymentSettled(PaymentStatus.PAID, OrderStatus.ACCEPTED),
+      ).not.toThrow();
+      expect(() =>
+        service.assertPaymentSettled(null, OrderStatus.COMPLETED),
+      ).not.toThrow();
+    });
+  });
+
+  it('records a trimmed reason with the transition', async () => {
+    await service.recordTransition(prisma, {
+      order_id: 'order-1',
+      from_status: OrderStatus.PENDING,
+      to_status: OrderStatus.CANCELLED,
+      actor: OrderStatusActor.DRIVER,
+      changed_by_id: 'driver-1',
+      reason: '  Car sold  ',
+    });
+
+    expect(prismaMock.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: {
+        order_id: 'order-1',
+        from_status: OrderStatus.PENDING,
+        to_status: OrderStatus.CANCELLED,
+        actor: OrderStatusActor.DRIVER,
+        changed_by_id: 'driver-1',
+        reason: 'Car sold',
+      },
+    });
+  });
+});
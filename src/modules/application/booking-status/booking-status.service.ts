@@ -0,0 +1,167 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+/**
+ * Legal booking status transitions per actor.
+ * Statuses without an entry (REJECTED, COMPLETED, CANCELLED, NO_SHOW) are final.
+ */
+const BOOKING_TRANSITIONS: Record<
+  OrderStatusActor,
+  Partial<Record<OrderStatus, OrderStatus[]>>
+> = {
+  [OrderStatusActor.DRIVER]: {
+    [OrderStatus.PENDING]: [OrderStatus.CANCELLED],
+    [OrderStatus.ACCEPTED]: [OrderStatus.CANCELLED],
+  },
+  [OrderStatusActor.GARAGE]: {
+    [OrderStatus.PENDING]: [
+      OrderStatus.ACCEPTED,
+      OrderStatus.REJECTED,
+      OrderStatus.CANCELLED,
+      OrderStatus.NO_SHOW,
+    ],
+    [OrderStatus.ACCEPTED]: [
+      OrderStatus.COMPLETED,
+      OrderStatus.CANCELLED,
+      OrderStatus.NO_SHOW,
+    ],
+  },
+  [OrderStatusActor.ADMIN]: {
+    [OrderStatus.PENDING]: [
+      OrderStatus.ACCEPTED,
+      OrderStatus.REJECTED,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.ACCEPTED]: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+  },
+  // Automatic changes, e.g. releasing a booking whose online payment never arrived
+  [OrderStatusActor.SYSTEM]: {
+    [OrderStatus.PENDING]: [OrderStatus.CANCELLED],
+  },
+};
+
+@Injectable()
+export class BookingStatusService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  canTransition(
+    from: OrderStatus,
+    to: OrderStatus,
+    actor: OrderStatusActor,
+  ): boolean {
+    return BOOKING_TRANSITIONS[actor][from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Statuses the actor may move a booking to from its current status
+   */
+  allowedTransitions(
+    from: OrderStatus,
+    actor: OrderStatusActor,
+  ): OrderStatus[] {
+    return BOOKING_TRANSITIONS[actor][from] ?? [];
+  }
+
+  /**
+   * No actor can change a booking in this status any more
+   */
+  isFinal(status: OrderStatus): boolean {
+    return Object.values(BOOKING_TRANSITIONS).every(
+      (transitions) => !transitions[status]?.length,
+    );
+  }
+
+  assertTransition(
+    from: OrderStatus,
+    to: OrderStatus,
+    actor: OrderStatusActor,
+  ): void {
+    if (this.canTransition(from, to, actor)) {
+      return;
+    }
+
+    if (from === to) {
+      throw new BadRequestException(
+        `Booking is already ${this.statusLabel(to)}`,
+      );
+    }
+
+    const allowed = this.allowedTransitions(from, actor);
+    throw new BadRequestException(
+      `A ${actor.toLowerCase()} cannot change a ${this.statusLabel(from)} booking to ${this.statusLabel(to)}` +
+        (allowed.length
+          ? `. Allowed: ${allowed.join(', ')}`
+          : `; ${this.statusLabel(from)} bookings cannot be changed`),
+    );
+  }
+
+  /**
+   * A booking still waiting for its online payment cannot be accepted or
+   * completed: the payment timeout only releases pending bookings
+   */
+  assertPaymentSettled(
+    paymentStatus: PaymentStatus | null,
+    to: OrderStatus,
+  ): void {
+    if (
+      paymentStatus === PaymentStatus.PENDING &&
+      (to === OrderStatus.ACCEPTED || to === OrderStatus.COMPLETED)
+    ) {
+      throw new BadRequestException(
+        `A booking cannot be ${this.statusLabel(to)} while its online payment is pending`,
+      );
+    }
+  }
+
+  /**
+   * Write the audit row for a status change inside the caller's transaction
+   */
+  async recordTransition(
+    tx: Prisma.TransactionClient,
+    params: {
+      order_id: string;
+      from_status: OrderStatus | null;
+      to_status: OrderStatus;
+      actor: OrderStatusActor;
+      changed_by_id?: string | null;
+      reason?: string | null;
+    },
+  ) {
+    return tx.orderStatusHistory.create({
+      data: {
+        order_id: params.order_id,
+        from_status: params.from_status,
+        to_status: params.to_status,
+        actor: params.actor,
+        changed_by_id: params.changed_by_id ?? null,
+        reason: params.reason?.trim() || null,
+      },
+    });
+  }
+
+  async getHistory(orderId: string) {
+    return this.prisma.orderStatusHistory.findMany({
+      where: { order_id: orderId },
+      orderBy: { created_at: 'asc' },
+      select: {
+        id: true,
+        created_at: true,
+        actor: true,
+        from_status: true,
+        to_status: true,
+        reason: true,
+        changed_by: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  private statusLabel(status: OrderStatus): string {
+    return status.toLowerCase().replace('_', '-');
+  }
+}
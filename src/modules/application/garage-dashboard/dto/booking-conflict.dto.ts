@@ -0,0 +1,31 @@
+/**
+ * What to do with bookings that fall on time the garage is closing
+ */
+export enum BookingConflictResolution {
+  /** Move each booking to the nearest free slot */
+  RESCHEDULE = 'RESCHEDULE',
+  /** Cancel each booking and suggest other times to the driver */
+  CANCEL = 'CANCEL',
+  /** Leave the bookings in place and only close the free time */
+  KEEP = 'KEEP',
+}
+
+export interface AlternativeSlot {
+  date: string;
+  start_time: string;
+  end_time: string;
+  start_datetime: Date;
+  end_datetime: Date;
+}
+
+export interface AffectedBooking {
+  order_id: string;
+  slot_id: string | null;
+  driver_id: string | null;
+  status: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  start_datetime: Date;
+  end_datetime: Date;
+}
@@ -0,0 +1,101 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SlotDto } from './manual-slot.dto';
+
+export enum BulkSlotAction {
+  BLOCK = 'BLOCK',
+  UNBLOCK = 'UNBLOCK',
+  ADD = 'ADD',
+  REMOVE = 'REMOVE',
+}
+
+export class BulkSlotOperationDto {
+  @ApiProperty({
+    description: 'First day of the range (YYYY-MM-DD)',
+    example: '2026-06-05',
+  })
+  @IsDateString()
+  start_date: string;
+
+  @ApiProperty({
+    description: 'Last day of the range (YYYY-MM-DD, inclusive)',
+    example: '2026-07-10',
+  })
+  @IsDateString()
+  end_date: string;
+
+  @ApiPropertyOptional({
+    description: 'Days of the week to include (0 = Sunday). Omit for every day',
+    example: [5],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekdays?: number[];
+
+  @ApiPropertyOptional({
+    description:
+      'Start of the time window (HH:mm). Omit with end_time for the whole day',
+    example: '12:00',
+  })
+  @IsOptional()
+  @IsString()
+  start_time?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of the time window (HH:mm)',
+    example: '18:00',
+  })
+  @IsOptional()
+  @IsString()
+  end_time?: string;
+
+  @ApiProperty({
+    description:
+      'BLOCK/UNBLOCK slots in the window, ADD the given slots on each day, or REMOVE manual slots in the window',
+    enum: BulkSlotAction,
+  })
+  @IsEnum(BulkSlotAction)
+  action: BulkSlotAction;
+
+  @ApiPropertyOptional({
+    description: 'Slots to add on each matching day (ADD only)',
+    type: [SlotDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(96)
+  @ValidateNested({ each: true })
+  @Type(() => SlotDto)
+  slots?: SlotDto[];
+
+  @ApiPropertyOptional({ description: 'Reason shown on blocked slots' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Preview the affected slots and conflicting bookings without changing anything',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dry_run?: boolean;
+}
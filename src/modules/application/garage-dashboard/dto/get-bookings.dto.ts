@@ -9,6 +9,7 @@ export enum BookingStatusFilter {
   REJECTED = 'REJECTED',
   COMPLETED = 'COMPLETED',
   CANCELLED = 'CANCELLED',
+  NO_SHOW = 'NO_SHOW',
 }
 
 export enum DateFilter {
@@ -1,5 +1,12 @@
-import { IsString, IsDateString, IsOptional, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { BookingConflictResolution } from './booking-conflict.dto';
 
 export class ModifySlotTimeDto {
   @ApiProperty({ description: 'Date of the slot (YYYY-MM-DD)' })
@@ -36,4 +43,14 @@ export class ModifySlotTimeDto {
   @IsBoolean()
   @IsOptional()
   overlap?: boolean;
+
+  @ApiProperty({
+    description:
+      'What to do with bookings on the changed time. Required when the change affects booked slots',
+    required: false,
+    enum: BookingConflictResolution,
+  })
+  @IsEnum(BookingConflictResolution)
+  @IsOptional()
+  resolution?: BookingConflictResolution;
 }
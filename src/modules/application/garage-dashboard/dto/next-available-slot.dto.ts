@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class NextAvailableSlotDto {
+  @ApiProperty({ description: 'Slot date (YYYY-MM-DD)', example: '2026-06-05' })
+  date: string;
+
+  @ApiProperty({ description: 'Slot start time (HH:mm)', example: '09:00' })
+  start_time: string;
+
+  @ApiProperty({ description: 'Slot end time (HH:mm)', example: '10:00' })
+  end_time: string;
+
+  @ApiProperty({
+    description: 'Database slot ID, or null for a template slot',
+    example: null,
+    nullable: true,
+  })
+  slot_id: string | null;
+}
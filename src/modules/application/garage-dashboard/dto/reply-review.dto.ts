@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReplyReviewDto {
+  @ApiProperty({
+    example: 'Thanks for the kind words, see you next year!',
+    description: 'Public reply shown under the review',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reply: string;
+}
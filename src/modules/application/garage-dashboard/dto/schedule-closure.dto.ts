@@ -0,0 +1,35 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateScheduleClosureDto {
+  @ApiProperty({
+    description: 'First closed day (YYYY-MM-DD, garage local date)',
+    example: '2026-12-24',
+  })
+  @IsDateString()
+  start_date: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last closed day (YYYY-MM-DD, inclusive). Omit for a single-day closure',
+    example: '2027-01-02',
+  })
+  @IsOptional()
+  @IsDateString()
+  end_date?: string;
+
+  @ApiProperty({
+    description: 'Label shown on the calendar',
+    example: 'Christmas shutdown',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+}
@@ -0,0 +1,92 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DailyHoursDto } from './schedule.dto';
+
+export class ScheduleHoursDto {
+  @ApiProperty({ description: 'Start time in HH:mm format', example: '08:00' })
+  @IsString()
+  start_time: string;
+
+  @ApiProperty({ description: 'End time in HH:mm format', example: '18:00' })
+  @IsString()
+  end_time: string;
+
+  @ApiPropertyOptional({ description: 'Slot duration in minutes', example: 60 })
+  @IsOptional()
+  @IsNumber()
+  @Min(15)
+  @Max(480)
+  slot_duration?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Per-day hours (keys: "0"-"6"), same shape as the schedule daily_hours',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  daily_hours?: DailyHoursDto;
+
+  @ApiPropertyOptional({
+    description: 'Number of bays (bookings per time slot)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  bays?: number;
+}
+
+export class CreateScheduleVersionDto extends ScheduleHoursDto {
+  @ApiProperty({
+    description: 'Date (YYYY-MM-DD) the hours take effect',
+    example: '2026-06-01',
+  })
+  @IsDateString()
+  effective_from: string;
+
+  @ApiPropertyOptional({
+    description: 'Optional label shown in the version list',
+    example: 'Extended Saturday hours',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class ScheduleTemplateDto extends ScheduleHoursDto {
+  @ApiProperty({ description: 'Template name', example: 'Summer hours' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class ApplyScheduleTemplateDto {
+  @ApiProperty({
+    description: 'First day (YYYY-MM-DD) the template applies to',
+    example: '2026-06-01',
+  })
+  @IsDateString()
+  start_date: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last day (YYYY-MM-DD, inclusive). Omit to keep the template hours until the next version',
+    example: '2026-08-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  end_date?: string;
+}
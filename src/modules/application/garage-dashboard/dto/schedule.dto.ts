@@ -9,8 +9,12 @@ import {
   IsEnum,
   IsEmpty,
   IsNotEmpty,
+  IsTimeZone,
+  IsDateString,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BankHolidayRegion } from '@prisma/client';
+import { BookingConflictResolution } from './booking-conflict.dto';
 
 // NEW: Define restriction types
 export type RestrictionType = 'HOLIDAY' | 'BREAK';
@@ -57,6 +61,16 @@ export class RestrictionDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @ApiProperty({
+    description:
+      'What to do with bookings on the holiday. Required when the holiday falls on booked time',
+    required: false,
+    enum: BookingConflictResolution,
+  })
+  @IsOptional()
+  @IsEnum(BookingConflictResolution)
+  resolution?: BookingConflictResolution;
 }
 
 // NEW: Lightweight DTOs for daily hours (optional)
@@ -91,6 +105,14 @@ export class DailyHoursDayDto {
   @IsOptional()
   @IsNumber()
   slot_duration?: number;
+
+  @ApiPropertyOptional({
+    description: 'Optional per-day number of bays (bookings per time slot)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  bays?: number;
 }
 
 // We keep this as a plain record to avoid breaking validation; deeper checks in service
@@ -137,6 +159,53 @@ export class ScheduleDto {
   })
   @IsOptional()
   daily_hours?: DailyHoursDto;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone the opening hours are in (defaults to Europe/London)',
+    example: 'Europe/London',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  time_zone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of bays, i.e. bookings that can share the same time slot (defaults to 1)',
+    example: 3,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  bays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Close on the bank holidays of bank_holiday_region',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  closed_on_bank_holidays?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Region whose bank holidays apply (defaults to England & Wales)',
+    enum: BankHolidayRegion,
+    example: BankHolidayRegion.SCOTLAND,
+  })
+  @IsOptional()
+  @IsEnum(BankHolidayRegion)
+  bank_holiday_region?: BankHolidayRegion;
+
+  @ApiPropertyOptional({
+    description:
+      'Date (YYYY-MM-DD) the new opening hours take effect. Omit to change the hours from today; only hours can be scheduled ahead',
+    example: '2026-06-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  effective_from?: string;
 }
 
 export class WeeklyPatternDto {
@@ -186,6 +255,15 @@ export class SetWeeklyPatternDto {
   @Min(1)
   @Max(365)
   daysToGenerate?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Date (YYYY-MM-DD) the pattern takes effect. Omit to change the hours from today',
+    example: '2026-06-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  effective_from?: string;
 }
 
 // src/modules/application/garage-dashboard/dto/schedule.dto.ts
@@ -227,3 +305,9 @@ export class RescheduleBookingDto {
   @IsString()
   reason?: string;
 }
+
+export class RespondRescheduleRequestDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
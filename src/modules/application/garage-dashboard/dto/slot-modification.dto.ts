@@ -78,4 +78,5 @@ export interface ModificationResult {
     source: 'DATABASE' | 'TEMPLATE';
   }>;
   requires_confirmation?: boolean;
+  overlap?: boolean;
 }
@@ -0,0 +1,19 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderStatus } from '@prisma/client';
+
+export class UpdateBookingStatusDto {
+  @ApiProperty({ enum: OrderStatus, example: OrderStatus.ACCEPTED })
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @ApiProperty({
+    required: false,
+    description: 'Reason recorded in the booking status history',
+    example: 'Ramp unavailable that day',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
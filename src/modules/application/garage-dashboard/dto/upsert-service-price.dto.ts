@@ -3,8 +3,10 @@ import {
   IsString,
   IsNumber,
   IsArray,
+  IsInt,
   ValidateNested,
   Min,
+  Max,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -41,7 +43,25 @@ export class AdditionalServiceDto {
   @IsString()
   name: string;
 
-  // No price field for additional services
+  @ApiPropertyOptional({
+    example: 35.0,
+    description:
+      'Price when booked as an add-on (unpriced services cannot be added online)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Price must be non-negative' })
+  price?: number;
+
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Extra minutes this add-on adds to the booked slot',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(480)
+  duration_minutes?: number;
 }
 
 export class UpsertServicePriceDto {
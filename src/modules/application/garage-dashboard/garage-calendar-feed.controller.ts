@@ -0,0 +1,25 @@
+import { Controller, Get, Header, Query } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { GarageCalendarFeedService } from './services/garage-calendar-feed.service';
+
+// Calendar apps cannot send a JWT, so the feed is authorised by its secret token
+@ApiTags('Garage Dashboard')
+@Controller('garage-dashboard')
+export class GarageCalendarFeedController {
+  constructor(
+    private readonly garageCalendarFeedService: GarageCalendarFeedService,
+  ) {}
+
+  @ApiOperation({
+    summary: 'iCalendar feed of garage bookings',
+    description:
+      'Subscribe to this URL from Outlook or Google Calendar. Get the URL from GET /garage-dashboard/calendar-feed.',
+  })
+  @Get('calendar.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'inline; filename="bookings.ics"')
+  @Header('Cache-Control', 'no-cache')
+  async getFeed(@Query('token') token: string) {
+    return this.garageCalendarFeedService.buildFeed(token);
+  }
+}
@@ -35,10 +35,14 @@ import { UpdateGarageProfileDto } from './dto/update-garage-profile.dto';
 import { GarageBookingService } from './services/garage-booking.service';
 import { GaragePaymentService } from './services/garage-payment.service';
 import { GarageInvoiceService } from './services/garage-invoice.service';
+import { GarageReviewService } from './services/garage-review.service';
+import { GarageCalendarFeedService } from './services/garage-calendar-feed.service';
+import { GarageScheduleConflictService } from './services/garage-schedule-conflict.service';
 import { memoryStorage } from 'multer';
 import { ManualSlotDto } from './dto/manual-slot.dto';
 import {
   RescheduleBookingDto,
+  RespondRescheduleRequestDto,
   RestrictionDto,
   ScheduleDto,
   SetWeeklyPatternDto,
@@ -46,7 +50,16 @@ import {
 import { UpsertServicePriceDto } from './dto/upsert-service-price.dto';
 import { SlotModificationDto } from './dto/slot-modification.dto';
 import { ModifySlotTimeDto } from './dto/modify-slot-time.dto';
+import { BulkSlotOperationDto } from './dto/bulk-slot-operation.dto';
 import { GetBookingsDto } from './dto/get-bookings.dto';
+import { ReplyReviewDto } from './dto/reply-review.dto';
+import { CreateScheduleClosureDto } from './dto/schedule-closure.dto';
+import {
+  ApplyScheduleTemplateDto,
+  CreateScheduleVersionDto,
+  ScheduleTemplateDto,
+} from './dto/schedule-version.dto';
+import { UpdateBookingStatusDto } from './dto/update-booking-status.dto';
 import { GarageSubscriptionService } from './services/garage-subscription.service';
 import { SubscriptionPlansResponseDto } from './dto/subscription-plan-response.dto';
 import { CurrentSubscriptionResponseDto } from './dto/current-subscription-response.dto';
@@ -59,7 +72,6 @@ import {
   CancelSubscriptionDto,
   CancelSubscriptionResponseDto,
 } from './dto/billing-portal.dto';
-import { OrderStatus } from '@prisma/client';
 
 @ApiTags('Garage Dashboard')
 @Controller('garage-dashboard')
@@ -74,6 +86,9 @@ export class GarageDashboardController {
     private readonly garagePaymentService: GaragePaymentService,
     private readonly garageInvoiceService: GarageInvoiceService,
     private readonly garageSubscriptionService: GarageSubscriptionService,
+    private readonly garageReviewService: GarageReviewService,
+    private readonly garageCalendarFeedService: GarageCalendarFeedService,
+    private readonly garageScheduleConflictService: GarageScheduleConflictService,
   ) {}
 
   // ==================== PROFILE MANAGEMENT ====================
@@ -169,9 +184,14 @@ export class GarageDashboardController {
     return this.garageScheduleService.setSchedule(req.user.userId, dto);
   }
 
+  @ApiOperation({
+    summary: 'Add holiday',
+    description:
+      'If bookings fall on the holiday, nothing changes until a resolution is given: RESCHEDULE moves them to the nearest free slot, CANCEL cancels them and suggests other times to the drivers, KEEP leaves them in place.',
+  })
   @Post('schedule/holiday')
   async setHoliday(@Req() req, @Body() dto: RestrictionDto) {
-    return this.garageScheduleService.setHoliday(req.user.userId, dto);
+    return this.garageScheduleConflictService.setHoliday(req.user.userId, dto);
   }
 
   @ApiOperation({ summary: 'Delete holiday' })
@@ -184,6 +204,121 @@ export class GarageDashboardController {
   async getHolidays(@Req() req) {
     return this.garageScheduleService.getHolidays(req.user.userId);
   }
+
+  @ApiOperation({
+    summary: 'Get the calendar feed URL',
+    description:
+      'Secret iCalendar URL for subscribing to bookings from Outlook or Google Calendar.',
+  })
+  @Get('calendar-feed')
+  async getCalendarFeed(@Req() req) {
+    return this.garageCalendarFeedService.getFeed(req.user.userId);
+  }
+
+  @ApiOperation({
+    summary: 'Regenerate the calendar feed URL',
+    description: 'Invalidates the previous URL.',
+  })
+  @Post('calendar-feed/rotate')
+  async rotateCalendarFeed(@Req() req) {
+    return this.garageCalendarFeedService.rotateToken(req.user.userId);
+  }
+
+  @ApiOperation({
+    summary: 'List schedule versions',
+    description:
+      'Opening hours taking effect on future dates, including applied templates.',
+  })
+  @Get('schedule/versions')
+  async getScheduleVersions(@Req() req) {
+    return this.garageScheduleService.getScheduleVersions(req.user.userId);
+  }
+
+  @ApiOperation({
+    summary: 'Schedule new opening hours from a date',
+    description:
+      'Booked slots are kept; those outside the new hours are returned as conflicts.',
+  })
+  @Post('schedule/versions')
+  async addScheduleVersion(@Req() req, @Body() dto: CreateScheduleVersionDto) {
+    return this.garageScheduleService.addScheduleVersion(req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Delete a schedule version that has not started' })
+  @Delete('schedule/versions/:id')
+  async deleteScheduleVersion(@Req() req, @Param('id') id: string) {
+    return this.garageScheduleService.deleteScheduleVersion(
+      req.user.userId,
+      id,
+    );
+  }
+
+  @ApiOperation({ summary: 'List schedule templates' })
+  @Get('schedule/templates')
+  async getScheduleTemplates(@Req() req) {
+    return this.garageScheduleService.getScheduleTemplates(req.user.userId);
+  }
+
+  @ApiOperation({
+    summary: 'Create a schedule template',
+    description: 'Named opening hours, e.g. "Summer hours".',
+  })
+  @Post('schedule/templates')
+  async createScheduleTemplate(@Req() req, @Body() dto: ScheduleTemplateDto) {
+    return this.garageScheduleService.createScheduleTemplate(
+      req.user.userId,
+      dto,
+    );
+  }
+
+  @ApiOperation({ summary: 'Delete a schedule template' })
+  @Delete('schedule/templates/:id')
+  async deleteScheduleTemplate(@Req() req, @Param('id') id: string) {
+    return this.garageScheduleService.deleteScheduleTemplate(
+      req.user.userId,
+      id,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Apply a schedule template to a date range',
+    description:
+      'Without end_date the template hours apply until the next version. Conflicting booked slots are reported.',
+  })
+  @Post('schedule/templates/:id/apply')
+  async applyScheduleTemplate(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: ApplyScheduleTemplateDto,
+  ) {
+    return this.garageScheduleService.applyScheduleTemplate(
+      req.user.userId,
+      id,
+      dto,
+    );
+  }
+
+  @ApiOperation({ summary: 'List dated closures' })
+  @Get('schedule/closures')
+  async getClosures(@Req() req) {
+    return this.garageScheduleService.getClosures(req.user.userId);
+  }
+
+  @ApiOperation({
+    summary: 'Add a dated closure',
+    description:
+      'Closes the garage for a single day or an inclusive date range. Rejected while bookings exist in the range.',
+  })
+  @Post('schedule/closures')
+  async addClosure(@Req() req, @Body() dto: CreateScheduleClosureDto) {
+    return this.garageScheduleService.addClosure(req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Delete a dated closure' })
+  @Delete('schedule/closures/:id')
+  async deleteClosure(@Req() req, @Param('id') id: string) {
+    return this.garageScheduleService.deleteClosure(req.user.userId, id);
+  }
   @Patch('reschedule')
   async rescheduleBooking(@Req() req, @Body() body: RescheduleBookingDto) {
     return this.garageBookingService.rescheduleBooking(req.user.userId, body);
@@ -361,6 +496,16 @@ export class GarageDashboardController {
     return this.garageScheduleService.modifySlots(req.user.userId, dto);
   }
 
+  @Post('schedule/slots/bulk')
+  @ApiOperation({
+    summary: 'Block, unblock, add or remove slots across a date range',
+    description:
+      'Applies to the selected weekdays between start_date and end_date within the optional time window. Booked or held slots are never changed and are listed as conflicts. Set dry_run to preview without saving.',
+  })
+  async bulkSlotOperation(@Req() req, @Body() dto: BulkSlotOperationDto) {
+    return this.garageScheduleService.bulkSlotOperation(req.user.userId, dto);
+  }
+
   @Patch('schedule/slots/time')
   @ApiOperation({
     summary: 'Modify slot time with overlap control',
@@ -370,16 +515,25 @@ export class GarageDashboardController {
       **Overlap Behavior:**
       - If overlap=false (default): Rejects modification if it would affect existing slots
       - If overlap=true: Allows modification and deletes overlapping slots
-      - Booked slots are always protected (no override allowed)
+      - Booked slots are never overwritten
+      
+      **Booked slots:**
+      - Without resolution: Lists the affected bookings with suggested free slots
+      - resolution=RESCHEDULE: Moves the bookings to the nearest free slot first
+      - resolution=CANCEL: Cancels the bookings and suggests other times to the drivers
+      - resolution=KEEP: Leaves the booked slots in place
       
       **Example Responses:**
       - Success: Slot modified successfully
       - Warning: Shows affected slots when overlap=false
-      - Error: Cannot overlap with booked slots
+      - Resolution required: Shows affected bookings when no resolution is given
     `,
   })
   async modifySlotTime(@Req() req, @Body() dto: ModifySlotTimeDto) {
-    return this.garageScheduleService.modifySlotTime(req.user.userId, dto);
+    return this.garageScheduleConflictService.modifySlotTime(
+      req.user.userId,
+      dto,
+    );
   }
 
   // ==================== BOOKING MANAGEMENT ====================
@@ -403,21 +557,78 @@ export class GarageDashboardController {
   async updateBookingStatus(
     @Req() req,
     @Param('id') id: string,
-    @Body() dto: { status: OrderStatus },
+    @Body() dto: UpdateBookingStatusDto,
   ) {
     return this.garageBookingService.updateBookingStatus(
       req.user.userId,
       id,
       dto.status,
+      dto.reason,
+    );
+  }
+
+  @ApiOperation({ summary: 'Accept a driver reschedule request' })
+  @Patch('bookings/:id/reschedule-request/accept')
+  async acceptRescheduleRequest(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: RespondRescheduleRequestDto,
+  ) {
+    return this.garageBookingService.respondToRescheduleRequest(
+      req.user.userId,
+      id,
+      true,
+      dto.reason,
+    );
+  }
+
+  @ApiOperation({ summary: 'Decline a driver reschedule request' })
+  @Patch('bookings/:id/reschedule-request/decline')
+  async declineRescheduleRequest(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: RespondRescheduleRequestDto,
+  ) {
+    return this.garageBookingService.respondToRescheduleRequest(
+      req.user.userId,
+      id,
+      false,
+      dto.reason,
     );
   }
 
   // ==================== PAYMENT MANAGEMENT ====================
 
-  @ApiOperation({ summary: 'Get all payments' })
+  @ApiOperation({
+    summary: 'Get payout history and Stripe Connect balance',
+  })
   @Get('payments')
-  async getPayments(@Req() req) {
-    return this.garagePaymentService.getPayments(req.user.userId);
+  async getPayments(
+    @Req() req,
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '10',
+  ) {
+    return this.garagePaymentService.getPayments(
+      req.user.userId,
+      parseInt(page),
+      parseInt(limit),
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Start or resume Stripe Connect onboarding for payouts',
+  })
+  @Post('payments/connect/onboarding')
+  async createConnectOnboardingLink(@Req() req) {
+    return this.garagePaymentService.createConnectOnboardingLink(
+      req.user.userId,
+    );
+  }
+
+  @ApiOperation({ summary: 'Get Stripe Connect payout account status' })
+  @Get('payments/connect/status')
+  async getConnectStatus(@Req() req) {
+    return this.garagePaymentService.getConnectStatus(req.user.userId);
   }
 
   @ApiOperation({ summary: 'Get payment by ID' })
@@ -426,6 +637,36 @@ export class GarageDashboardController {
     return this.garagePaymentService.getPayment(req.user.userId, id);
   }
 
+  // ==================== REVIEW MANAGEMENT ====================
+
+  @ApiOperation({ summary: 'Get driver reviews and average rating' })
+  @Get('reviews')
+  async getReviews(
+    @Req() req,
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '10',
+  ) {
+    return this.garageReviewService.getReviews(
+      req.user.userId,
+      parseInt(page),
+      parseInt(limit),
+    );
+  }
+
+  @ApiOperation({ summary: 'Reply to a driver review' })
+  @Patch('reviews/:id/reply')
+  async replyToReview(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: ReplyReviewDto,
+  ) {
+    return this.garageReviewService.replyToReview(
+      req.user.userId,
+      id,
+      dto.reply,
+    );
+  }
+
   // ==================== INVOICE MANAGEMENT ====================
 
   @ApiOperation({ summary: 'Get all invoices' })
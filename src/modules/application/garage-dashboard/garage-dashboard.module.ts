@@ -9,11 +9,26 @@ import { GarageBookingService } from './services/garage-booking.service';
 import { GaragePaymentService } from './services/garage-payment.service';
 import { GarageInvoiceService } from './services/garage-invoice.service';
 import { GarageSubscriptionService } from './services/garage-subscription.service';
+import { GarageReviewService } from './services/garage-review.service';
+import { GarageCalendarFeedService } from './services/garage-calendar-feed.service';
+import { GarageScheduleConflictService } from './services/garage-schedule-conflict.service';
+import { GarageCalendarFeedController } from './garage-calendar-feed.controller';
 import { SubscriptionVisibilityModule } from '../../../common/lib/subscription/subscription-visibility.module';
+import { BookingPaymentModule } from '../booking-payment/booking-payment.module';
+import { BookingStatusModule } from '../booking-status/booking-status.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { SlotAvailabilityCacheModule } from '../slot-availability/slot-availability-cache.module';
 
 @Module({
-  imports: [PrismaModule, SubscriptionVisibilityModule],
-  controllers: [GarageDashboardController],
+  imports: [
+    PrismaModule,
+    SubscriptionVisibilityModule,
+    BookingPaymentModule,
+    BookingStatusModule,
+    WaitlistModule,
+    SlotAvailabilityCacheModule,
+  ],
+  controllers: [GarageDashboardController, GarageCalendarFeedController],
   providers: [
     GarageProfileService,
     GaragePricingService,
@@ -22,6 +37,9 @@ import { SubscriptionVisibilityModule } from '../../../common/lib/subscription/s
     GaragePaymentService,
     GarageInvoiceService,
     GarageSubscriptionService,
+    GarageReviewService,
+    GarageCalendarFeedService,
+    GarageScheduleConflictService,
   ],
   exports: [
     GarageProfileService,
@@ -31,6 +49,7 @@ import { SubscriptionVisibilityModule } from '../../../common/lib/subscription/s
     GaragePaymentService,
     GarageInvoiceService,
     GarageSubscriptionService,
+    GarageReviewService,
   ],
 })
 export class GarageDashboardModule {}
@@ -25,6 +25,14 @@ export interface CurrentWeekInfo {
   isCurrentMonth: boolean;
 }
 
+/**
+ * A dated closure (garage closure or bank holiday) keyed by YYYY-MM-DD
+ */
+export interface ClosedDate {
+  label: string;
+  type: 'CLOSURE' | 'BANK_HOLIDAY';
+}
+
 export interface WeekDateRange {
   start: Date;
   end: Date;
@@ -32,7 +40,7 @@ export interface WeekDateRange {
 
 // Helper Functions
 
-function formatLocalYMD(d: Date): string {
+export function formatLocalYMD(d: Date): string {
   const year = d.getFullYear();
   const month = String(d.getMonth() + 1).padStart(2, '0');
   const day = String(d.getDate()).padStart(2, '0');
@@ -229,6 +237,7 @@ export function generateWeekSchedule(
   schedule: any,
   restrictions: RestrictionDto[],
   todayDate: string,
+  closedDates: Map<string, ClosedDate> = new Map(),
 ): WeekDay[] {
   const weekDays: WeekDay[] = [];
   const currentDate = new Date(weekStart);
@@ -237,7 +246,9 @@ export function generateWeekSchedule(
   for (let i = 0; i < 7; i++) {
     const dateString = formatLocalYMD(currentDate);
     const dayOfWeek = currentDate.getDay();
-    const isHoliday = isDayRestricted(restrictions, currentDate);
+    const closedDate = closedDates.get(dateString);
+    const isHoliday =
+      !!closedDate || isDayRestricted(restrictions, currentDate);
     const isToday = dateString === todayDate;
 
     // Get working hours (null if holiday)
@@ -246,7 +257,7 @@ export function generateWeekSchedule(
     let description = '';
 
     if (isHoliday) {
-      description = 'Holiday';
+      description = closedDate?.label || 'Holiday';
     } else if (schedule && schedule.is_active) {
       startTime = schedule.start_time;
       endTime = schedule.end_time;
@@ -283,6 +294,7 @@ export function generateHolidaysForMonth(
   year: number,
   month: number,
   schedule?: any,
+  closedDates: Map<string, ClosedDate> = new Map(),
 ) {
   const holidays = [];
   const added = new Set<string>();
@@ -314,7 +326,19 @@ export function generateHolidaysForMonth(
 
     const ymd = formatLocalYMD(date);
 
-    // 1) Closed weekdays from daily_hours
+    // 1) Dated closures and bank holidays
+    const closedDate = closedDates.get(ymd);
+    if (closedDate && !added.has(ymd)) {
+      holidays.push({
+        date: ymd,
+        day_of_week: dayOfWeek,
+        description: closedDate.label,
+        type: closedDate.type,
+      });
+      added.add(ymd);
+    }
+
+    // 2) Closed weekdays from daily_hours
     if (closedWeekdays.has(dayOfWeek) && !added.has(ymd)) {
       holidays.push({
         date: ymd,
@@ -325,7 +349,7 @@ export function generateHolidaysForMonth(
       added.add(ymd);
     }
 
-    // 2) Restriction-based holidays
+    // 3) Restriction-based holidays
     const holidayRestriction = restrictions.find((r) => {
       if (r.type !== 'HOLIDAY') return false;
 
@@ -11,10 +11,32 @@ import {
   BookingStatusFilter,
   DateFilter,
 } from '../dto/get-bookings.dto';
-import { OrderStatus, Prisma } from '@prisma/client';
+import {
+  OrderStatus,
+  OrderStatusActor,
+  Prisma,
+  RescheduleRequestStatus,
+  RetestOfferStatus,
+  ServiceType,
+} from '@prisma/client';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { NotificationService } from '../../notification/notification.service';
 import { NotificationType } from 'src/common/repository/notification/notification.repository';
 import { RescheduleBookingDto } from '../dto/schedule.dto';
+import { BookingPaymentService } from '../../booking-payment/booking-payment.service';
+import { BookingStatusService } from '../../booking-status/booking-status.service';
+import { GarageScheduleService } from './garage-schedule.service';
+import { WaitlistService } from '../../waitlist/waitlist.service';
+import { SlotAvailabilityCacheService } from '../../slot-availability/slot-availability-cache.service';
+import {
+  DEFAULT_TIME_ZONE,
+  TimezoneHelper,
+} from 'src/common/helper/timezone.helper';
+import { TimeSlotHelper } from 'src/common/helper/time-slot.helper';
+
+type StatusChangeBooking = Awaited<
+  ReturnType<GarageBookingService['applyStatusChange']>
+>['booking'];
 
 @Injectable()
 export class GarageBookingService {
@@ -23,6 +45,11 @@ export class GarageBookingService {
   constructor(
     private prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly bookingPaymentService: BookingPaymentService,
+    private readonly bookingStatusService: BookingStatusService,
+    private readonly garageScheduleService: GarageScheduleService,
+    private readonly waitlistService: WaitlistService,
+    private readonly availabilityCache: SlotAvailabilityCacheService,
   ) {}
 
   async getBookings(userId: string, query: GetBookingsDto) {
@@ -55,6 +82,18 @@ export class GarageBookingService {
             },
           },
         },
+        {
+          vehicle: {
+            previous_registrations: {
+              some: {
+                registration_number: {
+                  contains: search,
+                  mode: 'insensitive',
+                },
+              },
+            },
+          },
+        },
         {
           driver: {
             name: {
@@ -272,6 +311,17 @@ export class GarageBookingService {
             },
           },
         },
+        reschedule_requests: {
+          where: { status: RescheduleRequestStatus.PENDING },
+          select: {
+            id: true,
+            requested_start: true,
+            requested_end: true,
+            reason: true,
+            expires_at: true,
+            created_at: true,
+          },
+        },
         // payment_transactions: {
         //   select: {
         //     id: true,
@@ -289,19 +339,61 @@ export class GarageBookingService {
       throw new NotFoundException('Booking not found');
     }
 
+    const statusHistory = await this.bookingStatusService.getHistory(
+      booking.id,
+    );
+
     return {
       success: true,
       message: 'Booking retrieved successfully',
-      data: booking,
+      data: {
+        ...booking,
+        allowed_statuses: this.bookingStatusService.allowedTransitions(
+          booking.status,
+          OrderStatusActor.GARAGE,
+        ),
+        status_history: statusHistory,
+      },
     };
   }
 
+  /**
+   * `offerToWaitlist` is off when the freed time is about to close anyway
+   */
   async updateBookingStatus(
     userId: string,
     bookingId: string,
     status: OrderStatus,
+    reason?: string,
+    offerToWaitlist = true,
   ) {
-    const booking = await this.prisma.order.findFirst({
+    const { booking, order } = await this.prisma.$transaction((tx) =>
+      this.applyStatusChange(tx, userId, bookingId, status, reason),
+    );
+
+    await this.completeStatusChange(userId, booking, status, reason, {
+      offerToWaitlist,
+    });
+
+    return {
+      success: true,
+      message: 'Booking status updated successfully',
+      data: order,
+    };
+  }
+
+  /**
+   * The database side of a garage's status change, inside the caller's
+   * transaction. Once it commits the caller runs completeStatusChange.
+   */
+  async applyStatusChange(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    bookingId: string,
+    status: OrderStatus,
+    reason?: string,
+  ) {
+    const booking = await tx.order.findFirst({
       where: {
         id: bookingId,
         garage_id: userId,
@@ -309,14 +401,23 @@ export class GarageBookingService {
       select: {
         id: true,
         status: true,
+        payment_status: true,
         driver_id: true,
+        garage_id: true,
         order_date: true,
         slot_id: true,
+        parent_order_id: true,
+        slot: { select: { end_datetime: true } },
         garage: {
           select: {
             garage_name: true,
           },
         },
+        items: {
+          select: {
+            service: { select: { type: true } },
+          },
+        },
       },
     });
 
@@ -324,74 +425,217 @@ export class GarageBookingService {
       throw new NotFoundException('Booking not found');
     }
 
-    // ❌ Already rejected → no further update allowed
-    if (booking.status === OrderStatus.REJECTED) {
-      throw new BadRequestException('Rejected booking cannot be updated');
+    this.bookingStatusService.assertTransition(
+      booking.status,
+      status,
+      OrderStatusActor.GARAGE,
+    );
+    this.bookingStatusService.assertPaymentSettled(
+      booking.payment_status,
+      status,
+    );
+
+    if (status === OrderStatus.NO_SHOW) {
+      const appointmentEnd = booking.slot?.end_datetime ?? booking.order_date;
+      if (appointmentEnd.getTime() > Date.now()) {
+        throw new BadRequestException(
+          'A booking can only be marked as a no-show after its appointment has ended',
+        );
+      }
     }
 
-    const updatedBooking = await this.prisma.$transaction(async (tx) => {
-      // Update order status
-      const order = await tx.order.update({
-        where: { id: bookingId },
-        data: {
-          status,
-          ...((status === OrderStatus.REJECTED ||
-            status === OrderStatus.CANCELLED) && { slot: null }),
-        },
-        include: {
-          driver: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
+    // Only from the status checked above; the driver or an admin may have moved it on
+    const { count } = await tx.order.updateMany({
+      where: { id: bookingId, status: booking.status },
+      data: this.statusChangeData(status, booking.items),
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        'This booking was updated in the meantime. Please refresh and try again.',
+      );
+    }
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: {
+        driver: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            email: true,
           },
-          vehicle: {
-            select: {
-              registration_number: true,
-            },
+        },
+        vehicle: {
+          select: {
+            registration_number: true,
           },
         },
+      },
+    });
+
+    await this.bookingStatusService.recordTransition(tx, {
+      order_id: bookingId,
+      from_status: booking.status,
+      to_status: status,
+      actor: OrderStatusActor.GARAGE,
+      changed_by_id: userId,
+      reason,
+    });
+
+    if (status === OrderStatus.NO_SHOW && booking.driver_id) {
+      await tx.user.update({
+        where: { id: booking.driver_id },
+        data: { no_show_count: { increment: 1 } },
       });
+    }
 
-      // Only when rejected → free slot
-      if (
-        (status === OrderStatus.REJECTED || status === OrderStatus.CANCELLED) &&
-        booking.slot_id
-      ) {
-        await tx.timeSlot.update({
-          where: { id: booking.slot_id },
-          data: {
-            order: null,
-            is_available: true,
-          },
-        });
-      }
+    if (status === OrderStatus.REJECTED || status === OrderStatus.CANCELLED) {
+      await this.releaseBooking(tx, booking);
+    }
 
-      return order;
-    });
+    return { booking, order };
+  }
 
-    await this.notificationService.create({
-      receiver_id: booking.driver_id,
-      sender_id: userId,
-      type: NotificationType.BOOKING,
-      text:
-        status === OrderStatus.ACCEPTED
-          ? `Your booking with ${booking.garage.garage_name} has been accepted on ${booking.order_date.toISOString().split('T')[0]} at ${booking.order_date.toISOString().split('T')[1]}.`
-          : `Your booking with ${booking.garage.garage_name} has been rejected on ${booking.order_date.toISOString().split('T')[0]} at ${booking.order_date.toISOString().split('T')[1]}.`,
-      entity_id: booking.id,
-    });
+  /**
+   * What follows a committed status change: the driver's notification,
+   * refunds, cache and waitlist
+   *
+   * @param options.notifyDriver - Off when the caller sends its own message
+   */
+  async completeStatusChange(
+    userId: string,
+    booking: StatusChangeBooking,
+    status: OrderStatus,
+    reason?: string,
+    options: { notifyDriver?: boolean; offerToWaitlist?: boolean } = {},
+  ) {
+    const { notifyDriver = true, offerToWaitlist = true } = options;
+
+    if (notifyDriver) {
+      const timeZone =
+        await this.garageScheduleService.getGarageTimeZone(userId);
+      const bookingDate = booking.order_date.toLocaleDateString('en-GB', {
+        timeZone,
+      });
+      const bookingTime = this.formatTime24Hour(booking.order_date, timeZone);
+
+      await this.notificationService.create({
+        receiver_id: booking.driver_id,
+        sender_id: userId,
+        type: NotificationType.BOOKING,
+        text: `Your booking with ${booking.garage.garage_name} has been ${status === OrderStatus.NO_SHOW ? 'marked as a no-show' : status.toLowerCase()} on ${bookingDate} at ${bookingTime}.`,
+        entity_id: booking.id,
+      });
+    }
+
+    // Rejected or cancelled by the garage → refund any online payment in full
+    if (status === OrderStatus.REJECTED || status === OrderStatus.CANCELLED) {
+      await this.afterBookingReleased(
+        booking,
+        reason ||
+          (status === OrderStatus.REJECTED
+            ? 'Booking rejected by the garage'
+            : 'Booking cancelled by the garage'),
+        offerToWaitlist,
+      );
+      return;
+    }
+
+    await this.availabilityCache.invalidateGarage(userId);
+  }
+
+  /**
+   * Order fields written with a status change: a rejected or cancelled booking
+   * lets go of its slot, and a completed MOT waits for its DVSA result
+   */
+  statusChangeData(
+    status: OrderStatus,
+    items: { service: { type: ServiceType } | null }[],
+  ): Prisma.OrderUncheckedUpdateManyInput {
+    const isCompletedMot =
+      status === OrderStatus.COMPLETED &&
+      items.some((item) => item.service?.type === ServiceType.MOT);
 
     return {
-      success: true,
-      message: 'Booking status updated successfully',
-      data: updatedBooking,
+      status,
+      ...((status === OrderStatus.REJECTED ||
+        status === OrderStatus.CANCELLED) && { slot_id: null }),
+      ...(status === OrderStatus.COMPLETED && { completed_at: new Date() }),
+      ...(isCompletedMot && {
+        retest_status: RetestOfferStatus.PENDING_RESULT,
+      }),
     };
   }
 
+  /**
+   * Give back what a rejected or cancelled booking held, inside the caller's
+   * transaction: its slot, pending reschedule holds and a booked retest offer.
+   * Used by the driver, garage and admin paths; afterBookingReleased follows
+   * once the transaction commits.
+   */
+  async releaseBooking(
+    tx: Prisma.TransactionClient,
+    booking: {
+      id: string;
+      slot_id: string | null;
+      parent_order_id: string | null;
+    },
+  ) {
+    if (booking.slot_id) {
+      await TimeSlotHelper.release(tx, booking.slot_id);
+    }
+
+    await this.releasePendingRescheduleRequests(tx, booking.id);
+
+    // A cancelled retest re-opens the offer on the original MOT booking
+    if (booking.parent_order_id) {
+      await this.reopenRetestOffer(tx, booking.parent_order_id);
+    }
+  }
+
+  /**
+   * Refund a released booking's online payment in full, refresh availability
+   * and offer its slot to the waitlist
+   * @returns The refund, or null when nothing was paid online
+   */
+  async afterBookingReleased(
+    booking: { id: string; garage_id: string | null; slot_id: string | null },
+    refundReason: string,
+    offerToWaitlist = true,
+  ) {
+    const refund = await this.bookingPaymentService.refundIfPaid(
+      booking.id,
+      refundReason,
+    );
+
+    await this.availabilityCache.invalidateGarage(booking.garage_id);
+
+    if (booking.slot_id && offerToWaitlist) {
+      await this.waitlistService.offerFreedSlot(booking.slot_id);
+    }
+
+    return refund;
+  }
+
   // Reschedule a booking to a new slot or custom time
   async rescheduleBooking(garageId: string, body: RescheduleBookingDto) {
+    const result = await this.prisma.$transaction((tx) =>
+      this.moveBooking(tx, garageId, body),
+    );
+
+    await this.availabilityCache.invalidateGarage(garageId);
+    return result;
+  }
+
+  /**
+   * Move a booking to a new slot inside the caller's transaction
+   */
+  async moveBooking(
+    tx: Prisma.TransactionClient,
+    garageId: string,
+    body: RescheduleBookingDto,
+  ) {
     const { booking_id, slot_id, date, start_time, end_time, reason } = body;
 
     if (!booking_id) {
@@ -405,20 +649,22 @@ export class GarageBookingService {
     }
 
     // Fetch booking
-    const booking = await this.prisma.order.findFirst({
+    const booking = await tx.order.findFirst({
       where: { id: booking_id, garage_id: garageId },
-      select: { id: true, status: true, slot_id: true, driver_id: true },
+      select: {
+        id: true,
+        status: true,
+        slot_id: true,
+        driver_id: true,
+        slot: { select: { end_datetime: true, base_end_datetime: true } },
+      },
     });
 
     if (!booking) throw new NotFoundException('Booking not found');
 
-    if (
-      booking.status === OrderStatus.CANCELLED ||
-      booking.status === OrderStatus.REJECTED ||
-      booking.status === OrderStatus.COMPLETED
-    ) {
+    if (this.bookingStatusService.isFinal(booking.status)) {
       throw new BadRequestException(
-        `Cannot reschedule a ${booking.status.toLowerCase()} booking`,
+        `Cannot reschedule a ${booking.status.toLowerCase().replace('_', '-')} booking`,
       );
     }
 
@@ -427,132 +673,460 @@ export class GarageBookingService {
     let startDateTime: Date | null = null;
     let endDateTime: Date | null = null;
 
-    return await this.prisma.$transaction(async (tx) => {
-      // If existing slot id provided: validate availability
-      if (slot_id) {
-        targetSlot = await tx.timeSlot.findFirst({
-          where: {
-            id: slot_id,
+    // If existing slot id provided: validate availability
+    if (slot_id) {
+      targetSlot = await tx.timeSlot.findFirst({
+        where: {
+          id: slot_id,
+          garage_id: garageId,
+          is_available: true,
+          is_blocked: false,
+          order_id: null,
+        },
+      });
+
+      if (!targetSlot)
+        throw new ConflictException('Target slot is not available');
+
+      // Prevent past reschedule
+      if (new Date(targetSlot.start_datetime) < new Date()) {
+        throw new BadRequestException('Cannot reschedule to a past time');
+      }
+
+      startDateTime = new Date(targetSlot.start_datetime);
+      endDateTime = new Date(targetSlot.end_datetime);
+    } else {
+      // Create/find a slot from custom date/time (wall clock in the garage's time zone)
+      const schedule = await tx.schedule.findUnique({
+        where: { garage_id: garageId },
+        select: { time_zone: true },
+      });
+      const timeZone = schedule?.time_zone ?? DEFAULT_TIME_ZONE;
+      startDateTime = TimezoneHelper.toInstant(date, start_time, timeZone);
+      endDateTime = TimezoneHelper.toInstant(date, end_time, timeZone);
+
+      // Validate schedule/holiday/break and duration
+      await this.validateSlotIsBookableForGarage(
+        garageId,
+        startDateTime,
+        endDateTime,
+        tx,
+      );
+
+      // Find a bay with no booking, block or hold at this time
+      const freeBay = await this.garageScheduleService.findFreeBay(
+        tx,
+        garageId,
+        startDateTime,
+        endDateTime,
+      );
+
+      if (!freeBay) {
+        throw new ConflictException(
+          'This time is already fully booked or blocked',
+        );
+      }
+
+      targetSlot = freeBay.slot;
+
+      if (!targetSlot) {
+        // Create slot shell (available=false until linked)
+        targetSlot = await tx.timeSlot.create({
+          data: {
             garage_id: garageId,
-            is_available: true,
+            start_datetime: startDateTime,
+            end_datetime: endDateTime,
+            bay: freeBay.bay,
+            is_available: false,
             is_blocked: false,
-            order_id: null,
+            modification_type: 'TIME_MODIFIED',
+            modified_by: garageId,
+            modification_reason: reason || 'Booking rescheduled',
           },
         });
+      }
+    }
 
-        if (!targetSlot)
-          throw new ConflictException('Target slot is not available');
-
-        // Prevent past reschedule
-        if (new Date(targetSlot.start_datetime) < new Date()) {
-          throw new BadRequestException('Cannot reschedule to a past time');
-        }
-
-        startDateTime = new Date(targetSlot.start_datetime);
-        endDateTime = new Date(targetSlot.end_datetime);
-      } else {
-        // Create/find a slot from custom date/time
-        startDateTime = new Date(`${date}T${start_time}:00`);
-        endDateTime = new Date(`${date}T${end_time}:00`);
+    // Add-ons with a duration extended the old slot; extend the new one alike
+    const extraMinutes = booking.slot?.base_end_datetime
+      ? (booking.slot.end_datetime.getTime() -
+          booking.slot.base_end_datetime.getTime()) /
+        60000
+      : 0;
+    const targetEnd = TimeSlotHelper.extendedEnd(targetSlot, extraMinutes);
+
+    if (extraMinutes > 0) {
+      await this.validateSlotIsBookableForGarage(
+        garageId,
+        startDateTime,
+        targetEnd.end_datetime,
+        tx,
+      );
 
-        // Validate schedule/holiday/break and duration
-        await this.validateSlotIsBookableForGarage(
+      // Only slots in the same bay stand in the way of a longer booking
+      const overlapping =
+        await this.garageScheduleService.findSlotsStartingWithin(
+          tx,
           garageId,
           startDateTime,
-          endDateTime,
-          tx,
+          targetEnd.end_datetime,
+          targetSlot.bay,
+        );
+      if (overlapping.length > 0) {
+        throw new ConflictException(
+          'Not enough free time after the new slot for the additional services of this booking',
         );
+      }
+    }
 
-        // Check for an existing DB slot at this time
-        targetSlot = await tx.timeSlot.findUnique({
-          where: {
-            garage_id_start_datetime: {
-              garage_id: garageId,
-              start_datetime: startDateTime,
-            },
-          },
-        });
+    // Free previous slot if any
+    if (booking.slot_id) {
+      await TimeSlotHelper.release(tx, booking.slot_id, {
+        modification_type: 'TIME_MODIFIED',
+        modified_by: garageId,
+        modification_reason:
+          reason || 'Booking rescheduled - freed previous slot',
+      });
+    }
 
-        if (targetSlot) {
-          if (targetSlot.order_id) {
-            throw new ConflictException(
-              'This time is already booked by someone else',
-            );
-          }
-          if (targetSlot.is_blocked) {
-            throw new BadRequestException('This time is blocked');
-          }
-          if (!targetSlot.is_available) {
-            // conservatively disallow if system marked unavailable
-            throw new BadRequestException('This time is not available');
-          }
-        } else {
-          // Create slot shell (available=false until linked)
-          targetSlot = await tx.timeSlot.create({
-            data: {
-              garage_id: garageId,
-              start_datetime: startDateTime,
-              end_datetime: endDateTime,
-              is_available: false,
-              is_blocked: false,
-              modification_type: 'TIME_MODIFIED',
-              modified_by: garageId,
-              modification_reason: reason || 'Booking rescheduled',
-            },
-          });
-        }
-      }
+    // Assign booking to target slot
+    await tx.timeSlot.update({
+      where: { id: targetSlot.id },
+      data: {
+        order_id: booking.id,
+        is_available: false,
+        ...targetEnd,
+        modification_type: 'TIME_MODIFIED',
+        modified_by: garageId,
+        modification_reason:
+          reason || 'Booking rescheduled - assigned new slot',
+      },
+    });
 
-      // Free previous slot if any
-      if (booking.slot_id) {
-        await tx.timeSlot.update({
-          where: { id: booking.slot_id },
-          data: {
-            order_id: null,
-            is_available: true,
-            modification_type: 'TIME_MODIFIED',
-            modified_by: garageId,
-            modification_reason:
-              reason || 'Booking rescheduled - freed previous slot',
+    // Update order's slot reference and order_date
+    const updated = await tx.order.update({
+      where: { id: booking.id },
+      data: {
+        slot_id: targetSlot.id,
+        order_date: startDateTime!,
+        updated_at: new Date(),
+      },
+      include: {
+        slot: true,
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Booking rescheduled successfully',
+      data: {
+        order_id: updated.id,
+        slot_id: updated.slot_id,
+        new_start: updated.slot?.start_datetime,
+        new_end: updated.slot?.end_datetime,
+      },
+    };
+  }
+
+  // Accept or decline a driver's pending reschedule request for a booking
+  async respondToRescheduleRequest(
+    garageId: string,
+    bookingId: string,
+    accept: boolean,
+    note?: string,
+  ) {
+    const request = await this.prisma.rescheduleRequest.findFirst({
+      where: {
+        order_id: bookingId,
+        status: RescheduleRequestStatus.PENDING,
+        order: { garage_id: garageId },
+      },
+      include: {
+        order: {
+          select: {
+            id: true,
+            slot_id: true,
+            driver_id: true,
+            garage_id: true,
+            garage: { select: { garage_name: true } },
           },
-        });
+        },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundException(
+        'No pending reschedule request found for this booking',
+      );
+    }
+
+    if (request.expires_at <= new Date()) {
+      await this.expireRescheduleRequest(request);
+      throw new BadRequestException(
+        'This reschedule request has expired and the proposed slot was released',
+      );
+    }
+
+    if (accept && !request.slot_id) {
+      throw new ConflictException('The proposed slot no longer exists');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (!accept) {
+        await this.releaseRescheduleHold(
+          tx,
+          request,
+          RescheduleRequestStatus.DECLINED,
+          note,
+        );
+        return;
       }
 
-      // Assign booking to target slot
-      await tx.timeSlot.update({
-        where: { id: targetSlot.id },
+      const conflict = new ConflictException(
+        'This booking or its reschedule request changed in the meantime. Please refresh and try again.',
+      );
+      const now = new Date();
+
+      // Each write is guarded on what was read above; a concurrent change wins
+      const { count: requestCount } = await tx.rescheduleRequest.updateMany({
+        where: { id: request.id, status: RescheduleRequestStatus.PENDING },
         data: {
-          order_id: booking.id,
+          status: RescheduleRequestStatus.ACCEPTED,
+          responded_at: now,
+          response_note: note,
+        },
+      });
+      if (requestCount === 0) throw conflict;
+
+      // Convert the held slot into the booking slot
+      const { count: slotCount } = await tx.timeSlot.updateMany({
+        where: {
+          id: request.slot_id,
+          order_id: null,
+          held_until: { gt: now },
+        },
+        data: {
+          order_id: request.order.id,
           is_available: false,
+          held_until: null,
           modification_type: 'TIME_MODIFIED',
           modified_by: garageId,
           modification_reason:
-            reason || 'Booking rescheduled - assigned new slot',
+            request.reason || 'Driver reschedule accepted - assigned new slot',
         },
       });
+      if (slotCount === 0) throw conflict;
 
-      // Update order's slot reference and order_date
-      const updated = await tx.order.update({
-        where: { id: booking.id },
+      const { count: orderCount } = await tx.order.updateMany({
+        where: {
+          id: request.order.id,
+          status: { in: [OrderStatus.PENDING, OrderStatus.ACCEPTED] },
+          slot_id: request.order.slot_id,
+        },
         data: {
-          slot_id: targetSlot.id,
-          order_date: startDateTime!,
+          slot_id: request.slot_id,
+          order_date: request.requested_start,
+        },
+      });
+      if (orderCount === 0) throw conflict;
+
+      // Free the current slot
+      if (request.order.slot_id) {
+        await TimeSlotHelper.release(tx, request.order.slot_id, {
+          modification_type: 'TIME_MODIFIED',
+          modified_by: garageId,
+          modification_reason:
+            'Driver reschedule accepted - freed previous slot',
+        });
+      }
+    });
+
+    await this.markNotificationActionTaken(request.notification_id);
+
+    const timeZone =
+      await this.garageScheduleService.getGarageTimeZone(garageId);
+    const requestedDate = request.requested_start.toLocaleDateString('en-GB', {
+      timeZone,
+    });
+    const requestedTime = this.formatTime24Hour(
+      request.requested_start,
+      timeZone,
+    );
+
+    if (request.order.driver_id) {
+      await this.notificationService.create({
+        receiver_id: request.order.driver_id,
+        sender_id: garageId,
+        type: NotificationType.BOOKING,
+        text: accept
+          ? `${request.order.garage?.garage_name || 'The garage'} accepted your request to move your booking to ${requestedDate} at ${requestedTime}.`
+          : `${request.order.garage?.garage_name || 'The garage'} declined your request to move your booking to ${requestedDate} at ${requestedTime}.${note ? ` ${note}` : ''}`,
+        entity_id: request.order.id,
+      });
+    }
+
+    await this.availabilityCache.invalidateGarage(garageId);
+
+    return {
+      success: true,
+      message: accept
+        ? 'Reschedule request accepted'
+        : 'Reschedule request declined',
+      data: {
+        request_id: request.id,
+        order_id: request.order.id,
+        status: accept
+          ? RescheduleRequestStatus.ACCEPTED
+          : RescheduleRequestStatus.DECLINED,
+        new_start: accept ? request.requested_start : undefined,
+        new_end: accept ? request.requested_end : undefined,
+      },
+    };
+  }
+
+  /**
+   * Release holds of reschedule requests the garage did not answer in time
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async expireRescheduleRequests() {
+    try {
+      const expired = await this.prisma.rescheduleRequest.findMany({
+        where: {
+          status: RescheduleRequestStatus.PENDING,
+          expires_at: { lte: new Date() },
         },
         include: {
-          slot: true,
+          order: {
+            select: {
+              id: true,
+              driver_id: true,
+              garage_id: true,
+              garage: { select: { garage_name: true } },
+            },
+          },
         },
       });
 
-      return {
-        success: true,
-        message: 'Booking rescheduled successfully',
-        data: {
-          order_id: updated.id,
-          slot_id: updated.slot_id,
-          new_start: updated.slot?.start_datetime,
-          new_end: updated.slot?.end_datetime,
-        },
-      };
+      for (const request of expired) {
+        await this.expireRescheduleRequest(request);
+      }
+
+      if (expired.length > 0) {
+        this.logger.log(`Expired ${expired.length} reschedule request(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to expire reschedule requests: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Cancel any pending reschedule request for a booking and release its held slot.
+   * Used when the booking itself is cancelled or rejected.
+   */
+  async releasePendingRescheduleRequests(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ) {
+    const pending = await tx.rescheduleRequest.findMany({
+      where: { order_id: orderId, status: RescheduleRequestStatus.PENDING },
+    });
+
+    for (const request of pending) {
+      await this.releaseRescheduleHold(
+        tx,
+        request,
+        RescheduleRequestStatus.CANCELLED,
+      );
+      await this.markNotificationActionTaken(request.notification_id, tx);
+    }
+  }
+
+  /**
+   * Make a booked retest offer available again (its retest booking was cancelled)
+   */
+  async reopenRetestOffer(tx: Prisma.TransactionClient, orderId: string) {
+    await tx.order.updateMany({
+      where: {
+        id: orderId,
+        retest_status: RetestOfferStatus.BOOKED,
+        retest_deadline: { gt: new Date() },
+      },
+      data: { retest_status: RetestOfferStatus.OFFERED },
+    });
+  }
+
+  private async expireRescheduleRequest(request: {
+    id: string;
+    slot_id: string | null;
+    notification_id: string | null;
+    requested_start: Date;
+    order: {
+      id: string;
+      driver_id: string | null;
+      garage_id: string | null;
+      garage: { garage_name: string | null } | null;
+    };
+  }) {
+    await this.prisma.$transaction((tx) =>
+      this.releaseRescheduleHold(tx, request, RescheduleRequestStatus.EXPIRED),
+    );
+    await this.availabilityCache.invalidateGarage(request.order.garage_id);
+    await this.markNotificationActionTaken(request.notification_id);
+
+    if (request.order.driver_id) {
+      const timeZone = await this.garageScheduleService.getGarageTimeZone(
+        request.order.garage_id,
+      );
+      const requestedDate = request.requested_start.toLocaleDateString(
+        'en-GB',
+        { timeZone },
+      );
+
+      await this.notificationService.create({
+        receiver_id: request.order.driver_id,
+        type: NotificationType.BOOKING,
+        text: `${request.order.garage?.garage_name || 'The garage'} did not respond to your request to move your booking to ${requestedDate}. Your original booking is unchanged.`,
+        entity_id: request.order.id,
+      });
+    }
+  }
+
+  private async releaseRescheduleHold(
+    tx: Prisma.TransactionClient,
+    request: { id: string; slot_id: string | null },
+    status: RescheduleRequestStatus,
+    note?: string,
+  ) {
+    if (request.slot_id) {
+      // Only release if the slot was not booked in the meantime
+      await tx.timeSlot.updateMany({
+        where: { id: request.slot_id, order_id: null },
+        data: { is_available: true, held_until: null },
+      });
+    }
+
+    await tx.rescheduleRequest.update({
+      where: { id: request.id },
+      data: {
+        status,
+        responded_at: new Date(),
+        response_note: note,
+      },
+    });
+  }
+
+  private async markNotificationActionTaken(
+    notificationId: string | null,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (!notificationId) return;
+
+    await tx.notification.updateMany({
+      where: { id: notificationId },
+      data: { is_action_taken: true },
     });
   }
 
@@ -562,9 +1136,14 @@ export class GarageBookingService {
     endDateTime: Date,
     tx: any,
   ): Promise<void> {
-    const schedule = await tx.schedule.findUnique({
-      where: { garage_id: garageId },
-    });
+    // Hours of the schedule version in effect on the booked date
+    const schedule = this.garageScheduleService.resolveScheduleForDate(
+      await tx.schedule.findUnique({
+        where: { garage_id: garageId },
+        include: { versions: true },
+      }),
+      startDateTime,
+    );
 
     if (!schedule?.is_active) {
       throw new BadRequestException('Garage schedule not active');
@@ -574,7 +1153,8 @@ export class GarageBookingService {
       throw new BadRequestException('Cannot reschedule to past dates');
     }
 
-    const dayOfWeek = startDateTime.getDay();
+    const timeZone = schedule.time_zone ?? DEFAULT_TIME_ZONE;
+    const dayOfWeek = TimezoneHelper.dayOfWeek(startDateTime, timeZone);
     const dailyHours = this.parseDailyHours(schedule.daily_hours);
     const dayConfig = dailyHours?.[dayOfWeek];
 
@@ -586,14 +1166,35 @@ export class GarageBookingService {
       ? schedule.restrictions
       : JSON.parse(schedule.restrictions || '[]');
 
-    this.checkHoliday(restrictions, startDateTime, dayOfWeek);
-    this.checkBreakTime(restrictions, startDateTime, endDateTime, dayOfWeek);
+    this.checkHoliday(restrictions, startDateTime, timeZone);
+
+    const dateKey = TimezoneHelper.toDateString(startDateTime, timeZone);
+    const closedDate = (
+      await this.garageScheduleService.getClosedDates(
+        schedule,
+        dateKey,
+        dateKey,
+        tx,
+      )
+    ).get(dateKey);
+    if (closedDate) {
+      throw new BadRequestException(
+        `Cannot reschedule on holidays (${closedDate.label})`,
+      );
+    }
+    this.checkBreakTime(
+      restrictions,
+      startDateTime,
+      endDateTime,
+      dayOfWeek,
+      timeZone,
+    );
     this.checkOperatingHours(
       schedule,
       startDateTime,
       endDateTime,
-      dayOfWeek,
       dayConfig,
+      timeZone,
     );
     this.checkSlotDuration(startDateTime, endDateTime);
   }
@@ -606,11 +1207,13 @@ export class GarageBookingService {
   private checkHoliday(
     restrictions: any[],
     startDateTime: Date,
-    dayOfWeek: number,
+    timeZone: string,
   ): void {
-    const dateStr = startDateTime.toISOString().split('T')[0];
-    const month = startDateTime.getMonth() + 1;
-    const day = startDateTime.getDate();
+    const dateStr = TimezoneHelper.toDateString(startDateTime, timeZone);
+    const { month, day, dayOfWeek } = TimezoneHelper.dateParts(
+      startDateTime,
+      timeZone,
+    );
 
     const isHoliday = restrictions.some((r) => {
       if (r.type !== 'HOLIDAY') return false;
@@ -631,11 +1234,14 @@ export class GarageBookingService {
     startDateTime: Date,
     endDateTime: Date,
     dayOfWeek: number,
+    timeZone: string,
   ): void {
     const startMins = this.parseTimeToMinutes(
-      this.formatTime24Hour(startDateTime),
+      this.formatTime24Hour(startDateTime, timeZone),
+    );
+    const endMins = this.parseTimeToMinutes(
+      this.formatTime24Hour(endDateTime, timeZone),
     );
-    const endMins = this.parseTimeToMinutes(this.formatTime24Hour(endDateTime));
 
     for (const r of restrictions) {
       if (
@@ -658,13 +1264,15 @@ export class GarageBookingService {
     schedule: any,
     startDateTime: Date,
     endDateTime: Date,
-    dayOfWeek: number,
     dayConfig: any,
+    timeZone: string,
   ): void {
     const startMins = this.parseTimeToMinutes(
-      this.formatTime24Hour(startDateTime),
+      this.formatTime24Hour(startDateTime, timeZone),
+    );
+    const endMins = this.parseTimeToMinutes(
+      this.formatTime24Hour(endDateTime, timeZone),
     );
-    const endMins = this.parseTimeToMinutes(this.formatTime24Hour(endDateTime));
 
     let intervals: { start: number; end: number }[] = [];
 
@@ -715,12 +1323,11 @@ export class GarageBookingService {
     return day === dayOfWeek;
   }
 
-  private formatTime24Hour(date: Date): string {
-    return date.toLocaleTimeString('en-GB', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
+  private formatTime24Hour(
+    date: Date,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): string {
+    return TimezoneHelper.formatTime(date, timeZone);
   }
 
   private parseTimeToMinutes(time: string): number {
@@ -0,0 +1,160 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { OrderStatus, ServiceType } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import appConfig from '../../../../config/app.config';
+import {
+  IcalEventStatus,
+  IcalHelper,
+} from '../../../../common/helper/ical.helper';
+
+// Past bookings kept in the feed so recent history stays visible in calendars
+const FEED_HISTORY_DAYS = 90;
+
+const EVENT_STATUS: Record<OrderStatus, IcalEventStatus> = {
+  PENDING: 'TENTATIVE',
+  ACCEPTED: 'CONFIRMED',
+  COMPLETED: 'CONFIRMED',
+  NO_SHOW: 'CONFIRMED',
+  REJECTED: 'CANCELLED',
+  CANCELLED: 'CANCELLED',
+};
+
+@Injectable()
+export class GarageCalendarFeedService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Subscription URL of the garage's bookings feed (the token is created on first use)
+   */
+  async getFeed(garageId: string) {
+    const garage = await this.prisma.user.findUnique({
+      where: { id: garageId },
+      select: { calendar_feed_token: true },
+    });
+
+    if (!garage) {
+      throw new NotFoundException('Garage not found');
+    }
+
+    const token =
+      garage.calendar_feed_token ?? (await this.saveNewToken(garageId));
+
+    return {
+      success: true,
+      message: 'Calendar feed retrieved successfully',
+      data: { url: this.feedUrl(token) },
+    };
+  }
+
+  /**
+   * Replace the feed token; calendars subscribed to the old URL stop updating
+   */
+  async rotateToken(garageId: string) {
+    const token = await this.saveNewToken(garageId);
+
+    return {
+      success: true,
+      message: 'Calendar feed link regenerated successfully',
+      data: { url: this.feedUrl(token) },
+    };
+  }
+
+  /**
+   * iCalendar document of the garage's bookings. Each booking keeps the same UID
+   * for its lifetime, so reschedules move the event and cancellations mark it cancelled.
+   */
+  async buildFeed(token: string): Promise<string> {
+    const garage = token
+      ? await this.prisma.user.findUnique({
+          where: { calendar_feed_token: token },
+          select: {
+            id: true,
+            garage_name: true,
+            schedule: { select: { slot_duration: true } },
+          },
+        })
+      : null;
+
+    if (!garage) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const orders = await this.prisma.order.findMany({
+      where: {
+        garage_id: garage.id,
+        order_date: {
+          gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+      orderBy: { order_date: 'asc' },
+      include: {
+        slot: { select: { start_datetime: true, end_datetime: true } },
+        driver: { select: { name: true, phone_number: true } },
+        vehicle: { select: { registration_number: true } },
+        items: {
+          include: { service: { select: { name: true, type: true } } },
+        },
+      },
+    });
+
+    const slotMinutes = garage.schedule?.slot_duration ?? 60;
+
+    const events = orders.map((order) => {
+      // Cancelled bookings release their slot; fall back to the booked time
+      const start = order.slot?.start_datetime ?? order.order_date;
+      const end =
+        order.slot?.end_datetime ??
+        new Date(start.getTime() + slotMinutes * 60 * 1000);
+      const mainService = order.items.find(
+        (item) => item.service?.type !== ServiceType.ADDITIONAL,
+      );
+      const addOns = order.items
+        .filter((item) => item.service?.type === ServiceType.ADDITIONAL)
+        .map((item) => item.service.name);
+      const registration = order.vehicle?.registration_number;
+
+      return {
+        uid: IcalHelper.bookingUid(order.id),
+        start,
+        end,
+        summary: [mainService?.service?.name ?? 'Booking', registration]
+          .filter(Boolean)
+          .join(' - '),
+        description: [
+          `Driver: ${order.driver?.name || 'N/A'}`,
+          `Phone: ${order.driver?.phone_number || 'N/A'}`,
+          `Vehicle: ${registration || 'N/A'}`,
+          `Additional services: ${addOns.join(', ') || 'None'}`,
+          `Status: ${order.status}`,
+        ].join('\n'),
+        status: EVENT_STATUS[order.status],
+        lastModified: order.updated_at,
+        sequence: Math.max(
+          0,
+          Math.floor(
+            (order.updated_at.getTime() - order.created_at.getTime()) / 1000,
+          ),
+        ),
+      };
+    });
+
+    return IcalHelper.buildCalendar({
+      name: `${garage.garage_name || 'Garage'} bookings`,
+      events,
+    });
+  }
+
+  private async saveNewToken(garageId: string): Promise<string> {
+    const token = randomBytes(24).toString('hex');
+    await this.prisma.user.update({
+      where: { id: garageId },
+      data: { calendar_feed_token: token },
+    });
+    return token;
+  }
+
+  private feedUrl(token: string): string {
+    return `${appConfig().app.url}/api/garage-dashboard/calendar.ics?token=${token}`;
+  }
+}
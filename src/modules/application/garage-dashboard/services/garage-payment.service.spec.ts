@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentStatus, PaymentType } from '@prisma/client';
+import { StripePayment } from '../../../../common/lib/Payment/stripe/StripePayment';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { GaragePaymentService } from './garage-payment.service';
+
+// The real Stripe client needs an API key
+jest.mock('../../../../common/lib/Payment/stripe/StripePayment', () => ({
+  StripePayment: {
+    createTransfer: jest.fn(),
+    retrievePaymentIntent: jest.fn(),
+  },
+}));
+
+describe('GaragePaymentService', () => {
+  const stripe = jest.mocked(StripePayment);
+
+  const completedOrder = {
+    id: 'order-1',
+    garage_id: 'garage-1',
+    paid_amount: 50,
+    refunded_amount: 10,
+    garage: { stripe_account_id: 'acct_1' },
+    payment_transactions: [{ reference_number: 'pi_1' }],
+  };
+
+  const prisma = {
+    order: { findMany: jest.fn() },
+    setting: { findUnique: jest.fn() },
+    paymentTransaction: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  let service: GaragePaymentService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    prisma.order.findMany.mockResolvedValue([completedOrder]);
+    prisma.setting.findUnique.mockResolvedValue({ default_value: '10' });
+    prisma.paymentTransaction.findFirst.mockResolvedValue(null);
+    prisma.paymentTransaction.create.mockResolvedValue({ id: 'payout-row-1' });
+    stripe.retrievePaymentIntent.mockResolvedValue({
+      latest_charge: 'ch_1',
+    } as Awaited<ReturnType<typeof StripePayment.retrievePaymentIntent>>);
+    stripe.createTransfer.mockResolvedValue({
+      id: 'tr_1',
+    } as Awaited<ReturnType<typeof StripePayment.createTransfer>>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GaragePaymentService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(GaragePaymentService);
+  });
+
+  describe('processPendingPayouts', () => {
+    it('records the payout, then transfers the net revenue from the booking charge', async () => {
+      await service.processPendingPayouts();
+
+      // 50 paid - 10 refunded = 40, less the 10% platform fee
+      expect(prisma.paymentTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: PaymentType.PAYOUT,
+          status: PaymentStatus.PENDING,
+          amount: 36,
+          platform_fee: 4,
+          order_id: 'order-1',
+        }),
+      });
+      expect(stripe.createTransfer).toHaveBeenCalledWith(
+        'acct_1',
+        36,
+        'gbp',
+        { type: PaymentType.PAYOUT, order_id: 'order-1' },
+        'payout-payout-row-1-3600',
+        'ch_1',
+      );
+      expect(
+        prisma.paymentTransaction.create.mock.invocationCallOrder[0],
+      ).toBeLessThan(stripe.createTransfer.mock.invocationCallOrder[0]);
+      expect(prisma.paymentTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'payout-row-1' },
+        data: expect.objectContaining({
+          status: PaymentStatus.PAID,
+          reference_number: 'tr_1',
+        }),
+      });
+    });
+
+    it('reuses a failed payout with a new key once the amount changed', async () => {
+      prisma.paymentTransaction.findFirst.mockResolvedValue({
+        id: 'payout-row-0',
+      });
+      prisma.paymentTransaction.update.mockResolvedValue({
+        id: 'payout-row-0',
+      });
+
+      await service.processPendingPayouts();
+
+      expect(prisma.paymentTransaction.create).not.toHaveBeenCalled();
+      expect(prisma.paymentTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'payout-row-0' },
+        data: expect.objectContaining({
+          status: PaymentStatus.PENDING,
+          amount: 36,
+          raw_status: null,
+        }),
+      });
+      expect(stripe.createTransfer).toHaveBeenCalledWith(
+        'acct_1',
+        36,
+        'gbp',
+        expect.anything(),
+        'payout-payout-row-0-3600',
+        'ch_1',
+      );
+    });
+
+    it('marks the payout failed for the next run when Stripe refuses it', async () => {
+      stripe.createTransfer.mockRejectedValue(new Error('insufficient funds'));
+
+      await service.processPendingPayouts();
+
+      expect(prisma.paymentTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'payout-row-1' },
+        data: {
+          status: PaymentStatus.FAILED,
+          raw_status: 'insufficient funds',
+        },
+      });
+    });
+
+    it('skips bookings refunded in full', async () => {
+      prisma.order.findMany.mockResolvedValue([
+        { ...completedOrder, refunded_amount: 50 },
+      ]);
+
+      await service.processPendingPayouts();
+
+      expect(prisma.paymentTransaction.create).not.toHaveBeenCalled();
+      expect(stripe.createTransfer).not.toHaveBeenCalled();
+    });
+  });
+});
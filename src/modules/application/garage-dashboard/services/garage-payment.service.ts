@@ -1,5 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OrderStatus, PaymentStatus, PaymentType } from '@prisma/client';
 import { PrismaService } from '../../../../prisma/prisma.service';
+import { SettingHelper } from '../../../../common/helper/setting.helper';
+import { StripePayment } from 'src/common/lib/Payment/stripe/StripePayment';
+
+const PAYOUT_CURRENCY = 'gbp';
 
 @Injectable()
 export class GaragePaymentService {
@@ -7,21 +18,418 @@ export class GaragePaymentService {
 
   constructor(private prisma: PrismaService) {}
 
-  async getPayments(userId: string) {
-    // TODO: Implement in Chapter 5
+  /**
+   * Payout history plus the Stripe Connect balance of the garage
+   */
+  async getPayments(userId: string, page: number = 1, limit: number = 10) {
+    const skip = (page - 1) * limit;
+    const where = {
+      garage_id: userId,
+      type: { in: [PaymentType.PAYOUT, PaymentType.PAYOUT_REVERSAL] },
+    };
+
+    const [garage, payouts, total, totals, reversed] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { stripe_account_id: true, stripe_payouts_enabled: true },
+      }),
+      this.prisma.paymentTransaction.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+        select: {
+          id: true,
+          type: true,
+          order_id: true,
+          reference_number: true,
+          status: true,
+          amount: true,
+          platform_fee: true,
+          currency: true,
+          created_at: true,
+        },
+      }),
+      this.prisma.paymentTransaction.count({ where }),
+      this.prisma.paymentTransaction.aggregate({
+        where: {
+          garage_id: userId,
+          type: PaymentType.PAYOUT,
+          status: PaymentStatus.PAID,
+        },
+        _sum: { amount: true, platform_fee: true },
+      }),
+      this.prisma.paymentTransaction.aggregate({
+        where: {
+          garage_id: userId,
+          type: PaymentType.PAYOUT_REVERSAL,
+          status: PaymentStatus.PAID,
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    let balance = null;
+    if (garage?.stripe_account_id) {
+      try {
+        const stripeBalance = await StripePayment.checkBalance(
+          garage.stripe_account_id,
+        );
+        balance = {
+          available: this.sumBalance(stripeBalance.available),
+          pending: this.sumBalance(stripeBalance.pending),
+          currency: PAYOUT_CURRENCY,
+        };
+      } catch (error) {
+        this.logger.warn(
+          `Could not load Stripe balance for garage ${userId}: ${error.message}`,
+        );
+      }
+    }
+
     return {
       success: true,
       message: 'Payments retrieved successfully',
-      data: [],
+      data: {
+        connect: {
+          connected: !!garage?.stripe_account_id,
+          payouts_enabled: garage?.stripe_payouts_enabled ?? false,
+        },
+        balance,
+        // Net of the refunded shares taken back after payout
+        total_paid_out:
+          Math.round(
+            (Number(totals._sum.amount || 0) -
+              Number(reversed._sum.amount || 0)) *
+              100,
+          ) / 100,
+        total_platform_fees: Number(totals._sum.platform_fee || 0),
+        payouts: payouts.map((payout) => ({
+          ...payout,
+          amount: payout.amount?.toString() || '0',
+          platform_fee: payout.platform_fee?.toString() || '0',
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
     };
   }
 
   async getPayment(userId: string, paymentId: string) {
-    // TODO: Implement in Chapter 5
+    const payment = await this.prisma.paymentTransaction.findFirst({
+      where: { id: paymentId, garage_id: userId },
+      select: {
+        id: true,
+        type: true,
+        reference_number: true,
+        status: true,
+        amount: true,
+        platform_fee: true,
+        currency: true,
+        created_at: true,
+        order: {
+          select: {
+            id: true,
+            order_date: true,
+            total_amount: true,
+            paid_amount: true,
+            refunded_amount: true,
+            vehicle: { select: { registration_number: true } },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
     return {
       success: true,
       message: 'Payment retrieved successfully',
-      data: {},
+      data: payment,
+    };
+  }
+
+  /**
+   * Create the garage's Stripe Connect account if needed and return an onboarding link
+   */
+  async createConnectOnboardingLink(userId: string) {
+    const garage = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, stripe_account_id: true },
+    });
+
+    if (!garage) {
+      throw new NotFoundException('Garage not found');
+    }
+
+    let accountId = garage.stripe_account_id;
+    if (!accountId) {
+      if (!garage.email) {
+        throw new BadRequestException(
+          'An email address is required to set up payouts',
+        );
+      }
+
+      const account = await StripePayment.createConnectedAccount(
+        garage.email,
+        'GB',
+      );
+      accountId = account.id;
+
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { stripe_account_id: accountId },
+      });
+    }
+
+    const accountLink =
+      await StripePayment.createOnboardingAccountLink(accountId);
+
+    return {
+      success: true,
+      message: 'Onboarding link created successfully',
+      data: {
+        account_id: accountId,
+        url: accountLink.url,
+        expires_at: new Date(accountLink.expires_at * 1000),
+      },
+    };
+  }
+
+  /**
+   * Refresh and return the onboarding status of the garage's Connect account
+   */
+  async getConnectStatus(userId: string) {
+    const garage = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { stripe_account_id: true },
+    });
+
+    if (!garage?.stripe_account_id) {
+      return {
+        success: true,
+        message: 'Payout account status retrieved successfully',
+        data: { connected: false, payouts_enabled: false },
+      };
+    }
+
+    const account = await StripePayment.retrieveAccount(
+      garage.stripe_account_id,
+    );
+    await this.syncConnectAccount(account);
+
+    return {
+      success: true,
+      message: 'Payout account status retrieved successfully',
+      data: {
+        connected: true,
+        account_id: account.id,
+        details_submitted: account.details_submitted,
+        payouts_enabled: !!(account.payouts_enabled && account.charges_enabled),
+        requirements: account.requirements?.currently_due || [],
+      },
     };
   }
+
+  /**
+   * Store whether a Connect account can receive payouts (also used by the account.updated webhook)
+   */
+  async syncConnectAccount(account: {
+    id: string;
+    payouts_enabled?: boolean;
+    charges_enabled?: boolean;
+  }) {
+    await this.prisma.user.updateMany({
+      where: { stripe_account_id: account.id },
+      data: {
+        stripe_payouts_enabled: !!(
+          account.payouts_enabled && account.charges_enabled
+        ),
+      },
+    });
+  }
+
+  /**
+   * Transfer the online revenue of completed and no-show bookings to the garages' Connect accounts
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async processPendingPayouts() {
+    try {
+      const orders = await this.prisma.order.findMany({
+        where: {
+          // A no-show forfeits the online payment to the garage
+          status: { in: [OrderStatus.COMPLETED, OrderStatus.NO_SHOW] },
+          payment_status: {
+            in: [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED],
+          },
+          garage: {
+            stripe_account_id: { not: null },
+            stripe_payouts_enabled: true,
+          },
+          payment_transactions: {
+            none: {
+              type: PaymentType.PAYOUT,
+              status: { in: [PaymentStatus.PENDING, PaymentStatus.PAID] },
+            },
+          },
+        },
+        include: {
+          garage: { select: { stripe_account_id: true } },
+          payment_transactions: {
+            where: { type: PaymentType.ORDER, status: PaymentStatus.PAID },
+            select: { reference_number: true },
+            take: 1,
+          },
+        },
+        take: 100,
+      });
+
+      if (orders.length === 0) {
+        return;
+      }
+
+      const feePercent = await SettingHelper.getNumber(
+        this.prisma,
+        'PLATFORM_FEE_PERCENT',
+        10,
+      );
+
+      for (const order of orders) {
+        await this.transferOrderRevenue(order, feePercent);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process garage payouts: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async transferOrderRevenue(
+    order: {
+      id: string;
+      garage_id: string;
+      paid_amount: any;
+      refunded_amount: any;
+      garage: { stripe_account_id: string | null };
+      payment_transactions: { reference_number: string | null }[];
+    },
+    feePercent: number,
+  ) {
+    const netPaid =
+      Number(order.paid_amount || 0) - Number(order.refunded_amount || 0);
+    const platformFee = Math.round(netPaid * feePercent) / 100;
+    const amount = Math.round((netPaid - platformFee) * 100) / 100;
+
+    if (amount <= 0) {
+      return;
+    }
+
+    // Recorded before the transfer so a crash in between can't pay twice:
+    // a PENDING payout keeps the booking out of later runs. A failed
+    // attempt is reused rather than piling up in the payout history.
+    const failed = await this.prisma.paymentTransaction.findFirst({
+      where: {
+        order_id: order.id,
+        type: PaymentType.PAYOUT,
+        status: PaymentStatus.FAILED,
+      },
+      select: { id: true },
+    });
+    const payoutData = {
+      status: PaymentStatus.PENDING,
+      amount,
+      platform_fee: platformFee,
+      currency: PAYOUT_CURRENCY,
+    };
+    const payout = failed
+      ? await this.prisma.paymentTransaction.update({
+          where: { id: failed.id },
+          data: { ...payoutData, raw_status: null },
+        })
+      : await this.prisma.paymentTransaction.create({
+          data: {
+            ...payoutData,
+            user_id: order.garage_id,
+            garage_id: order.garage_id,
+            order_id: order.id,
+            type: PaymentType.PAYOUT,
+            provider: 'stripe',
+          },
+        });
+
+    let transferId: string;
+    try {
+      const chargeId = await this.getChargeId(
+        order.payment_transactions[0]?.reference_number,
+      );
+
+      // Retries of this payout and amount reuse the key, so Stripe returns the
+      // transfer it already made; a changed amount is a new transfer
+      const transfer = await StripePayment.createTransfer(
+        order.garage.stripe_account_id,
+        amount,
+        PAYOUT_CURRENCY,
+        { type: PaymentType.PAYOUT, order_id: order.id },
+        `payout-${payout.id}-${Math.round(amount * 100)}`,
+        chargeId,
+      );
+      transferId = transfer.id;
+    } catch (error) {
+      // Marked failed so the next run retries it
+      await this.prisma.paymentTransaction.update({
+        where: { id: payout.id },
+        data: { status: PaymentStatus.FAILED, raw_status: error.message },
+      });
+      this.logger.error(
+        `Failed to transfer revenue for booking ${order.id}: ${error.message}`,
+      );
+      return;
+    }
+
+    try {
+      await this.prisma.paymentTransaction.update({
+        where: { id: payout.id },
+        data: {
+          status: PaymentStatus.PAID,
+          reference_number: transferId,
+          paid_amount: amount,
+          paid_currency: PAYOUT_CURRENCY,
+        },
+      });
+    } catch (error) {
+      // Stays PENDING: never retried, needs matching to the transfer by hand
+      this.logger.error(
+        `Transfer ${transferId} for booking ${order.id} made but not recorded: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Charge behind a booking's PaymentIntent, which funds its payout
+   */
+  private async getChargeId(paymentIntentId: string | null | undefined) {
+    if (!paymentIntentId) {
+      return undefined;
+    }
+
+    const paymentIntent =
+      await StripePayment.retrievePaymentIntent(paymentIntentId);
+    const charge = paymentIntent.latest_charge;
+    return (typeof charge === 'string' ? charge : charge?.id) ?? undefined;
+  }
+
+  private sumBalance(entries: { amount: number; currency: string }[]) {
+    return (
+      entries
+        .filter((entry) => entry.currency === PAYOUT_CURRENCY)
+        .reduce((sum, entry) => sum + entry.amount, 0) / 100
+    );
+  }
 }
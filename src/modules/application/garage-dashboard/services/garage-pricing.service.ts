@@ -101,7 +101,7 @@ export class GaragePricingService {
     }
 
     // =========================
-    // ADDITIONAL (SKIP EXISTING, CREATE NEW)
+    // ADDITIONAL (UPDATE EXISTING, CREATE NEW)
     // =========================
     const additionalResults = [];
 
@@ -136,11 +136,27 @@ export class GaragePricingService {
       for (const add of additionals) {
         const normalized = add.name.trim().toLowerCase();
 
-        // 🔹 Skip if already exists
+        // 🔹 Existing: only update price / duration when provided
         if (dbNames.has(normalized)) {
-          additionalResults.push(
-            dbAdditional.find((db) => db.name === add.name),
+          const existing = dbAdditional.find(
+            (db) => db.name.trim().toLowerCase() === normalized,
           );
+
+          if (add.price === undefined && add.duration_minutes === undefined) {
+            additionalResults.push(existing);
+            continue;
+          }
+
+          const updated = await this.prisma.service.update({
+            where: { id: existing.id },
+            data: {
+              ...(add.price !== undefined && { price: add.price }),
+              ...(add.duration_minutes !== undefined && {
+                duration_minutes: add.duration_minutes,
+              }),
+            },
+          });
+          additionalResults.push(updated);
           continue;
         }
 
@@ -148,7 +164,8 @@ export class GaragePricingService {
           data: {
             garage_id: garageId,
             name: add.name,
-            price: null,
+            price: add.price ?? null,
+            duration_minutes: add.duration_minutes ?? null,
             type: ServiceType.ADDITIONAL,
           },
         });
@@ -0,0 +1,123 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { NotificationService } from '../../notification/notification.service';
+import { NotificationType } from 'src/common/repository/notification/notification.repository';
+
+@Injectable()
+export class GarageReviewService {
+  private readonly logger = new Logger(GarageReviewService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Reviews left for the garage (hidden ones included) with its public rating
+   */
+  async getReviews(garageId: string, page: number = 1, limit: number = 10) {
+    const skip = (page - 1) * limit;
+    const where = { garage_id: garageId };
+
+    const [reviews, total, summary] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+        select: {
+          id: true,
+          order_id: true,
+          rating: true,
+          comment: true,
+          reply: true,
+          replied_at: true,
+          status: true,
+          created_at: true,
+          driver: { select: { name: true } },
+          order: {
+            select: {
+              order_date: true,
+              vehicle: { select: { registration_number: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.review.count({ where }),
+      this.prisma.review.aggregate({
+        where: { ...where, status: ReviewStatus.PUBLISHED },
+        _avg: { rating: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: 'Reviews retrieved successfully',
+      data: {
+        average_rating:
+          summary._avg.rating !== null
+            ? Math.round(summary._avg.rating * 10) / 10
+            : null,
+        review_count: summary._count._all,
+        reviews,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  /**
+   * Add or update the garage's public reply to a review
+   */
+  async replyToReview(garageId: string, reviewId: string, reply: string) {
+    const review = await this.prisma.review.findFirst({
+      where: { id: reviewId, garage_id: garageId },
+      include: { garage: { select: { garage_name: true } } },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const updated = await this.prisma.review.update({
+      where: { id: review.id },
+      data: {
+        reply: reply.trim(),
+        replied_at: new Date(),
+        updated_at: new Date(),
+      },
+    });
+
+    if (review.driver_id) {
+      try {
+        await this.notificationService.create({
+          receiver_id: review.driver_id,
+          sender_id: garageId,
+          type: NotificationType.REVIEW,
+          text: `${review.garage?.garage_name || 'The garage'} replied to your review`,
+          entity_id: review.id,
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Failed to notify driver of reply to review ${review.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Reply saved successfully',
+      data: {
+        id: updated.id,
+        reply: updated.reply,
+        replied_at: updated.replied_at,
+      },
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { OrderStatus } from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { MailService } from '../../../../mail/mail.service';
+import { NotificationService } from '../../notification/notification.service';
+import { SlotAvailabilityCacheService } from '../../slot-availability/slot-availability-cache.service';
+import {
+  AffectedBooking,
+  BookingConflictResolution,
+} from '../dto/booking-conflict.dto';
+import { GarageBookingService } from './garage-booking.service';
+import { GarageScheduleConflictService } from './garage-schedule-conflict.service';
+import { GarageScheduleService } from './garage-schedule.service';
+
+// The booking services pull in the Stripe client, which needs an API key
+jest.mock('../../../../common/lib/Payment/stripe/StripePayment', () => ({
+  StripePayment: {},
+}));
+
+describe('GarageScheduleConflictService', () => {
+  const booking: AffectedBooking = {
+    order_id: 'order-1',
+    slot_id: 'slot-1',
+    driver_id: 'driver-1',
+    status: OrderStatus.ACCEPTED,
+    date: '2026-12-25',
+    start_time: '09:00',
+    end_time: '10:00',
+    start_datetime: new Date('2026-12-25T09:00:00.000Z'),
+    end_datetime: new Date('2026-12-25T10:00:00.000Z'),
+  };
+  const holiday = {
+    type: 'HOLIDAY' as const,
+    month: 12,
+    day: 25,
+    description: 'Christmas',
+  };
+  const events: string[] = [];
+
+  const tx = { marker: 'tx' };
+  const prisma = {
+    $transaction: jest.fn(async (callback: (client: unknown) => unknown) => {
+      const result = await callback(tx);
+      events.push('commit');
+      return result;
+    }),
+    user: { findUnique: jest.fn() },
+    order: { findUnique: jest.fn() },
+    schedule: { findUnique: jest.fn() },
+  };
+  const scheduleService = {
+    findBookingsAffectedByHoliday: jest.fn(),
+    findAlternativeSlots: jest.fn(),
+    validateHoliday: jest.fn(),
+    applyHoliday: jest.fn(),
+  };
+  const bookingService = {
+    moveBooking: jest.fn(),
+    applyStatusChange: jest.fn(),
+    completeStatusChange: jest.fn(),
+  };
+  const notificationService = { create: jest.fn() };
+  const mailService = { sendBookingCancellationEmail: jest.fn() };
+  const availabilityCache = { invalidateGarage: jest.fn() };
+
+  let service: GarageScheduleConflictService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    events.length = 0;
+
+    scheduleService.findBookingsAffectedByHoliday.mockResolvedValue([booking]);
+    scheduleService.findAlternativeSlots.mockResolvedValue([
+      {
+        date: '2026-12-24',
+        start_time: '09:00',
+        end_time: '10:00',
+        start_datetime: new Date('2026-12-24T09:00:00.000Z'),
+        end_datetime: new Date('2026-12-24T10:00:00.000Z'),
+        remaining_capacity: 1,
+      },
+    ]);
+    scheduleService.validateHoliday.mockResolvedValue(undefined);
+    scheduleService.applyHoliday.mockImplementation(async () => {
+      events.push('apply');
+      return { success: true, message: 'Holiday added successfully' };
+    });
+    bookingService.applyStatusChange.mockImplementation(async () => {
+      events.push('cancel');
+      return { booking: { id: 'order-1' }, order: {} };
+    });
+    notificationService.create.mockImplementation(async () => {
+      events.push('notify');
+    });
+    prisma.user.findUnique.mockResolvedValue({ garage_name: 'Test Garage' });
+    prisma.order.findUnique.mockResolvedValue({
+      driver: { id: 'driver-1', name: 'Sam', email: null },
+      garage: { garage_name: 'Test Garage' },
+      vehicle: { registration_number: 'AB12CDE' },
+      items: [],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GarageScheduleConflictService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: GarageScheduleService, useValue: scheduleService },
+        { provide: GarageBookingService, useValue: bookingService },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: MailService, useValue: mailService },
+        { provide: SlotAvailabilityCacheService, useValue: availabilityCache },
+      ],
+    }).compile();
+
+    service = module.get(GarageScheduleConflictService);
+  });
+
+  it('leaves bookings alone when the holiday itself is refused', async () => {
+    scheduleService.validateHoliday.mockRejectedValue(
+      new BadRequestException('Cannot add more than 365 holidays'),
+    );
+
+    await expect(
+      service.setHoliday('garage-1', {
+        ...holiday,
+        resolution: BookingConflictResolution.CANCEL,
+      }),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(bookingService.moveBooking).not.toHaveBeenCalled();
+    expect(bookingService.applyStatusChange).not.toHaveBeenCalled();
+    expect(notificationService.create).not.toHaveBeenCalled();
+  });
+
+  it('cancels and closes the day in one transaction, then tells the driver once', async () => {
+    await service.setHoliday('garage-1', {
+      ...holiday,
+      resolution: BookingConflictResolution.CANCEL,
+    });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(bookingService.applyStatusChange).toHaveBeenCalledWith(
+      tx,
+      'garage-1',
+      'order-1',
+      OrderStatus.CANCELLED,
+      'Christmas',
+    );
+    expect(scheduleService.applyHoliday).toHaveBeenCalledWith(
+      tx,
+      'garage-1',
+      expect.objectContaining({ month: 12, day: 25 }),
+    );
+    expect(bookingService.completeStatusChange).toHaveBeenCalledWith(
+      'garage-1',
+      { id: 'order-1' },
+      OrderStatus.CANCELLED,
+      'Christmas',
+      { notifyDriver: false, offerToWaitlist: false },
+    );
+    expect(events).toEqual(['cancel', 'apply', 'commit', 'notify']);
+  });
+
+  it('moves bookings inside the transaction and notifies after commit', async () => {
+    bookingService.moveBooking.mockImplementation(async () => {
+      events.push('move');
+    });
+
+    const result = await service.setHoliday('garage-1', {
+      ...holiday,
+      resolution: BookingConflictResolution.RESCHEDULE,
+    });
+
+    expect(bookingService.moveBooking).toHaveBeenCalledWith(
+      tx,
+      'garage-1',
+      expect.objectContaining({ booking_id: 'order-1', date: '2026-12-24' }),
+    );
+    expect(events).toEqual(['move', 'apply', 'commit', 'notify']);
+    expect(availabilityCache.invalidateGarage).toHaveBeenCalledWith('garage-1');
+    expect(result).toEqual(
+      expect.objectContaining({
+        resolved_bookings: [
+          expect.objectContaining({
+            order_id: 'order-1',
+            resolution: BookingConflictResolution.RESCHEDULE,
+          }),
+        ],
+      }),
+    );
+  });
+});
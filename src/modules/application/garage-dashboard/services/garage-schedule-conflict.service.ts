@@ -0,0 +1,403 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OrderStatus, Prisma, ServiceType } from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { MailService } from '../../../../mail/mail.service';
+import { NotificationService } from '../../notification/notification.service';
+import { NotificationType } from '../../../../common/repository/notification/notification.repository';
+import { TimezoneHelper } from '../../../../common/helper/timezone.helper';
+import { RestrictionDto } from '../dto/schedule.dto';
+import { ModifySlotTimeDto } from '../dto/modify-slot-time.dto';
+import {
+  AffectedBooking,
+  AlternativeSlot,
+  BookingConflictResolution,
+} from '../dto/booking-conflict.dto';
+import { GarageScheduleService } from './garage-schedule.service';
+import { GarageBookingService } from './garage-booking.service';
+import { SlotAvailabilityCacheService } from '../../slot-availability/slot-availability-cache.service';
+
+// Alternatives offered per booking, both in the preview and to cancelled drivers
+const SUGGESTED_SLOTS = 3;
+// Moving or cancelling many bookings and the schedule change share one transaction
+const RESOLUTION_TIMEOUT_MS = 30000;
+
+type AlternativeFinder = (
+  booking: AffectedBooking,
+  limit: number,
+) => Promise<Array<AlternativeSlot & { remaining_capacity: number }>>;
+
+/**
+ * Closing booked time (a holiday or a changed slot) only goes ahead once the
+ * garage picks what happens to the bookings: move them to the nearest free
+ * slot, cancel them with suggested alternatives, or keep them. The bookings
+ * and the schedule change are committed together; drivers hear about it after.
+ */
+@Injectable()
+export class GarageScheduleConflictService {
+  private readonly logger = new Logger(GarageScheduleConflictService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly garageScheduleService: GarageScheduleService,
+    private readonly garageBookingService: GarageBookingService,
+    private readonly notificationService: NotificationService,
+    private readonly mailService: MailService,
+    private readonly availabilityCache: SlotAvailabilityCacheService,
+  ) {}
+
+  async setHoliday(garageId: string, dto: RestrictionDto) {
+    const affected =
+      await this.garageScheduleService.findBookingsAffectedByHoliday(
+        garageId,
+        dto,
+      );
+    // Alternatives must avoid the holiday even though it is not saved yet
+    const holiday: RestrictionDto = {
+      type: 'HOLIDAY',
+      month: dto.month,
+      day: dto.day,
+      day_of_week: dto.day_of_week,
+    };
+
+    return this.applyWithResolution({
+      garageId,
+      affected,
+      resolution: dto.resolution,
+      reason: dto.description || 'The garage is closed on this day',
+      findAlternatives: (booking, limit) =>
+        this.garageScheduleService.findAlternativeSlots(
+          garageId,
+          booking.start_datetime,
+          { holidays: [holiday], limit },
+        ),
+      validate: () => this.garageScheduleService.validateHoliday(garageId, dto),
+      apply: (tx) => this.garageScheduleService.applyHoliday(tx, garageId, dto),
+    });
+  }
+
+  async modifySlotTime(garageId: string, dto: ModifySlotTimeDto) {
+    const affected =
+      await this.garageScheduleService.findBookingsAffectedBySlotTimeChange(
+        garageId,
+        dto,
+      );
+    const timeZone =
+      await this.garageScheduleService.getGarageTimeZone(garageId);
+    const newStart = TimezoneHelper.toInstant(
+      dto.date,
+      dto.new_start_time,
+      timeZone,
+    );
+    const newEnd = TimezoneHelper.toInstant(
+      dto.date,
+      dto.new_end_time,
+      timeZone,
+    );
+
+    return this.applyWithResolution({
+      garageId,
+      affected,
+      resolution: dto.resolution,
+      reason: dto.reason || 'The garage has changed its opening times',
+      // Keep clear of both the booked time and the slot's new time
+      findAlternatives: (booking, limit) =>
+        this.garageScheduleService.findAlternativeSlots(
+          garageId,
+          booking.start_datetime,
+          {
+            excludeRange: {
+              start_datetime:
+                booking.start_datetime < newStart
+                  ? booking.start_datetime
+                  : newStart,
+              end_datetime:
+                booking.end_datetime > newEnd ? booking.end_datetime : newEnd,
+            },
+            limit,
+          },
+        ),
+      validate: () =>
+        this.garageScheduleService.validateSlotTimeChange(garageId, dto),
+      apply: (tx) =>
+        this.garageScheduleService.applySlotTimeChange(tx, garageId, dto),
+    });
+  }
+
+  private async applyWithResolution<T extends object>(params: {
+    garageId: string;
+    affected: AffectedBooking[];
+    resolution?: BookingConflictResolution;
+    reason: string;
+    findAlternatives: AlternativeFinder;
+    validate: () => Promise<void>;
+    apply: (tx: Prisma.TransactionClient) => Promise<T>;
+  }) {
+    const { garageId, affected, resolution, reason, findAlternatives } = params;
+
+    if (affected.length > 0 && !resolution) {
+      return {
+        success: false,
+        requires_resolution: true,
+        message: `${affected.length} booking(s) fall on this time. Choose a resolution: RESCHEDULE, CANCEL or KEEP.`,
+        data: {
+          affected_bookings: await this.withSuggestions(
+            affected,
+            findAlternatives,
+          ),
+        },
+      };
+    }
+
+    // Nothing is moved or cancelled for a change that would be refused anyway
+    await params.validate();
+
+    if (
+      affected.length > 0 &&
+      resolution === BookingConflictResolution.RESCHEDULE
+    ) {
+      const plan = await this.planReschedules(affected, findAlternatives);
+      const unplaced = plan.filter((entry) => !entry.target);
+
+      if (unplaced.length > 0) {
+        return {
+          success: false,
+          requires_resolution: true,
+          message: `No free slot was found for ${unplaced.length} booking(s). Cancel or keep them instead.`,
+          data: {
+            affected_bookings: unplaced.map((entry) => entry.booking),
+          },
+        };
+      }
+
+      const result = await this.prisma.$transaction(
+        async (tx) => {
+          for (const { booking, target } of plan) {
+            await this.garageBookingService.moveBooking(tx, garageId, {
+              booking_id: booking.order_id,
+              date: target.date,
+              start_time: target.start_time,
+              end_time: target.end_time,
+              reason,
+            });
+          }
+          return params.apply(tx);
+        },
+        { timeout: RESOLUTION_TIMEOUT_MS },
+      );
+      await this.availabilityCache.invalidateGarage(garageId);
+
+      this.logger.log(
+        `Garage ${garageId}: moved ${plan.length} booking(s) off closed time`,
+      );
+      for (const { booking, target } of plan) {
+        await this.notifyRescheduled(garageId, booking, target, reason);
+      }
+
+      return {
+        ...result,
+        resolved_bookings: plan.map(({ booking, target }) => ({
+          ...booking,
+          resolution,
+          new_slot: target,
+        })),
+      };
+    }
+
+    if (
+      affected.length > 0 &&
+      resolution === BookingConflictResolution.CANCEL
+    ) {
+      const cancelled = await this.withSuggestions(affected, findAlternatives);
+
+      const { result, changes } = await this.prisma.$transaction(
+        async (tx) => {
+          const changes = [];
+          for (const booking of cancelled) {
+            changes.push(
+              await this.garageBookingService.applyStatusChange(
+                tx,
+                garageId,
+                booking.order_id,
+                OrderStatus.CANCELLED,
+                reason,
+              ),
+            );
+          }
+          return { result: await params.apply(tx), changes };
+        },
+        { timeout: RESOLUTION_TIMEOUT_MS },
+      );
+
+      this.logger.log(
+        `Garage ${garageId}: cancelled ${cancelled.length} booking(s) on closed time`,
+      );
+      for (const [index, { booking }] of changes.entries()) {
+        // The driver gets the message with suggested times instead
+        await this.garageBookingService.completeStatusChange(
+          garageId,
+          booking,
+          OrderStatus.CANCELLED,
+          reason,
+          { notifyDriver: false, offerToWaitlist: false },
+        );
+        await this.notifyCancelled(garageId, cancelled[index], reason);
+      }
+
+      return {
+        ...result,
+        resolved_bookings: cancelled.map((booking) => ({
+          ...booking,
+          resolution,
+        })),
+      };
+    }
+
+    // No bookings, or KEEP: the change goes ahead around the booked slots
+    const result = await this.prisma.$transaction((tx) => params.apply(tx));
+    await this.availabilityCache.invalidateGarage(garageId);
+
+    if (affected.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      resolved_bookings: affected.map((booking) => ({
+        ...booking,
+        resolution,
+      })),
+    };
+  }
+
+  private async withSuggestions(
+    affected: AffectedBooking[],
+    findAlternatives: AlternativeFinder,
+  ) {
+    const bookings: Array<
+      AffectedBooking & { suggested_slots: AlternativeSlot[] }
+    > = [];
+    for (const booking of affected) {
+      const alternatives = await findAlternatives(booking, SUGGESTED_SLOTS);
+      bookings.push({
+        ...booking,
+        suggested_slots: alternatives.map((slot) => ({
+          date: slot.date,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          start_datetime: slot.start_datetime,
+          end_datetime: slot.end_datetime,
+        })),
+      });
+    }
+    return bookings;
+  }
+
+  /**
+   * Nearest free slot per booking, without giving one bay to two bookings
+   */
+  private async planReschedules(
+    affected: AffectedBooking[],
+    findAlternatives: AlternativeFinder,
+  ) {
+    const used = new Map<number, number>();
+    const plan: Array<{
+      booking: AffectedBooking;
+      target: AlternativeSlot | null;
+    }> = [];
+
+    for (const booking of affected) {
+      const alternatives = await findAlternatives(
+        booking,
+        affected.length + SUGGESTED_SLOTS,
+      );
+      const target =
+        alternatives.find(
+          (slot) =>
+            (used.get(slot.start_datetime.getTime()) ?? 0) <
+            slot.remaining_capacity,
+        ) ?? null;
+
+      if (target) {
+        const key = target.start_datetime.getTime();
+        used.set(key, (used.get(key) ?? 0) + 1);
+      }
+      plan.push({ booking, target });
+    }
+
+    return plan;
+  }
+
+  private async notifyRescheduled(
+    garageId: string,
+    booking: AffectedBooking,
+    target: AlternativeSlot,
+    reason: string,
+  ) {
+    if (!booking.driver_id) return;
+
+    const garage = await this.prisma.user.findUnique({
+      where: { id: garageId },
+      select: { garage_name: true },
+    });
+
+    await this.notificationService.create({
+      receiver_id: booking.driver_id,
+      sender_id: garageId,
+      type: NotificationType.BOOKING,
+      text: `${reason}. Your booking with ${garage?.garage_name || 'the garage'} on ${booking.date} at ${booking.start_time} has been moved to ${target.date} at ${target.start_time}.`,
+      entity_id: booking.order_id,
+    });
+  }
+
+  private async notifyCancelled(
+    garageId: string,
+    booking: AffectedBooking & { suggested_slots: AlternativeSlot[] },
+    reason: string,
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: booking.order_id },
+      select: {
+        driver: { select: { id: true, name: true, email: true } },
+        garage: { select: { garage_name: true } },
+        vehicle: { select: { registration_number: true } },
+        items: { select: { service: { select: { name: true, type: true } } } },
+      },
+    });
+
+    if (!order?.driver) return;
+
+    const garageName = order.garage?.garage_name || 'the garage';
+    const suggestions = booking.suggested_slots.map(
+      (slot) => `${slot.date} ${slot.start_time}-${slot.end_time}`,
+    );
+    const message = suggestions.length
+      ? `Your booking with ${garageName} on ${booking.date} at ${booking.start_time} has been cancelled. Free times nearby: ${suggestions.join(', ')}.`
+      : `Your booking with ${garageName} on ${booking.date} at ${booking.start_time} has been cancelled.`;
+
+    await this.notificationService.create({
+      receiver_id: order.driver.id,
+      sender_id: garageId,
+      type: NotificationType.BOOKING,
+      text: message,
+      entity_id: booking.order_id,
+    });
+
+    if (order.driver.email) {
+      const mainService = order.items.find(
+        (item) => item.service?.type !== ServiceType.ADDITIONAL,
+      );
+      await this.mailService.sendBookingCancellationEmail({
+        to: order.driver.email,
+        recipient_name: order.driver.name || 'Driver',
+        message,
+        driver_name: order.driver.name || 'Driver',
+        garage_name: garageName,
+        service_type: mainService?.service?.name || 'MOT',
+        vehicle_registration: order.vehicle?.registration_number || '',
+        booking_date: booking.date,
+        booking_time: `${booking.start_time} - ${booking.end_time}`,
+        reason,
+        suggested_times: suggestions,
+      });
+    }
+  }
+}
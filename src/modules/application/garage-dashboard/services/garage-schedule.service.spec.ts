@@ -0,0 +1,671 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { TimezoneHelper } from '../../../../common/helper/timezone.helper';
+import { SlotAvailabilityCacheService } from '../../slot-availability/slot-availability-cache.service';
+import { WaitlistService } from '../../waitlist/waitlist.service';
+import { BulkSlotAction } from '../dto/bulk-slot-operation.dto';
+import { GarageScheduleService } from './garage-schedule.service';
+
+describe('GarageScheduleService', () => {
+  const prismaMock = {
+    $transaction: jest.fn(),
+    schedule: { findUnique: jest.fn(), findMany: jest.fn(), upsert: jest.fn() },
+    scheduleVersion: { deleteMany: jest.fn(), create: jest.fn() },
+    scheduleClosure: { findMany: jest.fn() },
+    bankHoliday: { findMany: jest.fn() },
+    timeSlot: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  const availabilityCache = {
+    get: jest.fn(),
+    getMany: jest.fn(),
+    set: jest.fn(),
+    invalidateGarage: jest.fn(),
+  };
+
+  let service: GarageScheduleService;
+  let prisma: PrismaService;
+
+  const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+  const scheduleRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'schedule-1',
+    garage_id: 'garage-1',
+    start_time: '09:00',
+    end_time: '11:00',
+    slot_duration: 60,
+    daily_hours: null,
+    bays: 1,
+    is_active: true,
+    time_zone: 'Europe/London',
+    restrictions: [],
+    closed_on_bank_holidays: false,
+    bank_holiday_region: null,
+    versions: [],
+    ...overrides,
+  });
+
+  const version = (
+    id: string,
+    from: string,
+    to: string | null,
+    start_time: string,
+    end_time: string,
+  ) => ({
+    id,
+    created_at: day('2026-01-01'),
+    effective_from: day(from),
+    effective_to: to ? day(to) : null,
+    label: null,
+    start_time,
+    end_time,
+    slot_duration: 60,
+    daily_hours: null,
+    bays: 1,
+  });
+
+  const dbSlot = (
+    id: string,
+    start: string,
+    end: string,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    garage_id: 'garage-1',
+    start_datetime: new Date(start),
+    end_datetime: new Date(end),
+    bay: 1,
+    is_available: false,
+    is_blocked: false,
+    order_id: `order-${id}`,
+    held_until: null,
+    ...overrides,
+  });
+
+  // Template slots of a whole local day, as ISO start times
+  const templateStarts = async (date: string, timeZone = 'Europe/London') => {
+    const slots = await service.findSlotsStartingWithin(
+      prisma,
+      'garage-1',
+      TimezoneHelper.startOfDay(date, timeZone),
+      TimezoneHelper.startOfNextDay(date, timeZone),
+      1,
+    );
+    return slots.map((slot) => slot.start_datetime.toISOString());
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaMock.$transaction.mockImplementation(
+      (callback: (tx: PrismaService) => unknown) => callback(prisma),
+    );
+    prismaMock.schedule.findUnique.mockResolvedValue(scheduleRow());
+    prismaMock.scheduleClosure.findMany.mockResolvedValue([]);
+    prismaMock.bankHoliday.findMany.mockResolvedValue([]);
+    prismaMock.timeSlot.findMany.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GarageScheduleService,
+        { provide: PrismaService, useValue: prismaMock },
+        { provide: WaitlistService, useValue: {} },
+        { provide: SlotAvailabilityCacheService, useValue: availabilityCache },
+      ],
+    }).compile();
+
+    service = module.get(GarageScheduleService);
+    prisma = module.get(PrismaService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('slot generation', () => {
+    it('keeps 09:00 slots at 09:00 local across the March clock change', async () => {
+      await expect(templateStarts('2026-03-28')).resolves.toEqual([
+        '2026-03-28T09:00:00.000Z',
+        '2026-03-28T10:00:00.000Z',
+      ]);
+      await expect(templateStarts('2026-03-29')).resolves.toEqual([
+        '2026-03-29T08:00:00.000Z',
+        '2026-03-29T09:00:00.000Z',
+      ]);
+    });
+
+    it('keeps 09:00 slots at 09:00 local across the October clock change', async () => {
+      await expect(templateStarts('2026-10-24')).resolves.toEqual([
+        '2026-10-24T08:00:00.000Z',
+        '2026-10-24T09:00:00.000Z',
+      ]);
+      await expect(templateStarts('2026-10-25')).resolves.toEqual([
+        '2026-10-25T09:00:00.000Z',
+        '2026-10-25T10:00:00.000Z',
+      ]);
+    });
+
+    it('skips breaks on the local weekday', async () => {
+      // Sunday 29 March 2026, break 10:00-11:00 on Sundays
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({
+          restrictions: [
+            {
+              type: 'BREAK',
+              day_of_week: [0],
+              start_time: '10:00',
+              end_time: '11:00',
+            },
+          ],
+        }),
+      );
+
+      await expect(templateStarts('2026-03-29')).resolves.toEqual([
+        '2026-03-29T08:00:00.000Z',
+      ]);
+    });
+
+    it('resolves daily hours by the local weekday', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({
+          end_time: '17:00',
+          daily_hours: { '1': { is_closed: true } },
+        }),
+      );
+
+      // From 00:30 BST on Monday 13 July 2026 (still Sunday in UTC)
+      await expect(
+        service.findSlotsStartingWithin(
+          prisma,
+          'garage-1',
+          new Date('2026-07-12T23:30:00.000Z'),
+          new Date('2026-07-13T23:00:00.000Z'),
+          1,
+        ),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('bay capacity', () => {
+    const start = new Date('2026-05-05T09:00:00.000Z');
+    const end = new Date('2026-05-05T10:00:00.000Z');
+    const booked = (bay: number, overrides: Record<string, unknown> = {}) =>
+      dbSlot(
+        `slot-${bay}`,
+        '2026-05-05T09:00:00.000Z',
+        '2026-05-05T10:00:00.000Z',
+        { bay, ...overrides },
+      );
+
+    beforeEach(() => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ bays: 3 }),
+      );
+    });
+
+    it('books the next bay while the time window has capacity', async () => {
+      prismaMock.timeSlot.findMany.mockResolvedValue([booked(1)]);
+
+      await expect(
+        service.findFreeBay(prisma, 'garage-1', start, end),
+      ).resolves.toEqual({ slot: null, bay: 2 });
+    });
+
+    it('reuses a free slot of a bay', async () => {
+      const free = booked(2, { is_available: true, order_id: null });
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ bays: 2 }),
+      );
+      prismaMock.timeSlot.findMany.mockResolvedValue([booked(1), free]);
+
+      await expect(
+        service.findFreeBay(prisma, 'garage-1', start, end),
+      ).resolves.toEqual({ slot: free, bay: 2 });
+    });
+
+    it('returns null once every bay is booked', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ bays: 2 }),
+      );
+      prismaMock.timeSlot.findMany.mockResolvedValue([booked(1), booked(2)]);
+
+      await expect(
+        service.findFreeBay(prisma, 'garage-1', start, end),
+      ).resolves.toBeNull();
+    });
+
+    it('counts template slots not stored yet as in the way of a longer booking', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ end_time: '17:00' }),
+      );
+
+      // 10:00-11:30 BST runs into the 11:00 template slot
+      const slots = await service.findSlotsStartingWithin(
+        prisma,
+        'garage-1',
+        start,
+        new Date('2026-05-05T10:30:00.000Z'),
+        1,
+      );
+
+      expect(slots.map((slot) => slot.start_datetime.toISOString())).toEqual([
+        '2026-05-05T10:00:00.000Z',
+      ]);
+    });
+
+    it('reports remaining capacity per time window', async () => {
+      availabilityCache.get.mockResolvedValue({ data: null, version: '1' });
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ bays: 2 }),
+      );
+      // Tuesday 5 May 2099: 09:00 BST fully booked, 10:00 BST one bay booked
+      prismaMock.timeSlot.findMany.mockResolvedValue([
+        dbSlot(
+          'early-1',
+          '2099-05-05T08:00:00.000Z',
+          '2099-05-05T09:00:00.000Z',
+        ),
+        dbSlot(
+          'early-2',
+          '2099-05-05T08:00:00.000Z',
+          '2099-05-05T09:00:00.000Z',
+          { bay: 2 },
+        ),
+        dbSlot(
+          'late-1',
+          '2099-05-05T09:00:00.000Z',
+          '2099-05-05T10:00:00.000Z',
+        ),
+      ]);
+
+      const result = await service.viewAvailableSlots('garage-1', '2099-05-05');
+
+      expect(result.data.slots).toEqual([
+        expect.objectContaining({
+          time: '09:00-10:00',
+          capacity: 2,
+          remaining_capacity: 0,
+          status: expect.arrayContaining(['BOOKED']),
+        }),
+        expect.objectContaining({
+          time: '10:00-11:00',
+          source: 'TEMPLATE',
+          capacity: 2,
+          remaining_capacity: 1,
+          status: ['AVAILABLE'],
+        }),
+      ]);
+      expect(availabilityCache.set).toHaveBeenCalledWith(
+        'garage-1',
+        '2099-05-05',
+        '1',
+        result,
+        expect.any(Date),
+      );
+    });
+  });
+
+  describe('closed dates', () => {
+    const schedule = (closedOnBankHolidays: boolean) => ({
+      garage_id: 'garage-1',
+      closed_on_bank_holidays: closedOnBankHolidays,
+      bank_holiday_region: 'SCOTLAND' as const,
+    });
+
+    it('expands closure ranges clipped to the requested window', async () => {
+      prismaMock.scheduleClosure.findMany.mockResolvedValue([
+        {
+          start_date: day('2026-12-24'),
+          end_date: day('2027-01-02'),
+          label: 'Christmas shutdown',
+        },
+      ]);
+
+      const closed = await service.getClosedDates(
+        schedule(false),
+        '2026-12-28',
+        '2026-12-31',
+      );
+
+      expect(Array.from(closed.keys())).toEqual([
+        '2026-12-28',
+        '2026-12-29',
+        '2026-12-30',
+        '2026-12-31',
+      ]);
+      expect(closed.get('2026-12-30')).toEqual({
+        label: 'Christmas shutdown',
+        type: 'CLOSURE',
+      });
+      expect(prismaMock.bankHoliday.findMany).not.toHaveBeenCalled();
+    });
+
+    it('includes regional bank holidays only when opted in', async () => {
+      prismaMock.bankHoliday.findMany.mockResolvedValue([
+        { date: day('2026-08-03'), title: 'Summer bank holiday' },
+      ]);
+
+      const closed = await service.getClosedDates(
+        schedule(true),
+        '2026-08-01',
+        '2026-08-31',
+      );
+
+      expect(prismaMock.bankHoliday.findMany).toHaveBeenCalledWith({
+        where: {
+          region: 'SCOTLAND',
+          date: { gte: day('2026-08-01'), lte: day('2026-08-31') },
+        },
+      });
+      expect(closed.get('2026-08-03')).toEqual({
+        label: 'Summer bank holiday',
+        type: 'BANK_HOLIDAY',
+      });
+    });
+  });
+
+  describe('schedule versions', () => {
+    // First start and last end of the template slots on a date
+    const hoursOn = async (date: string) => {
+      const slots = await service.findSlotsStartingWithin(
+        prisma,
+        'garage-1',
+        TimezoneHelper.startOfDay(date),
+        TimezoneHelper.startOfNextDay(date),
+        1,
+      );
+      return [
+        TimezoneHelper.formatTime(slots[0].start_datetime),
+        TimezoneHelper.formatTime(slots[slots.length - 1].end_datetime),
+      ];
+    };
+
+    beforeEach(() => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({
+          end_time: '17:00',
+          versions: [
+            version('from-june', '2026-06-01', null, '08:00', '18:00'),
+            version('summer', '2026-07-01', '2026-08-31', '07:00', '19:00'),
+            version('from-august', '2026-08-01', null, '10:00', '16:00'),
+          ],
+        }),
+      );
+    });
+
+    it('uses the schedule hours before the first version', async () => {
+      await expect(hoursOn('2026-05-31')).resolves.toEqual(['09:00', '17:00']);
+    });
+
+    it('picks the latest open-ended version in effect', async () => {
+      await expect(hoursOn('2026-06-15')).resolves.toEqual(['08:00', '18:00']);
+    });
+
+    it('lets an applied template range win over open-ended versions', async () => {
+      await expect(hoursOn('2026-08-15')).resolves.toEqual(['07:00', '19:00']);
+      await expect(hoursOn('2026-09-01')).resolves.toEqual(['10:00', '16:00']);
+    });
+
+    it('supersedes open-ended versions and saves new hours together', async () => {
+      prismaMock.schedule.upsert.mockResolvedValue(
+        scheduleRow({ start_time: '08:00', end_time: '17:00' }),
+      );
+
+      await service.setSchedule('garage-1', {
+        start_time: '08:00',
+        end_time: '17:00',
+      });
+
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+      expect(prismaMock.scheduleVersion.deleteMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          schedule_id: 'schedule-1',
+          effective_to: null,
+        }),
+      });
+      expect(prismaMock.schedule.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps slots still held for checkout or a reschedule when hours change', async () => {
+      prismaMock.schedule.upsert.mockResolvedValue(scheduleRow());
+
+      await service.setSchedule('garage-1', {
+        start_time: '08:00',
+        end_time: '17:00',
+      });
+
+      expect(prismaMock.timeSlot.deleteMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          order_id: null,
+          OR: [{ held_until: null }, { held_until: { lte: expect.any(Date) } }],
+        }),
+      });
+    });
+
+    it('reports booked slots outside the hours of the new version', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ end_time: '17:00' }),
+      );
+      prismaMock.scheduleVersion.create.mockResolvedValue(
+        version('new', '2099-09-01', null, '10:00', '16:00'),
+      );
+      prismaMock.timeSlot.findMany.mockResolvedValue([
+        // 09:00 BST, before the new 10:00 opening
+        dbSlot('early', '2099-09-02T08:00:00.000Z', '2099-09-02T09:00:00.000Z'),
+        // 11:00 BST, within the new hours
+        dbSlot('ok', '2099-09-02T10:00:00.000Z', '2099-09-02T11:00:00.000Z'),
+      ]);
+
+      const result = await service.addScheduleVersion('garage-1', {
+        effective_from: '2099-09-01',
+        start_time: '10:00',
+        end_time: '16:00',
+      });
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          slot_id: 'early',
+          date: '2099-09-02',
+          start_time: '09:00',
+          reason: 'Booking is outside the new opening hours',
+        }),
+      ]);
+      expect(availabilityCache.invalidateGarage).toHaveBeenCalledWith(
+        'garage-1',
+      );
+    });
+  });
+
+  describe('bulk slot operations', () => {
+    it('previews Friday afternoon blocks without writing', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ end_time: '17:00' }),
+      );
+      prismaMock.timeSlot.findMany.mockResolvedValue([
+        dbSlot(
+          'booked',
+          '2099-06-05T13:00:00.000Z',
+          '2099-06-05T14:00:00.000Z',
+          {
+            order_id: 'order-1',
+          },
+        ),
+      ]);
+
+      // Friday 5 June to Friday 12 June 2099
+      const result = await service.bulkSlotOperation('garage-1', {
+        start_date: '2099-06-05',
+        end_date: '2099-06-12',
+        weekdays: [5],
+        start_time: '14:00',
+        end_time: '17:00',
+        action: BulkSlotAction.BLOCK,
+        dry_run: true,
+      });
+
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+      expect(result.data.days).toEqual(['2099-06-05', '2099-06-12']);
+      expect(result.data.summary).toEqual({
+        days: 2,
+        affected_slots: 5,
+        conflicts: 1,
+      });
+      expect(result.data.affected_slots[0]).toEqual({
+        date: '2099-06-05',
+        start_time: '15:00',
+        end_time: '16:00',
+        bay: 1,
+        slot_id: null,
+        source: 'TEMPLATE',
+      });
+      expect(result.data.conflicts).toEqual([
+        expect.objectContaining({
+          slot_id: 'booked',
+          order_id: 'order-1',
+          start_time: '14:00',
+        }),
+      ]);
+    });
+    it('only blocks slots that are still neither booked nor held', async () => {
+      jest.useFakeTimers({
+        now: new Date('2099-06-01T08:00:00.000Z'),
+        doNotFake: ['nextTick', 'setImmediate'],
+      });
+      prismaMock.timeSlot.findMany.mockResolvedValue([
+        dbSlot('free', '2099-06-05T13:00:00.000Z', '2099-06-05T14:00:00.000Z', {
+          is_available: true,
+          order_id: null,
+        }),
+      ]);
+
+      await service.bulkSlotOperation('garage-1', {
+        start_date: '2099-06-05',
+        end_date: '2099-06-05',
+        start_time: '14:00',
+        end_time: '15:00',
+        action: BulkSlotAction.BLOCK,
+      });
+
+      expect(prismaMock.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['free'] },
+          order_id: null,
+          OR: [
+            { held_until: null },
+            { held_until: { lte: new Date('2099-06-01T08:00:00.000Z') } },
+          ],
+        },
+        data: expect.objectContaining({ is_blocked: true }),
+      });
+    });
+  });
+
+  describe('alternative slots', () => {
+    it('offers the nearest free slots, skipping a holiday not saved yet', async () => {
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({ end_time: '12:00' }),
+      );
+      prismaMock.timeSlot.findMany.mockResolvedValue([
+        // Thursday 11:00 BST is already booked
+        dbSlot(
+          'booked',
+          '2099-06-04T10:00:00.000Z',
+          '2099-06-04T11:00:00.000Z',
+          {
+            order_id: 'order-2',
+          },
+        ),
+      ]);
+
+      // Booking at 10:00 BST on Friday 5 June 2099, Fridays becoming a holiday
+      const alternatives = await service.findAlternativeSlots(
+        'garage-1',
+        new Date('2099-06-05T09:00:00.000Z'),
+        { holidays: [{ type: 'HOLIDAY', day_of_week: 5 }], limit: 3 },
+      );
+
+      expect(alternatives.map((slot) => [slot.date, slot.start_time])).toEqual([
+        ['2099-06-06', '09:00'],
+        ['2099-06-04', '10:00'],
+        ['2099-06-06', '10:00'],
+      ]);
+    });
+  });
+
+  describe('next available slots', () => {
+    const cachedDay = (slots: Record<string, unknown>[]) => ({
+      success: true,
+      data: { slots },
+    });
+
+    it('reads cached days and computes only the missing ones', async () => {
+      jest.useFakeTimers({
+        now: new Date('2099-06-05T08:30:00.000Z'),
+        doNotFake: ['nextTick', 'setImmediate'],
+      });
+      prismaMock.schedule.findMany.mockResolvedValue([
+        { garage_id: 'cached', time_zone: 'Europe/London' },
+        { garage_id: 'uncached', time_zone: 'Europe/London' },
+      ]);
+      // The uncached garage only opens 15:00-16:00
+      prismaMock.schedule.findUnique.mockResolvedValue(
+        scheduleRow({
+          garage_id: 'uncached',
+          start_time: '15:00',
+          end_time: '16:00',
+        }),
+      );
+      const cached: Record<string, ReturnType<typeof cachedDay>> = {
+        // 09:00 today has already started (09:30 BST now); 10:00 is full
+        'cached:2099-06-05': cachedDay([
+          { time: '09:00-10:00', status: ['AVAILABLE'], remaining_capacity: 1 },
+          { time: '10:00-11:00', status: ['BOOKED'], remaining_capacity: 0 },
+        ]),
+        'cached:2099-06-06': cachedDay([
+          {
+            id: 'slot-1',
+            time: '11:00-12:00',
+            status: ['AVAILABLE'],
+            remaining_capacity: 1,
+          },
+        ]),
+      };
+      availabilityCache.getMany.mockImplementation(
+        async (ids: string[], date: string) =>
+          ids.map((id) => [
+            id,
+            { data: cached[`${id}:${date}`] ?? null, version: '3' },
+          ]),
+      );
+
+      const next = await service.findNextAvailableSlots([
+        'cached',
+        'uncached',
+        'no-schedule',
+      ]);
+
+      expect(next.get('cached')).toEqual({
+        date: '2099-06-06',
+        start_time: '11:00',
+        end_time: '12:00',
+        slot_id: 'slot-1',
+      });
+      expect(next.get('uncached')).toEqual({
+        date: '2099-06-05',
+        start_time: '15:00',
+        end_time: '16:00',
+        slot_id: null,
+      });
+      expect(next.get('no-schedule')).toBeNull();
+      expect(availabilityCache.set).toHaveBeenCalledTimes(1);
+      expect(availabilityCache.set).toHaveBeenCalledWith(
+        'uncached',
+        '2099-06-05',
+        '3',
+        expect.anything(),
+        expect.any(Date),
+      );
+    });
+  });
+});
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { SlotAvailabilityCacheService } from './slot-availability-cache.service';
+
+@Module({
+  providers: [SlotAvailabilityCacheService],
+  exports: [SlotAvailabilityCacheService],
+})
+export class SlotAvailabilityCacheModule {}
@@ -0,0 +1,170 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import appConfig from '../../../config/app.config';
+
+// Upper bound on how long a garage's cached days live without being read again
+const GARAGE_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const VERSION_KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Only store a computed day if the garage was not invalidated while computing it
+const SET_IF_CURRENT = `
+local current = redis.call('GET', KEYS[2]) or '0'
+if current ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], ARGV[2], ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return 1
+`;
+
+export interface CachedAvailability<T> {
+  data: T | null;
+  /** Pass back to `set` so a stale computation is not stored */
+  version: string;
+}
+
+/**
+ * Per-garage, per-day slot availability kept in Redis.
+ *
+ * Each garage has one hash of day -> computed availability plus a version
+ * counter. Any schedule, slot or booking change invalidates the whole
+ * garage. Redis being unavailable only ever costs a cache miss.
+ */
+@Injectable()
+export class SlotAvailabilityCacheService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(SlotAvailabilityCacheService.name);
+  private redis: Redis;
+
+  onModuleInit() {
+    this.redis = new Redis({
+      host: appConfig().redis.host,
+      port: Number(appConfig().redis.port),
+      password: appConfig().redis.password,
+      // Fail fast instead of queueing reads while disconnected
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.warn(`Availability cache unavailable: ${error.message}`);
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.redis?.quit().catch(() => undefined);
+  }
+
+  async get<T>(garageId: string, date: string): Promise<CachedAvailability<T>> {
+    const [entry] = await this.getMany<T>([garageId], date);
+    return entry[1];
+  }
+
+  /**
+   * Cached availability of many garages on one day in a single round trip
+   */
+  async getMany<T>(
+    garageIds: string[],
+    date: string,
+  ): Promise<Array<[string, CachedAvailability<T>]>> {
+    const misses = garageIds.map(
+      (garageId): [string, CachedAvailability<T>] => [
+        garageId,
+        { data: null, version: '0' },
+      ],
+    );
+    if (!this.redis || garageIds.length === 0) return misses;
+
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const garageId of garageIds) {
+        pipeline.hget(this.dayKey(garageId), date);
+        pipeline.get(this.versionKey(garageId));
+      }
+      const replies = (await pipeline.exec()) ?? [];
+
+      return garageIds.map((garageId, index) => {
+        const [, raw] = replies[index * 2] ?? [];
+        const [, version] = replies[index * 2 + 1] ?? [];
+        return [
+          garageId,
+          {
+            data: this.parse<T>(raw as string | null),
+            version: (version as string | null) ?? '0',
+          },
+        ];
+      });
+    } catch (error) {
+      this.logger.warn(`Availability cache read failed: ${error.message}`);
+      return misses;
+    }
+  }
+
+  async set<T>(
+    garageId: string,
+    date: string,
+    version: string,
+    data: T,
+    expiresAt: Date,
+  ): Promise<void> {
+    if (!this.redis || expiresAt.getTime() <= Date.now()) return;
+
+    try {
+      await this.redis.eval(
+        SET_IF_CURRENT,
+        2,
+        this.dayKey(garageId),
+        this.versionKey(garageId),
+        version,
+        date,
+        JSON.stringify({ expires_at: expiresAt.getTime(), data }),
+        GARAGE_KEY_TTL_MS,
+      );
+    } catch (error) {
+      this.logger.warn(`Availability cache write failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop every cached day of a garage after its schedule, slots or bookings change
+   */
+  async invalidateGarage(garageId: string | null | undefined): Promise<void> {
+    if (!this.redis || !garageId) return;
+
+    try {
+      await this.redis
+        .multi()
+        .incr(this.versionKey(garageId))
+        .pexpire(this.versionKey(garageId), VERSION_KEY_TTL_MS)
+        .del(this.dayKey(garageId))
+        .exec();
+    } catch (error) {
+      this.logger.error(
+        `Failed to invalidate availability cache for garage ${garageId}: ${error.message}`,
+      );
+    }
+  }
+
+  private parse<T>(raw: string | null): T | null {
+    if (!raw) return null;
+
+    try {
+      const entry = JSON.parse(raw) as { expires_at: number; data: T };
+      return entry.expires_at > Date.now() ? entry.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private dayKey(garageId: string) {
+    return `slot-availability:${garageId}`;
+  }
+
+  private versionKey(garageId: string) {
+    return `slot-availability:${garageId}:version`;
+  }
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DisputeVehicleTransferDto {
+  @ApiProperty({
+    description: 'Why the vehicle should stay in your account',
+    example: 'I still own this car and have not sold it',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'A reason is required to dispute a transfer' })
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestVehicleTransferDto {
+  @ApiProperty({
+    description: 'Registration of the vehicle held by another account',
+    example: 'AB12CDE',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Registration number is required' })
+  @Length(1, 10)
+  registration_number: string;
+}
@@ -0,0 +1,21 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ResolveVehicleTransferDto {
+  @ApiProperty({
+    description:
+      'true moves the vehicle to the claimant, false leaves it with the current owner',
+    example: true,
+  })
+  @IsBoolean()
+  approve: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Note shown to both drivers',
+    example: 'V5C logbook in the new keeper name was provided',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
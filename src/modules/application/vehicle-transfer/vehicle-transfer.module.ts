@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
+import { VehicleTransferService } from './vehicle-transfer.service';
+import { VehicleTransferProcessor } from './vehicle-transfer.processor';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationModule,
+    BullModule.registerQueue({
+      name: 'vehicle-transfer-queue',
+    }),
+  ],
+  providers: [VehicleTransferService, VehicleTransferProcessor],
+  exports: [VehicleTransferService],
+})
+export class VehicleTransferModule {}
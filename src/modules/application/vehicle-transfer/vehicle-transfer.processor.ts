@@ -0,0 +1,28 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { VehicleTransferService } from './vehicle-transfer.service';
+
+/**
+ * Completes vehicle transfers the current owner did not dispute in time
+ */
+@Processor('vehicle-transfer-queue')
+export class VehicleTransferProcessor extends WorkerHost {
+  private readonly logger = new Logger(VehicleTransferProcessor.name);
+
+  constructor(private readonly vehicleTransferService: VehicleTransferService) {
+    super();
+  }
+
+  async process(job: Job<{ transfer_id: string }>) {
+    switch (job.name) {
+      case 'completeVehicleTransfer':
+        await this.vehicleTransferService.completeExpiredTransfer(
+          job.data.transfer_id,
+        );
+        break;
+      default:
+        this.logger.warn(`Unknown job ${job.name}`);
+    }
+  }
+}
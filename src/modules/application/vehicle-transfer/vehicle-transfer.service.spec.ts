@@ -0,0 +1,153 @@
+import { ConflictException } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, VehicleTransferStatus } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { VehicleTransferService } from './vehicle-transfer.service';
+
+describe('VehicleTransferService', () => {
+  const vehicle = {
+    id: 'vehicle-1',
+    registration_number: 'AB12CDE',
+    make: 'FORD',
+    model: 'FOCUS',
+  };
+
+  const transfer = (overrides: Record<string, unknown> = {}) => ({
+    id: 'transfer-1',
+    vehicle_id: 'vehicle-1',
+    from_user_id: 'seller',
+    to_user_id: 'buyer',
+    status: VehicleTransferStatus.PENDING,
+    expires_at: new Date('2026-01-08T00:00:00.000Z'),
+    dispute_reason: null,
+    resolution_note: null,
+    resolved_at: null,
+    created_at: new Date('2026-01-01T00:00:00.000Z'),
+    updated_at: new Date('2026-01-01T00:00:00.000Z'),
+    vehicle,
+    ...overrides,
+  });
+
+  const tx = {
+    vehicleTransfer: { updateMany: jest.fn() },
+    vehicle: { updateMany: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+    user: { findFirst: jest.fn() },
+    vehicle: { findUnique: jest.fn() },
+    vehicleTransfer: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  const notificationService = { create: jest.fn() };
+  const vehicleTransferQueue = { add: jest.fn() };
+
+  let service: VehicleTransferService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    tx.vehicleTransfer.updateMany.mockResolvedValue({ count: 1 });
+    tx.vehicle.updateMany.mockResolvedValue({ count: 1 });
+    prisma.user.findFirst.mockResolvedValue({ id: 'buyer' });
+    prisma.vehicle.findUnique.mockResolvedValue({
+      ...vehicle,
+      user_id: 'seller',
+    });
+    prisma.vehicleTransfer.findUnique.mockResolvedValue(transfer());
+    prisma.vehicleTransfer.findFirst.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VehicleTransferService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        {
+          provide: getQueueToken('vehicle-transfer-queue'),
+          useValue: vehicleTransferQueue,
+        },
+      ],
+    }).compile();
+
+    service = module.get(VehicleTransferService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('completeExpiredTransfer', () => {
+    it('moves an undisputed vehicle to the claimant once the window has passed', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-08T00:00:01.000Z') });
+
+      await service.completeExpiredTransfer('transfer-1');
+
+      expect(tx.vehicle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1', user_id: 'seller' },
+        data: expect.objectContaining({ user_id: 'buyer' }),
+      });
+      expect(tx.vehicleTransfer.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: VehicleTransferStatus.COMPLETED,
+          }),
+        }),
+      );
+      expect(notificationService.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves disputed transfers for an admin', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-09T00:00:00.000Z') });
+      prisma.vehicleTransfer.findUnique.mockResolvedValue(
+        transfer({ status: VehicleTransferStatus.DISPUTED }),
+      );
+
+      await service.completeExpiredTransfer('transfer-1');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('does not complete when the vehicle has left the seller account meanwhile', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-08T00:00:01.000Z') });
+      tx.vehicle.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.completeExpiredTransfer('transfer-1'),
+      ).resolves.toBeUndefined();
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestTransfer', () => {
+    it('refuses a second claim while one is open', async () => {
+      prisma.vehicleTransfer.findFirst.mockResolvedValue({
+        to_user_id: 'someone-else',
+      });
+
+      await expect(
+        service.requestTransfer('buyer', { registration_number: 'ab12cde' }),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.vehicleTransfer.create).not.toHaveBeenCalled();
+      expect(vehicleTransferQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('refuses a claim that loses the race to another one', async () => {
+      prisma.vehicleTransfer.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError(
+          'Unique constraint failed on the fields: (`vehicle_id`)',
+          { code: 'P2002', clientVersion: '6.0.0' },
+        ),
+      );
+
+      await expect(
+        service.requestTransfer('buyer', { registration_number: 'AB12CDE' }),
+      ).rejects.toThrow(ConflictException);
+      expect(vehicleTransferQueue.add).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,527 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  Prisma,
+  UserRole,
+  VehicleTransfer,
+  VehicleTransferStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../../../common/repository/notification/notification.repository';
+import { RequestVehicleTransferDto } from './dto/request-vehicle-transfer.dto';
+import { DisputeVehicleTransferDto } from './dto/dispute-vehicle-transfer.dto';
+import { ResolveVehicleTransferDto } from './dto/resolve-vehicle-transfer.dto';
+
+// How long the current owner has to dispute before the transfer goes through
+const DISPUTE_WINDOW_DAYS = 7;
+
+const OPEN_STATUSES: VehicleTransferStatus[] = [
+  VehicleTransferStatus.PENDING,
+  VehicleTransferStatus.DISPUTED,
+];
+
+const VEHICLE_SELECT = {
+  id: true,
+  registration_number: true,
+  make: true,
+  model: true,
+} satisfies Prisma.VehicleSelect;
+
+type TransferWithVehicle = VehicleTransfer & {
+  vehicle: Prisma.VehicleGetPayload<{ select: typeof VEHICLE_SELECT }>;
+};
+
+/**
+ * Moves a registration between driver accounts when a car changes hands.
+ *
+ * The new keeper claims the registration, the current owner is notified and
+ * can confirm or dispute, and undisputed claims complete on their own after
+ * the dispute window. Disputes are settled by an admin. The vehicle and its
+ * MOT history move to the new owner; past bookings keep their original
+ * driver.
+ */
+@Injectable()
+export class VehicleTransferService {
+  private readonly logger = new Logger(VehicleTransferService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    @InjectQueue('vehicle-transfer-queue')
+    private readonly vehicleTransferQueue: Queue,
+  ) {}
+
+  async requestTransfer(userId: string, dto: RequestVehicleTransferDto) {
+    const driver = await this.prisma.user.findFirst({
+      where: { id: userId, type: UserRole.DRIVER, status: 1 },
+      select: { id: true },
+    });
+    if (!driver) {
+      throw new NotFoundException('User not found or not a driver');
+    }
+
+    const registrationNumber = dto.registration_number.toUpperCase();
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { registration_number: registrationNumber },
+      select: { ...VEHICLE_SELECT, user_id: true },
+    });
+
+    if (!vehicle) {
+      throw new BadRequestException(
+        `Vehicle ${registrationNumber} is not registered to any account - add it to your vehicles instead`,
+      );
+    }
+    if (vehicle.user_id === userId) {
+      throw new ConflictException(
+        `Vehicle ${registrationNumber} is already in your account`,
+      );
+    }
+
+    const openTransfer = await this.prisma.vehicleTransfer.findFirst({
+      where: { vehicle_id: vehicle.id, status: { in: OPEN_STATUSES } },
+      select: { to_user_id: true },
+    });
+    if (openTransfer) {
+      throw new ConflictException(
+        openTransfer.to_user_id === userId
+          ? 'You have already requested a transfer of this vehicle'
+          : 'A transfer of this vehicle is already in progress',
+      );
+    }
+
+    const expiresAt = new Date(
+      Date.now() + DISPUTE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    let transfer: TransferWithVehicle;
+    try {
+      transfer = await this.prisma.vehicleTransfer.create({
+        data: {
+          vehicle_id: vehicle.id,
+          from_user_id: vehicle.user_id,
+          to_user_id: userId,
+          expires_at: expiresAt,
+        },
+        include: { vehicle: { select: VEHICLE_SELECT } },
+      });
+    } catch (error) {
+      // Another claim was opened since the check above
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'A transfer of this vehicle is already in progress',
+        );
+      }
+      throw error;
+    }
+
+    try {
+      await this.vehicleTransferQueue.add(
+        'completeVehicleTransfer',
+        { transfer_id: transfer.id },
+        {
+          delay: Math.max(expiresAt.getTime() - Date.now(), 0),
+          jobId: `vehicle-transfer-${transfer.id}`,
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      // Without the job an undisputed transfer would never complete
+      this.logger.error(
+        `Failed to schedule vehicle transfer ${transfer.id}: ${error.message}`,
+        error.stack,
+      );
+      await this.prisma.vehicleTransfer.delete({ where: { id: transfer.id } });
+      throw new InternalServerErrorException(
+        'Could not request the transfer, please try again',
+      );
+    }
+
+    await this.notificationService.create({
+      receiver_id: vehicle.user_id,
+      type: NotificationType.VEHICLE_TRANSFER,
+      text: `Another driver says they are now the keeper of ${registrationNumber} and has asked for it to be moved to their account. If you have sold it, confirm the transfer. Otherwise dispute it before ${expiresAt.toDateString()}, when it will go through automatically.`,
+      entity_id: transfer.id,
+      actions: [
+        {
+          label: 'Confirm',
+          action: 'confirm_vehicle_transfer',
+          variant: 'success',
+        },
+        {
+          label: 'Dispute',
+          action: 'dispute_vehicle_transfer',
+          variant: 'danger',
+        },
+      ],
+    });
+
+    this.logger.log(
+      `Driver ${userId} requested transfer ${transfer.id} of ${registrationNumber}`,
+    );
+
+    return {
+      success: true,
+      message: `Transfer requested. The current owner has been notified and the vehicle will move to your account on ${expiresAt.toDateString()} unless they dispute it.`,
+      data: this.formatTransfer(transfer),
+    };
+  }
+
+  /**
+   * Claims the driver made and claims on the driver's own vehicles
+   */
+  async getMyTransfers(userId: string) {
+    const transfers = await this.prisma.vehicleTransfer.findMany({
+      where: { OR: [{ from_user_id: userId }, { to_user_id: userId }] },
+      include: { vehicle: { select: VEHICLE_SELECT } },
+      orderBy: { created_at: 'desc' },
+      take: 50,
+    });
+
+    return {
+      success: true,
+      message: 'Vehicle transfers retrieved successfully',
+      data: {
+        incoming: transfers
+          .filter((transfer) => transfer.to_user_id === userId)
+          .map((transfer) => this.formatTransfer(transfer)),
+        outgoing: transfers
+          .filter((transfer) => transfer.from_user_id === userId)
+          .map((transfer) => this.formatTransfer(transfer)),
+      },
+    };
+  }
+
+  /**
+   * Current owner agrees to hand the vehicle over straight away
+   */
+  async confirmTransfer(userId: string, transferId: string) {
+    const transfer = await this.findOpenTransfer(transferId, {
+      from_user_id: userId,
+      status: VehicleTransferStatus.PENDING,
+    });
+
+    const completed = await this.completeTransfer(transfer);
+
+    return {
+      success: true,
+      message: `${transfer.vehicle.registration_number} has been moved to the new owner`,
+      data: this.formatTransfer(completed),
+    };
+  }
+
+  /**
+   * Current owner objects; the transfer waits for an admin decision
+   */
+  async disputeTransfer(
+    userId: string,
+    transferId: string,
+    dto: DisputeVehicleTransferDto,
+  ) {
+    const transfer = await this.findOpenTransfer(transferId, {
+      from_user_id: userId,
+      status: VehicleTransferStatus.PENDING,
+    });
+
+    const { count } = await this.prisma.vehicleTransfer.updateMany({
+      where: { id: transfer.id, status: VehicleTransferStatus.PENDING },
+      data: {
+        status: VehicleTransferStatus.DISPUTED,
+        dispute_reason: dto.reason,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('This transfer can no longer be disputed');
+    }
+
+    const registrationNumber = transfer.vehicle.registration_number;
+    await this.notificationService.create({
+      receiver_id: transfer.to_user_id,
+      type: NotificationType.VEHICLE_TRANSFER,
+      text: `The current owner of ${registrationNumber} has disputed your transfer request. Our team will review it and let you know the outcome.`,
+      entity_id: transfer.id,
+    });
+    await this.notifyAdmins(
+      `Vehicle transfer of ${registrationNumber} has been disputed and needs a decision.`,
+      transfer.id,
+    );
+
+    return {
+      success: true,
+      message:
+        'Transfer disputed. Our team will review it and the vehicle stays in your account meanwhile.',
+      data: this.formatTransfer({
+        ...transfer,
+        status: VehicleTransferStatus.DISPUTED,
+        dispute_reason: dto.reason,
+      }),
+    };
+  }
+
+  /**
+   * Claimant withdraws their request
+   */
+  async cancelTransfer(userId: string, transferId: string) {
+    const transfer = await this.findOpenTransfer(transferId, {
+      to_user_id: userId,
+    });
+
+    const cancelled = await this.closeTransfer(
+      transfer,
+      VehicleTransferStatus.CANCELLED,
+    );
+
+    await this.notificationService.create({
+      receiver_id: transfer.from_user_id,
+      type: NotificationType.VEHICLE_TRANSFER,
+      text: `The transfer request for ${transfer.vehicle.registration_number} has been withdrawn. The vehicle stays in your account.`,
+      entity_id: transfer.id,
+    });
+
+    return {
+      success: true,
+      message: 'Transfer request cancelled',
+      data: this.formatTransfer(cancelled),
+    };
+  }
+
+  /**
+   * Complete an undisputed transfer once its dispute window has passed
+   */
+  async completeExpiredTransfer(transferId: string) {
+    const transfer = await this.prisma.vehicleTransfer.findUnique({
+      where: { id: transferId },
+      include: { vehicle: { select: VEHICLE_SELECT } },
+    });
+
+    if (
+      !transfer ||
+      transfer.status !== VehicleTransferStatus.PENDING ||
+      transfer.expires_at.getTime() > Date.now()
+    ) {
+      return;
+    }
+
+    try {
+      await this.completeTransfer(transfer);
+    } catch (error) {
+      if (!(error instanceof ConflictException)) throw error;
+      this.logger.warn(
+        `Vehicle transfer ${transferId} not completed: ${error.message}`,
+      );
+    }
+  }
+
+  async getDisputedTransfers() {
+    const transfers = await this.prisma.vehicleTransfer.findMany({
+      where: { status: VehicleTransferStatus.DISPUTED },
+      include: {
+        vehicle: { select: VEHICLE_SELECT },
+        from_user: { select: { id: true, name: true, email: true } },
+        to_user: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { updated_at: 'asc' },
+    });
+
+    return {
+      success: true,
+      message: 'Disputed vehicle transfers retrieved successfully',
+      data: transfers.map((transfer) => ({
+        ...this.formatTransfer(transfer),
+        from_user: transfer.from_user,
+        to_user: transfer.to_user,
+      })),
+    };
+  }
+
+  /**
+   * Admin decision on a disputed transfer
+   */
+  async resolveDispute(transferId: string, dto: ResolveVehicleTransferDto) {
+    const transfer = await this.findOpenTransfer(transferId, {
+      status: VehicleTransferStatus.DISPUTED,
+    });
+
+    const resolved = dto.approve
+      ? await this.completeTransfer(transfer, dto.note)
+      : await this.closeTransfer(
+          transfer,
+          VehicleTransferStatus.REJECTED,
+          dto.note,
+        );
+
+    if (!dto.approve) {
+      const registrationNumber = transfer.vehicle.registration_number;
+      const note = dto.note ? ` ${dto.note}` : '';
+      await Promise.all([
+        this.notificationService.create({
+          receiver_id: transfer.to_user_id,
+          type: NotificationType.VEHICLE_TRANSFER,
+          text: `Your transfer request for ${registrationNumber} was not approved.${note}`,
+          entity_id: transfer.id,
+        }),
+        this.notificationService.create({
+          receiver_id: transfer.from_user_id,
+          type: NotificationType.VEHICLE_TRANSFER,
+          text: `Your dispute was upheld and ${registrationNumber} stays in your account.${note}`,
+          entity_id: transfer.id,
+        }),
+      ]);
+    }
+
+    return {
+      success: true,
+      message: dto.approve
+        ? 'Transfer approved and vehicle moved to the new owner'
+        : 'Transfer rejected',
+      data: this.formatTransfer(resolved),
+    };
+  }
+
+  /**
+   * Move the vehicle, and with it its MOT history, to the claimant. Orders
+   * reference their driver directly, so past bookings stay with the previous
+   * owner.
+   */
+  private async completeTransfer(
+    transfer: TransferWithVehicle,
+    resolutionNote?: string,
+  ): Promise<TransferWithVehicle> {
+    const resolvedAt = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.vehicleTransfer.updateMany({
+        where: { id: transfer.id, status: { in: OPEN_STATUSES } },
+        data: {
+          status: VehicleTransferStatus.COMPLETED,
+          resolved_at: resolvedAt,
+          resolution_note: resolutionNote ?? null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException('This transfer is no longer open');
+      }
+
+      const moved = await tx.vehicle.updateMany({
+        where: { id: transfer.vehicle_id, user_id: transfer.from_user_id },
+        data: { user_id: transfer.to_user_id, updated_at: resolvedAt },
+      });
+      if (moved.count === 0) {
+        throw new ConflictException(
+          'The vehicle is no longer in the account it was claimed from',
+        );
+      }
+    });
+
+    const registrationNumber = transfer.vehicle.registration_number;
+    await Promise.all([
+      this.notificationService.create({
+        receiver_id: transfer.to_user_id,
+        type: NotificationType.VEHICLE_TRANSFER,
+        text: `${registrationNumber} is now in your account, along with its MOT history.`,
+        entity_id: transfer.id,
+      }),
+      this.notificationService.create({
+        receiver_id: transfer.from_user_id,
+        type: NotificationType.VEHICLE_TRANSFER,
+        text: `${registrationNumber} has been moved to its new owner. Your past bookings for it remain in your account.`,
+        entity_id: transfer.id,
+      }),
+    ]);
+
+    this.logger.log(
+      `Vehicle ${registrationNumber} transferred from ${transfer.from_user_id} to ${transfer.to_user_id}`,
+    );
+
+    return {
+      ...transfer,
+      status: VehicleTransferStatus.COMPLETED,
+      resolved_at: resolvedAt,
+      resolution_note: resolutionNote ?? null,
+    };
+  }
+
+  private async closeTransfer(
+    transfer: TransferWithVehicle,
+    status: VehicleTransferStatus,
+    resolutionNote?: string,
+  ): Promise<TransferWithVehicle> {
+    const resolvedAt = new Date();
+
+    const { count } = await this.prisma.vehicleTransfer.updateMany({
+      where: { id: transfer.id, status: { in: OPEN_STATUSES } },
+      data: {
+        status,
+        resolved_at: resolvedAt,
+        resolution_note: resolutionNote ?? null,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('This transfer is no longer open');
+    }
+
+    return {
+      ...transfer,
+      status,
+      resolved_at: resolvedAt,
+      resolution_note: resolutionNote ?? null,
+    };
+  }
+
+  private async findOpenTransfer(
+    transferId: string,
+    where: Prisma.VehicleTransferWhereInput,
+  ): Promise<TransferWithVehicle> {
+    const transfer = await this.prisma.vehicleTransfer.findFirst({
+      where: { status: { in: OPEN_STATUSES }, ...where, id: transferId },
+      include: { vehicle: { select: VEHICLE_SELECT } },
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Open vehicle transfer not found');
+    }
+    return transfer;
+  }
+
+  private async notifyAdmins(text: string, transferId: string) {
+    const admins = await this.prisma.user.findMany({
+      where: { type: UserRole.ADMIN, status: 1 },
+      select: { id: true },
+    });
+
+    await Promise.all(
+      admins.map((admin) =>
+        this.notificationService.create({
+          receiver_id: admin.id,
+          type: NotificationType.VEHICLE_TRANSFER,
+          text,
+          entity_id: transferId,
+        }),
+      ),
+    );
+  }
+
+  private formatTransfer(transfer: TransferWithVehicle) {
+    return {
+      id: transfer.id,
+      vehicle: transfer.vehicle,
+      status: transfer.status,
+      expires_at: transfer.expires_at,
+      dispute_reason: transfer.dispute_reason,
+      resolution_note: transfer.resolution_note,
+      resolved_at: transfer.resolved_at,
+      created_at: transfer.created_at,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { PickType } from '@nestjs/swagger';
+import { BookSlotDto } from './book-slot.dto';
+
+export class BookRetestDto extends PickType(BookSlotDto, [
+  'slot_id',
+  'date',
+  'start_time',
+  'end_time',
+  'payment_mode',
+] as const) {}
@@ -1,4 +1,6 @@
 import {
+  ArrayMaxSize,
+  IsArray,
   IsString,
   IsNotEmpty,
   IsEnum,
@@ -7,6 +9,7 @@ import {
   ValidateIf,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderPaymentMode } from '@prisma/client';
 
 export enum BookableServiceType {
   MOT = 'MOT',
@@ -98,4 +101,28 @@ export class BookSlotDto {
     message: 'Service type must be either MOT or RETEST',
   })
   service_type: BookableServiceType;
+
+  @ApiPropertyOptional({
+    description:
+      'IDs of additional (add-on) services offered by the garage, e.g. wheel alignment',
+    type: [String],
+    example: ['clx1234567890abcdef'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  additional_service_ids?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'How the booking is paid: at the garage (default), in full now, or a deposit now',
+    enum: OrderPaymentMode,
+    example: OrderPaymentMode.PAY_AT_GARAGE,
+  })
+  @IsOptional()
+  @IsEnum(OrderPaymentMode, {
+    message: 'Payment mode must be PAY_AT_GARAGE, FULL or DEPOSIT',
+  })
+  payment_mode?: OrderPaymentMode;
 }
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CancelBookingDto {
+  @ApiProperty({
+    required: false,
+    description: 'Optional reason for cancelling the booking',
+    example: 'Vehicle sold',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangeRegistrationDto {
+  @ApiProperty({
+    description:
+      'The plate the vehicle carries now, e.g. after a cherished transfer',
+    example: 'AB12CDE',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Registration number is required' })
+  @Length(1, 10)
+  registration_number: string;
+}
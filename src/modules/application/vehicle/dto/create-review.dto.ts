@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateReviewDto {
+  @ApiProperty({
+    description: 'Rating of the garage from 1 (poor) to 5 (excellent)',
+    example: 5,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Optional written review',
+    example: 'Quick and friendly MOT, clear explanation of the advisories.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
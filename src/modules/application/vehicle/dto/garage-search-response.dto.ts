@@ -1,4 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NextAvailableSlotDto } from '../../garage-dashboard/dto/next-available-slot.dto';
 
 export class GarageDto {
   @ApiProperty({
@@ -54,6 +55,26 @@ export class GarageDto {
     example: 45.0,
   })
   mot_price?: number;
+
+  @ApiProperty({
+    description: 'Average rating of published reviews (1-5)',
+    example: 4.6,
+    nullable: true,
+  })
+  average_rating?: number | null;
+
+  @ApiProperty({
+    description: 'Number of published reviews',
+    example: 12,
+  })
+  review_count?: number;
+
+  @ApiProperty({
+    description: 'Earliest bookable slot within the next two weeks',
+    type: NextAvailableSlotDto,
+    nullable: true,
+  })
+  next_available_slot?: NextAvailableSlotDto | null;
 }
 
 export class VehicleInfoDto {
@@ -105,6 +126,13 @@ export class VehicleInfoDto {
     example: 'clx1234567890abcdef',
   })
   vehicle_id: string;
+
+  @ApiPropertyOptional({
+    description:
+      'True when DVLA/DVSA were unavailable and this is an older cached copy',
+    example: false,
+  })
+  data_stale?: boolean;
 }
 
 export class GarageSearchResponseDto {
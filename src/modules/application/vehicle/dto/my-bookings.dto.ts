@@ -54,6 +54,76 @@ export class BookingDto {
   @ApiProperty({ enum: ['PENDING', 'ACCEPTED', 'REJECTED'] }) status: string;
   @ApiProperty() vehicle_registration: string;
   @ApiProperty({ enum: ['MOT', 'RETEST'] }) service_type: string;
+  @ApiProperty({
+    description: 'Add-on services booked with the main service',
+    example: [{ name: 'Wheel Alignment', price: '35' }],
+  })
+  additional_services: { name: string; price: string }[];
+  @ApiProperty({ enum: ['PAY_AT_GARAGE', 'FULL', 'DEPOSIT'] })
+  payment_mode: string;
+  @ApiProperty({
+    enum: ['PENDING', 'PAID', 'FAILED', 'REFUNDED', 'PARTIALLY_REFUNDED'],
+    nullable: true,
+  })
+  payment_status: string | null;
+  @ApiProperty({ nullable: true, example: '54.85' })
+  refunded_amount: string | null;
+  @ApiProperty({
+    enum: ['PENDING', 'REFUNDED', 'FAILED'],
+    nullable: true,
+    description: 'Status of the latest refund for this booking',
+  })
+  refund_status: string | null;
+  @ApiProperty({
+    enum: ['PENDING_RESULT', 'OFFERED', 'BOOKED', 'NOT_REQUIRED', 'EXPIRED'],
+    nullable: true,
+    description: 'Retest offer after a failed MOT (MOT bookings only)',
+  })
+  retest_status: string | null;
+  @ApiProperty({
+    nullable: true,
+    description: 'Last day a retest can be booked for the offer',
+  })
+  retest_deadline: string | null;
+  @ApiProperty({
+    nullable: true,
+    description: 'Original MOT booking when this booking is a retest',
+  })
+  parent_order_id: string | null;
+  @ApiProperty({
+    nullable: true,
+    description: 'Latest driver reschedule request for this booking',
+    example: {
+      id: 'clx1234567890abcdef',
+      status: 'PENDING',
+      requested_start: '2025-12-10T09:00:00.000Z',
+      requested_end: '2025-12-10T10:00:00.000Z',
+      expires_at: '2025-12-09T09:00:00.000Z',
+    },
+  })
+  reschedule_request: {
+    id: string;
+    status: string;
+    requested_start: string;
+    requested_end: string;
+    expires_at: string;
+  } | null;
+  @ApiProperty({
+    nullable: true,
+    description: 'Review left by the driver once the booking was completed',
+    example: {
+      id: 'clx1234567890abcdef',
+      rating: 5,
+      comment: 'Quick and friendly MOT.',
+      reply: 'Thanks, see you next year!',
+    },
+  })
+  review: {
+    id: string;
+    rating: number;
+    comment: string | null;
+    reply: string | null;
+  } | null;
 }
 
 export class MyBookingsResponseDto {
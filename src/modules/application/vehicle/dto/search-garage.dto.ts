@@ -12,6 +12,7 @@ export enum GarageSortBy {
   DISTANCE = 'DISTANCE',
   PRICE_LOW_TO_HIGH = 'PRICE_LOW_TO_HIGH',
   PRICE_HIGH_TO_LOW = 'PRICE_HIGH_TO_LOW',
+  RATING = 'RATING',
 }
 
 export class SearchGarageDto {
@@ -0,0 +1,154 @@
+import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { MotSyncStatus, Prisma } from '@prisma/client';
+import { Job, Queue } from 'bullmq';
+import appConfig from 'src/config/app.config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { VehicleService } from './vehicle.service';
+
+const BATCH_SIZE = 500;
+// Leaves most of DVSA's 15 requests/second to live searches
+const REFRESHES_PER_SECOND = 5;
+// A failed sync waits for the next nightly sweep rather than retrying at once
+const RETRY_AFTER_HOURS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps MOT expiry data current without a driver having to ask: every night
+ * vehicles near their MOT expiry or not synced for a while are queued and
+ * re-synced with DVSA at a throttled rate, ahead of the midnight MOT reminders.
+ */
+@Processor('mot-refresh-queue', {
+  limiter: { max: REFRESHES_PER_SECOND, duration: 1000 },
+})
+export class MotRefreshProcessor extends WorkerHost {
+  private readonly logger = new Logger(MotRefreshProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vehicleService: VehicleService,
+    @InjectQueue('mot-refresh-queue') private readonly motRefreshQueue: Queue,
+  ) {
+    super();
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_11PM)
+  async enqueueDueVehicles() {
+    const where = this.dueVehiclesWhere(new Date());
+    let cursor: string | undefined;
+    let queued = 0;
+
+    for (;;) {
+      const vehicles = await this.prisma.vehicle.findMany({
+        where,
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (vehicles.length === 0) break;
+
+      // Job ids dedupe vehicles still queued from a previous sweep
+      await this.motRefreshQueue.addBulk(
+        vehicles.map((vehicle) => ({
+          name: 'refreshVehicleMot',
+          data: { vehicle_id: vehicle.id },
+          opts: {
+            jobId: `mot-refresh-${vehicle.id}`,
+            removeOnComplete: true,
+            removeOnFail: true,
+          },
+        })),
+      );
+
+      queued += vehicles.length;
+      cursor = vehicles[vehicles.length - 1].id;
+    }
+
+    this.logger.log(`Queued ${queued} vehicles for MOT history refresh`);
+  }
+
+  async process(job: Job<{ vehicle_id: string }>) {
+    switch (job.name) {
+      case 'refreshVehicleMot':
+        await this.refreshVehicle(job.data.vehicle_id);
+        break;
+      default:
+        this.logger.warn(`Unknown job ${job.name}`);
+    }
+  }
+
+  private async refreshVehicle(vehicleId: string) {
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      select: {
+        id: true,
+        registration_number: true,
+        mot_expiry_date: true,
+        is_expired: true,
+      },
+    });
+    if (!vehicle) return;
+
+    try {
+      await this.vehicleService.syncMotHistory(vehicle);
+    } catch (error) {
+      // Already recorded on the vehicle as FAILED; picked up again next sweep
+      this.logger.warn(
+        `MOT refresh failed for ${vehicle.registration_number}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Vehicles within the expiry window are re-synced daily, everything else
+   * once its data is older than the stale threshold
+   */
+  private dueVehiclesWhere(now: Date): Prisma.VehicleWhereInput {
+    const { mot_refresh_stale_days, mot_refresh_expiry_window_days } =
+      appConfig().vehicle_data;
+    const windowMs = mot_refresh_expiry_window_days * DAY_MS;
+
+    return {
+      AND: [
+        // Its plate has moved to another vehicle; waits for the driver
+        {
+          OR: [
+            { mot_sync_status: null },
+            { mot_sync_status: { not: MotSyncStatus.PLATE_CHANGED } },
+          ],
+        },
+        {
+          OR: [
+            { mot_sync_attempted_at: null },
+            {
+              mot_sync_attempted_at: {
+                lt: new Date(
+                  now.getTime() - RETRY_AFTER_HOURS * 60 * 60 * 1000,
+                ),
+              },
+            },
+          ],
+        },
+        {
+          OR: [
+            { mot_synced_at: null },
+            {
+              mot_synced_at: {
+                lt: new Date(now.getTime() - mot_refresh_stale_days * DAY_MS),
+              },
+            },
+            {
+              mot_expiry_date: {
+                gte: new Date(now.getTime() - windowMs),
+                lte: new Date(now.getTime() + windowMs),
+              },
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
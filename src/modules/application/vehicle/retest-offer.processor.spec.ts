@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BankHolidayRegion, RetestOfferStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { RetestOfferProcessor } from './retest-offer.processor';
+import { VehicleService } from './vehicle.service';
+
+describe('RetestOfferProcessor', () => {
+  // MOT failed on Thursday 17 December 2026
+  const order = {
+    id: 'order-1',
+    driver_id: 'driver-1',
+    garage_id: 'garage-1',
+    order_date: new Date('2026-12-17T09:00:00.000Z'),
+    completed_at: new Date('2026-12-17T10:00:00.000Z'),
+    garage: {
+      id: 'garage-1',
+      garage_name: 'High Street Motors',
+      schedule: {
+        time_zone: 'Europe/London',
+        bank_holiday_region: BankHolidayRegion.ENGLAND_AND_WALES,
+      },
+    },
+    vehicle: { id: 'vehicle-1', registration_number: 'AB12CDE' },
+  };
+
+  const prisma = {
+    order: { findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    motReport: { findFirst: jest.fn() },
+    service: { findFirst: jest.fn() },
+    bankHoliday: { findMany: jest.fn() },
+  };
+  const notificationService = { create: jest.fn() };
+  const vehicleService = { refreshMotHistory: jest.fn() };
+
+  let processor: RetestOfferProcessor;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({
+      now: new Date('2026-12-18T12:00:00.000Z'),
+      doNotFake: ['nextTick', 'setImmediate'],
+    });
+
+    prisma.order.findMany.mockResolvedValue([order]);
+    prisma.order.updateMany.mockResolvedValue({ count: 0 });
+    prisma.motReport.findFirst.mockResolvedValue({
+      status: 'FAILED',
+      test_date: new Date('2026-12-17T09:30:00.000Z'),
+    });
+    prisma.service.findFirst.mockResolvedValue({ price: 30 });
+    prisma.bankHoliday.findMany.mockResolvedValue([
+      { date: new Date('2026-12-25T00:00:00.000Z') },
+      { date: new Date('2026-12-28T00:00:00.000Z') },
+      { date: new Date('2027-01-01T00:00:00.000Z') },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RetestOfferProcessor,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: VehicleService, useValue: vehicleService },
+      ],
+    }).compile();
+
+    processor = module.get(RetestOfferProcessor);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('gives ten working days, skipping weekends and the garage region bank holidays', async () => {
+    await processor.handleCron();
+
+    expect(prisma.bankHoliday.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          region: BankHolidayRegion.ENGLAND_AND_WALES,
+        }),
+      }),
+    );
+    // End of Tuesday 5 January 2027 in London
+    expect(prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: {
+        retest_status: RetestOfferStatus.OFFERED,
+        retest_deadline: new Date('2027-01-05T23:59:59.999Z'),
+      },
+    });
+    expect(notificationService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: expect.stringContaining('before 05/01/2027'),
+      }),
+    );
+  });
+});
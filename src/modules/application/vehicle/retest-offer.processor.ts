@@ -0,0 +1,239 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BankHolidayRegion,
+  RetestOfferStatus,
+  ServiceType,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  DEFAULT_TIME_ZONE,
+  TimezoneHelper,
+} from 'src/common/helper/timezone.helper';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from 'src/common/repository/notification/notification.repository';
+import { VehicleService } from './vehicle.service';
+
+// DVSA: a partial/free retest must happen within 10 working days of the failed test
+const RETEST_WINDOW_WORKING_DAYS = 10;
+// Stop waiting for the DVSA result this long after the garage completed the MOT
+const RESULT_WAIT_HOURS = 72;
+
+@Injectable()
+export class RetestOfferProcessor {
+  private readonly logger = new Logger(RetestOfferProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly vehicleService: VehicleService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_30_MINUTES)
+  async handleCron() {
+    await this.expireOffers();
+
+    const orders = await this.prisma.order.findMany({
+      where: { retest_status: RetestOfferStatus.PENDING_RESULT },
+      include: {
+        garage: {
+          select: {
+            id: true,
+            garage_name: true,
+            schedule: {
+              select: { time_zone: true, bank_holiday_region: true },
+            },
+          },
+        },
+        vehicle: { select: { id: true, registration_number: true } },
+      },
+      take: 50,
+    });
+
+    for (const order of orders) {
+      try {
+        await this.checkMotResult(order);
+      } catch (error) {
+        // ❌ One failure won't stop others
+        this.logger.error(
+          `Failed to check MOT result for booking ${order.id}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  /**
+   * Look up the DVSA result of a completed MOT booking and offer a retest on FAIL
+   */
+  private async checkMotResult(order: any) {
+    if (!order.driver_id || !order.vehicle) {
+      await this.setRetestStatus(order.id, RetestOfferStatus.NOT_REQUIRED);
+      return;
+    }
+
+    // Pull the latest DVSA history into MotReport
+    try {
+      await this.vehicleService.refreshMotHistory(
+        order.driver_id,
+        order.vehicle.id,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not refresh MOT history for booking ${order.id}: ${error.message}`,
+      );
+    }
+
+    const timeZone = order.garage?.schedule?.time_zone ?? DEFAULT_TIME_ZONE;
+    const testDayStart = TimezoneHelper.startOfDay(
+      TimezoneHelper.toDateString(order.order_date, timeZone),
+      timeZone,
+    );
+
+    const report = await this.prisma.motReport.findFirst({
+      where: {
+        vehicle_id: order.vehicle.id,
+        test_date: { gte: testDayStart },
+      },
+      orderBy: { test_date: 'desc' },
+    });
+
+    if (!report) {
+      const waitedHours =
+        (Date.now() -
+          new Date(order.completed_at || order.order_date).getTime()) /
+        3600000;
+
+      if (waitedHours > RESULT_WAIT_HOURS) {
+        this.logger.warn(
+          `No DVSA result found for booking ${order.id}; giving up on retest offer`,
+        );
+        await this.setRetestStatus(order.id, RetestOfferStatus.NOT_REQUIRED);
+      }
+      return;
+    }
+
+    if (report.status !== 'FAILED') {
+      await this.setRetestStatus(order.id, RetestOfferStatus.NOT_REQUIRED);
+      return;
+    }
+
+    const deadline = await this.addWorkingDays(
+      report.test_date,
+      RETEST_WINDOW_WORKING_DAYS,
+      timeZone,
+      order.garage?.schedule?.bank_holiday_region ??
+        BankHolidayRegion.ENGLAND_AND_WALES,
+    );
+
+    if (deadline.getTime() < Date.now()) {
+      await this.setRetestStatus(order.id, RetestOfferStatus.EXPIRED);
+      return;
+    }
+
+    const retestService = await this.prisma.service.findFirst({
+      where: {
+        garage_id: order.garage_id,
+        type: ServiceType.RETEST,
+        price: { not: null },
+      },
+    });
+
+    if (!retestService) {
+      // Garage does not offer retests online
+      await this.setRetestStatus(order.id, RetestOfferStatus.NOT_REQUIRED);
+      return;
+    }
+
+    await this.prisma.order.update({
+      where: { id: order.id },
+      data: {
+        retest_status: RetestOfferStatus.OFFERED,
+        retest_deadline: deadline,
+      },
+    });
+
+    await this.notificationService.create({
+      receiver_id: order.driver_id,
+      sender_id: order.garage_id,
+      type: NotificationType.BOOKING,
+      text: `${order.vehicle.registration_number} failed its MOT at ${order.garage?.garage_name || 'the garage'}. Book a retest there for ${Number(retestService.price).toFixed(2)} before ${deadline.toLocaleDateString('en-GB', { timeZone })}.`,
+      entity_id: order.id,
+      actions: [
+        {
+          label: 'Book retest',
+          action: 'book_retest',
+          variant: 'success',
+        },
+      ],
+    });
+
+    this.logger.log(
+      `Retest offered for booking ${order.id} until ${deadline.toISOString()}`,
+    );
+  }
+
+  private async expireOffers() {
+    const { count } = await this.prisma.order.updateMany({
+      where: {
+        retest_status: RetestOfferStatus.OFFERED,
+        retest_deadline: { lt: new Date() },
+      },
+      data: { retest_status: RetestOfferStatus.EXPIRED },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Expired ${count} retest offers`);
+    }
+  }
+
+  private async setRetestStatus(orderId: string, status: RetestOfferStatus) {
+    await this.prisma.order.update({
+      where: { id: orderId },
+      data: { retest_status: status },
+    });
+  }
+
+  /**
+   * End of the day, in the garage's time zone, that is `days` working days
+   * (Mon-Fri, excluding the region's bank holidays) after `from`
+   */
+  private async addWorkingDays(
+    from: Date,
+    days: number,
+    timeZone: string,
+    region: BankHolidayRegion,
+  ): Promise<Date> {
+    let date = TimezoneHelper.toDateString(from, timeZone);
+
+    // Twice the span plus two weeks covers any run of weekends and holidays
+    const bankHolidays = await this.prisma.bankHoliday.findMany({
+      where: {
+        region,
+        date: {
+          gt: new Date(`${date}T00:00:00.000Z`),
+          lte: new Date(
+            `${TimezoneHelper.addDays(date, days * 2 + 14)}T00:00:00.000Z`,
+          ),
+        },
+      },
+      select: { date: true },
+    });
+    const holidays = new Set(
+      bankHolidays.map((holiday) => holiday.date.toISOString().slice(0, 10)),
+    );
+
+    let added = 0;
+    while (added < days) {
+      date = TimezoneHelper.addDays(date, 1);
+      const day = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+      if (day !== 0 && day !== 6 && !holidays.has(date)) {
+        added++;
+      }
+    }
+
+    return new Date(
+      TimezoneHelper.startOfNextDay(date, timeZone).getTime() - 1,
+    );
+  }
+}
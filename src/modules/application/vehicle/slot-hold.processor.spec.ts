@@ -0,0 +1,49 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Job } from 'bullmq';
+import { SlotHoldProcessor } from './slot-hold.processor';
+import { VehicleBookingService } from './vehicle-booking.service';
+
+// The booking service pulls in the Stripe client, which needs an API key
+jest.mock('src/common/lib/Payment/stripe/StripePayment', () => ({
+  StripePayment: {},
+}));
+
+describe('SlotHoldProcessor', () => {
+  const vehicleBookingService = { releaseExpiredSlotHold: jest.fn() };
+
+  let processor: SlotHoldProcessor;
+
+  const job = (name: string) =>
+    ({ name, data: { slot_id: 'slot-1', held_by: 'driver-1' } }) as Job<{
+      slot_id: string;
+      held_by: string;
+    }>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotHoldProcessor,
+        { provide: VehicleBookingService, useValue: vehicleBookingService },
+      ],
+    }).compile();
+
+    processor = module.get(SlotHoldProcessor);
+  });
+
+  it('releases the hold the job was scheduled for', async () => {
+    await processor.process(job('releaseSlotHold'));
+
+    expect(vehicleBookingService.releaseExpiredSlotHold).toHaveBeenCalledWith(
+      'slot-1',
+      'driver-1',
+    );
+  });
+
+  it('ignores jobs it does not know', async () => {
+    await processor.process(job('somethingElse'));
+
+    expect(vehicleBookingService.releaseExpiredSlotHold).not.toHaveBeenCalled();
+  });
+});
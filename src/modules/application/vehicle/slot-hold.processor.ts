@@ -0,0 +1,29 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { VehicleBookingService } from './vehicle-booking.service';
+
+/**
+ * Releases checkout holds that were not turned into a booking in time
+ */
+@Processor('slot-hold-queue')
+export class SlotHoldProcessor extends WorkerHost {
+  private readonly logger = new Logger(SlotHoldProcessor.name);
+
+  constructor(private readonly vehicleBookingService: VehicleBookingService) {
+    super();
+  }
+
+  async process(job: Job<{ slot_id: string; held_by: string }>) {
+    switch (job.name) {
+      case 'releaseSlotHold':
+        await this.vehicleBookingService.releaseExpiredSlotHold(
+          job.data.slot_id,
+          job.data.held_by,
+        );
+        break;
+      default:
+        this.logger.warn(`Unknown job ${job.name}`);
+    }
+  }
+}
@@ -0,0 +1,519 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  OrderPaymentMode,
+  OrderStatus,
+  OrderStatusActor,
+  WaitlistStatus,
+} from '@prisma/client';
+import { VehicleDataService } from 'src/common/lib/DVLA/vehicle-data.service';
+import { NotificationType } from 'src/common/repository/notification/notification.repository';
+import { MailService } from 'src/mail/mail.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BookingPaymentService } from '../booking-payment/booking-payment.service';
+import { BookingStatusService } from '../booking-status/booking-status.service';
+import { GarageBookingService } from '../garage-dashboard/services/garage-booking.service';
+import { GarageScheduleService } from '../garage-dashboard/services/garage-schedule.service';
+import { NotificationService } from '../notification/notification.service';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { VehicleBookingService } from './vehicle-booking.service';
+import { VehicleGarageService } from './vehicle-garage.service';
+import { VehicleRegistrationService } from './vehicle-registration.service';
+import { VehicleService } from './vehicle.service';
+
+// The payment services pull in the Stripe client, which needs an API key
+jest.mock('src/common/lib/Payment/stripe/StripePayment', () => ({
+  StripePayment: {},
+}));
+
+describe('VehicleBookingService', () => {
+  const slot = {
+    id: 'slot-1',
+    garage_id: 'garage-1',
+    start_datetime: new Date('2026-11-02T09:00:00.000Z'),
+    end_datetime: new Date('2026-11-02T10:00:00.000Z'),
+  };
+  const heldUntil = new Date('2026-11-01T12:10:00.000Z');
+
+  const tx = {
+    timeSlot: {
+      updateMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    order: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+    setting: { findUnique: jest.fn() },
+    timeSlot: { updateMany: jest.fn(), findUnique: jest.fn() },
+    user: { findFirst: jest.fn() },
+    order: { findFirst: jest.fn() },
+    websiteInfo: { findFirst: jest.fn() },
+    review: { create: jest.fn() },
+  };
+  const vehicleGarageService = { validateGarageAvailability: jest.fn() };
+  const garageScheduleService = {
+    getGarageTimeZone: jest.fn(),
+    viewAvailableSlots: jest.fn(),
+  };
+  const garageBookingService = {
+    releaseBooking: jest.fn(),
+    afterBookingReleased: jest.fn(),
+  };
+  const bookingStatusService = {
+    canTransition: jest.fn(),
+    recordTransition: jest.fn(),
+  };
+  const notificationService = { create: jest.fn() };
+  const mailService = { sendBookingCancellationEmail: jest.fn() };
+  const waitlistService = { joinWaitlist: jest.fn() };
+  const availabilityCache = { invalidateGarage: jest.fn() };
+  const slotHoldQueue = { add: jest.fn() };
+
+  let service: VehicleBookingService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({
+      now: new Date('2026-11-01T12:00:00.000Z'),
+      doNotFake: ['nextTick', 'setImmediate'],
+    });
+
+    vehicleGarageService.validateGarageAvailability.mockResolvedValue(true);
+    prisma.setting.findUnique.mockResolvedValue(null);
+    prisma.user.findFirst.mockResolvedValue({ no_show_count: 0 });
+    slotHoldQueue.add.mockResolvedValue({});
+    garageScheduleService.getGarageTimeZone.mockResolvedValue('Europe/London');
+    tx.timeSlot.findFirst.mockResolvedValue(slot);
+    tx.timeSlot.update.mockResolvedValue({
+      ...slot,
+      is_available: false,
+      held_by: 'driver-1',
+      held_until: heldUntil,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VehicleBookingService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: VehicleService, useValue: {} },
+        { provide: VehicleGarageService, useValue: vehicleGarageService },
+        { provide: GarageScheduleService, useValue: garageScheduleService },
+        { provide: GarageBookingService, useValue: garageBookingService },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: MailService, useValue: mailService },
+        { provide: BookingPaymentService, useValue: {} },
+        { provide: BookingStatusService, useValue: bookingStatusService },
+        { provide: WaitlistService, useValue: waitlistService },
+        { provide: SlotAvailabilityCacheService, useValue: availabilityCache },
+        { provide: VehicleDataService, useValue: {} },
+        { provide: VehicleRegistrationService, useValue: {} },
+        { provide: getQueueToken('slot-hold-queue'), useValue: slotHoldQueue },
+      ],
+    }).compile();
+
+    service = module.get(VehicleBookingService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('holdSlot', () => {
+    it('holds the slot for the driver and schedules its release', async () => {
+      const result = await service.holdSlot('driver-1', {
+        garage_id: 'garage-1',
+        slot_id: 'slot-1',
+      });
+
+      expect(tx.timeSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot-1' },
+        data: {
+          is_available: false,
+          held_until: heldUntil,
+          held_by: 'driver-1',
+        },
+      });
+      expect(slotHoldQueue.add).toHaveBeenCalledWith(
+        'releaseSlotHold',
+        { slot_id: 'slot-1', held_by: 'driver-1' },
+        expect.objectContaining({
+          delay: 10 * 60 * 1000,
+          jobId: `slot-hold-slot-1-${heldUntil.getTime()}`,
+        }),
+      );
+      expect(availabilityCache.invalidateGarage).toHaveBeenCalledWith(
+        'garage-1',
+      );
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          slot_id: 'slot-1',
+          date: '2026-11-02',
+          start_time: '09:00',
+          held_until: heldUntil,
+        }),
+      );
+    });
+
+    it('replaces an earlier checkout hold but keeps waitlist offers', async () => {
+      await service.holdSlot('driver-1', {
+        garage_id: 'garage-1',
+        slot_id: 'slot-1',
+      });
+
+      expect(tx.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: {
+          held_by: 'driver-1',
+          order_id: null,
+          waitlist_offers: { none: { status: WaitlistStatus.OFFERED } },
+        },
+        data: { is_available: true, held_until: null, held_by: null },
+      });
+    });
+
+    it('refuses a slot that is already taken', async () => {
+      tx.timeSlot.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.holdSlot('driver-1', {
+          garage_id: 'garage-1',
+          slot_id: 'slot-1',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(slotHoldQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('gives the slot back when the release cannot be scheduled', async () => {
+      slotHoldQueue.add.mockRejectedValue(new Error('Redis unavailable'));
+      prisma.timeSlot.updateMany.mockResolvedValue({ count: 1 });
+      prisma.timeSlot.findUnique.mockResolvedValue({ garage_id: 'garage-1' });
+
+      await expect(
+        service.holdSlot('driver-1', {
+          garage_id: 'garage-1',
+          slot_id: 'slot-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: { id: 'slot-1', held_by: 'driver-1', order_id: null },
+        data: { is_available: true, held_until: null, held_by: null },
+      });
+    });
+  });
+
+  describe('releaseSlotHold', () => {
+    it('frees the driver hold and refreshes availability', async () => {
+      prisma.timeSlot.updateMany.mockResolvedValue({ count: 1 });
+      prisma.timeSlot.findUnique.mockResolvedValue({ garage_id: 'garage-1' });
+
+      await expect(
+        service.releaseSlotHold('driver-1', 'slot-1'),
+      ).resolves.toEqual(expect.objectContaining({ success: true }));
+      expect(availabilityCache.invalidateGarage).toHaveBeenCalledWith(
+        'garage-1',
+      );
+    });
+
+    it('does not touch a slot held by someone else', async () => {
+      prisma.timeSlot.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.releaseSlotHold('driver-2', 'slot-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(availabilityCache.invalidateGarage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('joinWaitlist', () => {
+    const day = (slots: Record<string, unknown>[]) => ({
+      success: true,
+      data: { slots },
+    });
+
+    it('refuses while a slot in the window can still be booked', async () => {
+      garageScheduleService.viewAvailableSlots.mockResolvedValue(
+        day([
+          { time: '09:00-10:00', status: ['BOOKED'], remaining_capacity: 0 },
+          { time: '14:00-15:00', status: ['AVAILABLE'], remaining_capacity: 1 },
+        ]),
+      );
+
+      await expect(
+        service.joinWaitlist('driver-1', 'garage-1', { date: '2026-11-02' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(waitlistService.joinWaitlist).not.toHaveBeenCalled();
+    });
+
+    it('joins when the only free slots are outside the window', async () => {
+      garageScheduleService.viewAvailableSlots.mockResolvedValue(
+        day([
+          { time: '09:00-10:00', status: ['BOOKED'], remaining_capacity: 0 },
+          { time: '14:00-15:00', status: ['AVAILABLE'], remaining_capacity: 1 },
+        ]),
+      );
+      const dto = { date: '2026-11-02', start_time: '9:00', end_time: '12:00' };
+
+      await service.joinWaitlist('driver-1', 'garage-1', dto);
+
+      expect(waitlistService.joinWaitlist).toHaveBeenCalledWith(
+        'driver-1',
+        'garage-1',
+        dto,
+      );
+    });
+
+    it('ignores free slots that have already started today', async () => {
+      // 12:00 in London on Sunday 1 November 2026
+      garageScheduleService.viewAvailableSlots.mockResolvedValue(
+        day([
+          { time: '09:00-10:00', status: ['AVAILABLE'], remaining_capacity: 1 },
+          { time: '13:00-14:00', status: ['BOOKED'], remaining_capacity: 0 },
+        ]),
+      );
+
+      await service.joinWaitlist('driver-1', 'garage-1', {
+        date: '2026-11-01',
+      });
+
+      expect(waitlistService.joinWaitlist).toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelMyBooking', () => {
+    const booking = (start: string) => ({
+      id: 'order-1',
+      status: OrderStatus.ACCEPTED,
+      driver_id: 'driver-1',
+      garage_id: 'garage-1',
+      slot_id: 'slot-1',
+      parent_order_id: null,
+      order_date: new Date(start),
+      slot: { start_datetime: new Date(start), end_datetime: null },
+      driver: { name: 'Dana', email: null },
+      garage: { garage_name: 'Test Garage', email: null },
+      vehicle: { registration_number: 'AB12CDE' },
+      items: [],
+    });
+
+    beforeEach(() => {
+      bookingStatusService.canTransition.mockReturnValue(true);
+      prisma.websiteInfo.findFirst.mockResolvedValue({
+        cancellation_policy: 'Free cancellation up to a day before.',
+      });
+      tx.order.updateMany.mockResolvedValue({ count: 1 });
+      tx.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order-1',
+        status: OrderStatus.CANCELLED,
+        updated_at: new Date('2026-11-01T12:00:00.000Z'),
+      });
+      garageBookingService.afterBookingReleased.mockResolvedValue(null);
+    });
+
+    it('refuses inside the cutoff and returns the policy separately', async () => {
+      // 21 hours ahead with the default 24-hour cutoff
+      prisma.order.findFirst.mockResolvedValue(
+        booking('2026-11-02T09:00:00.000Z'),
+      );
+
+      const cancel = service.cancelMyBooking('driver-1', 'order-1', {});
+
+      await expect(cancel).rejects.toThrow(BadRequestException);
+      await expect(cancel).rejects.toMatchObject({
+        response: {
+          message: expect.stringContaining('at least 24 hours'),
+          data: {
+            cutoff_hours: 24,
+            cancellation_policy: 'Free cancellation up to a day before.',
+          },
+        },
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('cancels from the status read and releases through the shared path', async () => {
+      const upcoming = booking('2026-11-04T09:00:00.000Z');
+      prisma.order.findFirst.mockResolvedValue(upcoming);
+
+      const result = await service.cancelMyBooking('driver-1', 'order-1', {
+        reason: 'Car sold',
+      });
+
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: OrderStatus.ACCEPTED },
+        data: { status: OrderStatus.CANCELLED, slot_id: null },
+      });
+      expect(bookingStatusService.recordTransition).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({
+          to_status: OrderStatus.CANCELLED,
+          actor: OrderStatusActor.DRIVER,
+          reason: 'Car sold',
+        }),
+      );
+      expect(garageBookingService.releaseBooking).toHaveBeenCalledWith(
+        tx,
+        upcoming,
+      );
+      expect(garageBookingService.afterBookingReleased).toHaveBeenCalledWith(
+        upcoming,
+        'Car sold',
+      );
+      expect(result.data.status).toBe(OrderStatus.CANCELLED);
+    });
+
+    it('refuses when the garage moved the booking on meanwhile', async () => {
+      prisma.order.findFirst.mockResolvedValue(
+        booking('2026-11-04T09:00:00.000Z'),
+      );
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.cancelMyBooking('driver-1', 'order-1', {}),
+      ).rejects.toThrow(ConflictException);
+      expect(garageBookingService.releaseBooking).not.toHaveBeenCalled();
+      expect(garageBookingService.afterBookingReleased).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createReview', () => {
+    const completed = {
+      id: 'order-1',
+      status: OrderStatus.COMPLETED,
+      garage_id: 'garage-1',
+      vehicle: { registration_number: 'AB12CDE' },
+      review: null,
+    };
+
+    beforeEach(() => {
+      prisma.review.create.mockResolvedValue({
+        id: 'review-1',
+        order_id: 'order-1',
+        rating: 5,
+        comment: 'Quick and friendly',
+        status: 'PUBLISHED',
+        created_at: new Date('2026-11-01T12:00:00.000Z'),
+      });
+    });
+
+    it('reviews a completed booking and tells the garage', async () => {
+      prisma.order.findFirst.mockResolvedValue(completed);
+
+      const result = await service.createReview('driver-1', 'order-1', {
+        rating: 5,
+        comment: '  Quick and friendly  ',
+      });
+
+      expect(prisma.review.create).toHaveBeenCalledWith({
+        data: {
+          order_id: 'order-1',
+          driver_id: 'driver-1',
+          garage_id: 'garage-1',
+          rating: 5,
+          comment: 'Quick and friendly',
+        },
+      });
+      expect(notificationService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          receiver_id: 'garage-1',
+          type: NotificationType.REVIEW,
+          entity_id: 'review-1',
+        }),
+      );
+      expect(result.data.id).toBe('review-1');
+    });
+
+    it('refuses a booking that is not completed', async () => {
+      prisma.order.findFirst.mockResolvedValue({
+        ...completed,
+        status: OrderStatus.ACCEPTED,
+      });
+
+      await expect(
+        service.createReview('driver-1', 'order-1', { rating: 4 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.review.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a second review, including one racing the first', async () => {
+      prisma.order.findFirst.mockResolvedValue({
+        ...completed,
+        review: { id: 'review-0' },
+      });
+
+      await expect(
+        service.createReview('driver-1', 'order-1', { rating: 4 }),
+      ).rejects.toThrow(ConflictException);
+
+      prisma.order.findFirst.mockResolvedValue(completed);
+      prisma.review.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), {
+          code: 'P2002',
+        }),
+      );
+
+      await expect(
+        service.createReview('driver-1', 'order-1', { rating: 4 }),
+      ).rejects.toThrow('This booking has already been reviewed');
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('no-show rules', () => {
+    const settings = (values: Record<string, string>) =>
+      prisma.setting.findUnique.mockImplementation(
+        ({ where }: { where: { key: string } }) =>
+          Promise.resolve(
+            values[where.key] ? { default_value: values[where.key] } : null,
+          ),
+      );
+
+    it('refuses to hold a slot for a blocked driver', async () => {
+      settings({ NO_SHOW_BLOCK_THRESHOLD: '3' });
+      prisma.user.findFirst.mockResolvedValue({ no_show_count: 3 });
+
+      await expect(
+        service.holdSlot('driver-1', {
+          garage_id: 'garage-1',
+          slot_id: 'slot-1',
+        }),
+      ).rejects.toThrow('Online booking is unavailable for your account');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('still holds a slot for a driver who must pay online', async () => {
+      // The payment mode is only chosen at checkout
+      prisma.user.findFirst.mockResolvedValue({ no_show_count: 2 });
+
+      await service.holdSlot('driver-1', {
+        garage_id: 'garage-1',
+        slot_id: 'slot-1',
+      });
+
+      expect(tx.timeSlot.update).toHaveBeenCalled();
+    });
+
+    it('refuses to reschedule a pay-at-garage booking past the prepayment threshold', async () => {
+      prisma.order.findFirst.mockResolvedValue({
+        id: 'order-1',
+        status: OrderStatus.ACCEPTED,
+        garage_id: 'garage-1',
+        payment_mode: OrderPaymentMode.PAY_AT_GARAGE,
+        driver: { no_show_count: 2 },
+      });
+
+      await expect(
+        service.requestReschedule('driver-1', 'order-1', {
+          slot_id: 'slot-2',
+        }),
+      ).rejects.toThrow('must be paid online');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,10 +4,28 @@ import {
   BadRequestException,
   ConflictException,
   Logger,
+  ServiceUnavailableException,
 } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { OrderStatus, ServiceType, UserRole } from '@prisma/client';
-import { DvlaService } from 'src/common/lib/DVLA/DvlaService';
+import { SettingHelper } from 'src/common/helper/setting.helper';
+import { TimeSlotHelper } from 'src/common/helper/time-slot.helper';
+import {
+  OrderPaymentMode,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  RescheduleRequestStatus,
+  RetestOfferStatus,
+  ServiceType,
+  TimeSlot,
+  UserRole,
+  WaitlistStatus,
+} from '@prisma/client';
+import { VehicleDataService } from 'src/common/lib/DVLA/vehicle-data.service';
 import { VehicleService } from './vehicle.service';
 import { VehicleGarageService } from './vehicle-garage.service';
 import { SearchGarageDto } from './dto/search-garage.dto';
@@ -16,15 +34,43 @@ import {
   VehicleInfoDto,
 } from './dto/garage-search-response.dto';
 import { BookableServiceType, BookSlotDto } from './dto/book-slot.dto';
+import { HoldSlotDto } from './dto/hold-slot.dto';
 import { GarageScheduleService } from '../garage-dashboard/services/garage-schedule.service';
+import { GarageBookingService } from '../garage-dashboard/services/garage-booking.service';
 import {
   GetMyBookingsDto,
   MyBookingsResponseDto,
   BookingDto,
 } from './dto/my-bookings.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { RequestRescheduleDto } from './dto/request-reschedule.dto';
+import { BookRetestDto } from './dto/book-retest.dto';
+import { CreateReviewDto } from './dto/create-review.dto';
 import { NotificationService } from '../notification/notification.service';
 import { NotificationType } from 'src/common/repository/notification/notification.repository';
 import { MailService } from 'src/mail/mail.service';
+import { BookingPaymentService } from '../booking-payment/booking-payment.service';
+import { BookingStatusService } from '../booking-status/booking-status.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { JoinWaitlistDto } from '../waitlist/dto/join-waitlist.dto';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+import { VehicleRegistrationService } from './vehicle-registration.service';
+import {
+  DEFAULT_TIME_ZONE,
+  TimezoneHelper,
+} from 'src/common/helper/timezone.helper';
+
+type BookingLineItems = {
+  items: { service_id: string; quantity: number; price: any }[];
+  total_amount: number;
+  extra_minutes: number;
+  additional_services: {
+    id: string;
+    name: string;
+    price: number;
+    duration_minutes: number | null;
+  }[];
+};
 
 @Injectable()
 export class VehicleBookingService {
@@ -35,8 +81,16 @@ export class VehicleBookingService {
     private readonly vehicleService: VehicleService,
     private readonly vehicleGarageService: VehicleGarageService,
     private readonly garageScheduleService: GarageScheduleService,
+    private readonly garageBookingService: GarageBookingService,
     private readonly notificationService: NotificationService,
     private readonly mailService: MailService,
+    private readonly bookingPaymentService: BookingPaymentService,
+    private readonly bookingStatusService: BookingStatusService,
+    private readonly waitlistService: WaitlistService,
+    private readonly availabilityCache: SlotAvailabilityCacheService,
+    private readonly vehicleDataService: VehicleDataService,
+    private readonly vehicleRegistrationService: VehicleRegistrationService,
+    @InjectQueue('slot-hold-queue') private readonly slotHoldQueue: Queue,
   ) {}
 
   /**
@@ -52,18 +106,17 @@ export class VehicleBookingService {
         `Searching garages for user ${userId} with registration ${searchData.registration_number} near ${searchData.postcode}`,
       );
 
-      // Step 1: Validate vehicle with DVLA
-      const vehicleInfo = await this.validateVehicleWithDVLA(
+      // Step 1: Check if vehicle exists in user's account, also under a
+      // plate it carried before
+      let existingVehicle = await this.vehicleRegistrationService.findVehicle(
         searchData.registration_number,
+        userId,
       );
 
-      // Step 2: Check if vehicle exists in user's account
-      let existingVehicle = await this.prisma.vehicle.findFirst({
-        where: {
-          user_id: userId,
-          registration_number: searchData.registration_number.toUpperCase(),
-        },
-      });
+      // Step 2: Validate vehicle with DVLA under its current plate
+      const vehicleInfo = await this.validateVehicleWithDVLA(
+        existingVehicle?.registration_number ?? searchData.registration_number,
+      );
 
       // Step 3: If vehicle doesn't exist, create it
       if (!existingVehicle) {
@@ -92,7 +145,7 @@ export class VehicleBookingService {
 
       return {
         vehicle: vehicleInfo,
-        garages,
+        garages: await this.withNextAvailableSlots(garages),
         total_count: garages.length,
         search_postcode: searchData.postcode,
       };
@@ -108,22 +161,19 @@ export class VehicleBookingService {
   // --------------------------------------- New Added By Najim------------------------------------
 
   async getGarages(query: SearchGarageDto, user_id?: string) {
+    const vehicle = user_id
+      ? await this.vehicleRegistrationService.findVehicle(
+          query.registration_number,
+          user_id,
+        )
+      : null;
     const vehicleInfo = await this.validateVehicleWithDVLA(
-      query.registration_number,
+      vehicle?.registration_number ?? query.registration_number,
     );
     if (!vehicleInfo) {
       throw new BadRequestException('Vehicle not found');
     }
     if (user_id) {
-      const vehicle = await this.prisma.vehicle.findFirst({
-        where: {
-          user_id: user_id,
-          registration_number: query.registration_number.toUpperCase(),
-        },
-        select: {
-          id: true,
-        },
-      });
       let vehicleId: string;
       if (!vehicle && user_id) {
         const vehicleResponse = await this.vehicleService.addVehicle(user_id, {
@@ -144,7 +194,7 @@ export class VehicleBookingService {
       success: true,
       data: {
         vehicle: vehicleInfo,
-        garages: garagesWithCount.garages,
+        garages: await this.withNextAvailableSlots(garagesWithCount.garages),
       },
       meta_data: {
         page: query.page || 1,
@@ -230,6 +280,8 @@ export class VehicleBookingService {
             end_time: endTime,
             date,
             status: slot.status,
+            capacity: slot.capacity,
+            remaining_capacity: slot.remaining_capacity,
           };
         }
 
@@ -241,6 +293,8 @@ export class VehicleBookingService {
           end_time: endTime,
           date,
           status: slot.status,
+          capacity: slot.capacity,
+          remaining_capacity: slot.remaining_capacity,
         };
       });
 
@@ -258,6 +312,269 @@ export class VehicleBookingService {
     }
   }
 
+  /**
+   * Join a garage's waitlist for a day that has no free slot in the driver's
+   * window. The availability check lives here because the schedule service
+   * already depends on the waitlist.
+   *
+   * @throws BadRequestException - When a slot in the window can still be booked
+   */
+  async joinWaitlist(userId: string, garageId: string, dto: JoinWaitlistDto) {
+    const { data: slots } = await this.getAvailableSlots(garageId, dto.date);
+
+    const timeZone =
+      await this.garageScheduleService.getGarageTimeZone(garageId);
+    const now = new Date();
+    const earliest =
+      dto.date === TimezoneHelper.toDateString(now, timeZone)
+        ? TimezoneHelper.formatTime(now, timeZone)
+        : '00:00';
+    const from = dto.start_time?.padStart(5, '0');
+    const to = dto.end_time?.padStart(5, '0');
+
+    const freeSlots = slots.filter(
+      (slot) =>
+        slot.remaining_capacity > 0 &&
+        slot.start_time > earliest &&
+        (!from || slot.start_time >= from) &&
+        (!to || slot.end_time <= to),
+    );
+    if (freeSlots.length > 0) {
+      throw new BadRequestException({
+        message: 'Slots are still free on this day, book one instead',
+        data: {
+          free_slots: freeSlots.map(({ start_time, end_time }) => ({
+            start_time,
+            end_time,
+          })),
+        },
+      });
+    }
+
+    return this.waitlistService.joinWaitlist(userId, garageId, dto);
+  }
+
+  /**
+   * Reserve a slot for the driver while they check out. Other drivers see it
+   * as held; a delayed job releases it unless bookSlot confirms it first.
+   * Taking a new hold releases the driver's previous one.
+   */
+  async holdSlot(userId: string, dto: HoldSlotDto) {
+    const driver = await this.prisma.user.findFirst({
+      where: { id: userId, type: UserRole.DRIVER, status: 1 },
+      select: { no_show_count: true },
+    });
+
+    if (!driver) {
+      throw new NotFoundException('User not found or not a driver');
+    }
+
+    // The payment mode is chosen at checkout, so only a block applies here
+    await this.assertDriverReliability(driver);
+
+    const isGarageAvailable =
+      await this.vehicleGarageService.validateGarageAvailability(dto.garage_id);
+
+    if (!isGarageAvailable) {
+      throw new NotFoundException('Garage not available for bookings');
+    }
+
+    const holdMinutes = await SettingHelper.getNumber(
+      this.prisma,
+      'SLOT_HOLD_MINUTES',
+      10,
+    );
+    const timeZone = await this.garageScheduleService.getGarageTimeZone(
+      dto.garage_id,
+    );
+
+    const slot = await this.prisma.$transaction(
+      async (tx) => {
+        // Waitlist offers are held for the driver too but are not replaced by a checkout hold
+        await tx.timeSlot.updateMany({
+          where: {
+            held_by: userId,
+            order_id: null,
+            waitlist_offers: { none: { status: WaitlistStatus.OFFERED } },
+          },
+          data: { is_available: true, held_until: null, held_by: null },
+        });
+
+        let slot: TimeSlot | null;
+
+        if (dto.slot_id) {
+          slot = await tx.timeSlot.findFirst({
+            where: {
+              id: dto.slot_id,
+              garage_id: dto.garage_id,
+              is_available: true,
+              is_blocked: false,
+              order_id: null,
+            },
+          });
+
+          if (!slot) {
+            throw new ConflictException('Slot not available or already booked');
+          }
+
+          if (slot.start_datetime < new Date()) {
+            throw new BadRequestException('Cannot hold a past slot');
+          }
+        } else {
+          const startDateTime = TimezoneHelper.toInstant(
+            dto.date,
+            dto.start_time,
+            timeZone,
+          );
+          const endDateTime = TimezoneHelper.toInstant(
+            dto.date,
+            dto.end_time,
+            timeZone,
+          );
+
+          await this.validateSlotIsBookable(
+            dto.garage_id,
+            startDateTime,
+            endDateTime,
+            tx,
+          );
+
+          const freeBay = await this.garageScheduleService.findFreeBay(
+            tx,
+            dto.garage_id,
+            startDateTime,
+            endDateTime,
+          );
+
+          if (!freeBay) {
+            throw new ConflictException(
+              'This time slot has just been taken by another user. Please choose a different time.',
+            );
+          }
+
+          slot = freeBay.slot;
+
+          if (!slot) {
+            slot = await tx.timeSlot.create({
+              data: {
+                garage_id: dto.garage_id,
+                start_datetime: startDateTime,
+                end_datetime: endDateTime,
+                bay: freeBay.bay,
+                is_available: true,
+                is_blocked: false,
+              },
+            });
+          }
+        }
+
+        // Hold expires after the configured window, or when the slot starts
+        const heldUntil = new Date(
+          Math.min(
+            Date.now() + holdMinutes * 60 * 1000,
+            slot.start_datetime.getTime(),
+          ),
+        );
+
+        return tx.timeSlot.update({
+          where: { id: slot.id },
+          data: { is_available: false, held_until: heldUntil, held_by: userId },
+        });
+      },
+      { isolationLevel: 'Serializable', maxWait: 5000, timeout: 10000 },
+    );
+    await this.availabilityCache.invalidateGarage(slot.garage_id);
+
+    try {
+      // The job id is unique per hold, so renewing a hold leaves the old job with nothing to do
+      await this.slotHoldQueue.add(
+        'releaseSlotHold',
+        { slot_id: slot.id, held_by: userId },
+        {
+          delay: Math.max(slot.held_until.getTime() - Date.now(), 0),
+          jobId: `slot-hold-${slot.id}-${slot.held_until.getTime()}`,
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule release of slot hold ${slot.id}: ${error.message}`,
+        error.stack,
+      );
+      await this.releaseSlotHold(userId, slot.id);
+      throw new BadRequestException(
+        'Could not reserve the slot. Please try again.',
+      );
+    }
+
+    this.logger.log(
+      `Slot ${slot.id} held for user ${userId} until ${slot.held_until.toISOString()}`,
+    );
+
+    return {
+      success: true,
+      message: `Slot held for ${holdMinutes} minutes. Complete the booking to confirm it.`,
+      data: {
+        slot_id: slot.id,
+        garage_id: slot.garage_id,
+        date: TimezoneHelper.toDateString(slot.start_datetime, timeZone),
+        start_time: TimezoneHelper.formatTime(slot.start_datetime, timeZone),
+        end_time: TimezoneHelper.formatTime(slot.end_datetime, timeZone),
+        held_until: slot.held_until,
+      },
+    };
+  }
+
+  /**
+   * Give up the driver's hold on a slot before it expires
+   */
+  async releaseSlotHold(userId: string, slotId: string) {
+    const { count } = await this.prisma.timeSlot.updateMany({
+      where: { id: slotId, held_by: userId, order_id: null },
+      data: { is_available: true, held_until: null, held_by: null },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('No hold found for this slot');
+    }
+
+    const slot = await this.prisma.timeSlot.findUnique({
+      where: { id: slotId },
+      select: { garage_id: true },
+    });
+    await this.availabilityCache.invalidateGarage(slot?.garage_id);
+
+    return {
+      success: true,
+      message: 'Slot hold released',
+    };
+  }
+
+  /**
+   * Release a checkout hold once it has expired (run by the slot hold queue)
+   */
+  async releaseExpiredSlotHold(slotId: string, heldBy: string) {
+    const { count } = await this.prisma.timeSlot.updateMany({
+      where: {
+        id: slotId,
+        held_by: heldBy,
+        order_id: null,
+        held_until: { lte: new Date() },
+      },
+      data: { is_available: true, held_until: null, held_by: null },
+    });
+
+    if (count > 0) {
+      const slot = await this.prisma.timeSlot.findUnique({
+        where: { id: slotId },
+        select: { garage_id: true },
+      });
+      await this.availabilityCache.invalidateGarage(slot?.garage_id);
+      this.logger.log(`Released expired hold on slot ${slotId}`);
+    }
+  }
+
   /**
    * Book a slot for MOT or Retest with race condition protection
    * Supports both ID-based (existing slots) and time-based (template slots) booking
@@ -269,7 +586,14 @@ export class VehicleBookingService {
       );
 
       // Step 1: Validate user and vehicle ownership
-      await this.validateUserAndVehicle(userId, bookingData.vehicle_id);
+      const driver = await this.validateUserAndVehicle(
+        userId,
+        bookingData.vehicle_id,
+      );
+      await this.assertDriverReliability(
+        driver,
+        bookingData.payment_mode ?? OrderPaymentMode.PAY_AT_GARAGE,
+      );
 
       // Step 2: Validate garage availability
       const isGarageAvailable =
@@ -287,36 +611,63 @@ export class VehicleBookingService {
         bookingData.service_type,
       );
 
-      // Step 4: Book slot with race protection
+      // Step 4: Resolve optional add-on services into order line items
+      const addOns = await this.getAdditionalServices(
+        bookingData.garage_id,
+        bookingData.additional_service_ids,
+      );
+      const lineItems = this.buildLineItems(service, addOns);
+
+      // Step 5: Book slot with race protection
 
       let booking;
       if (bookingData.slot_id) {
         // ID-based booking (existing database slot)
-        booking = await this.bookExistingSlot(userId, bookingData, service);
+        booking = await this.bookExistingSlot(userId, bookingData, lineItems);
       } else {
         // Time-based booking (template slot - create and book atomically)
-        booking = await this.bookTemplateSlot(userId, bookingData, service);
+        booking = await this.bookTemplateSlot(userId, bookingData, lineItems);
       }
+      await this.availabilityCache.invalidateGarage(bookingData.garage_id);
 
-      await this.notificationService.create({
-        receiver_id: bookingData.garage_id,
-        sender_id: userId,
-        type: NotificationType.BOOKING,
-        text: `New booking received for ${bookingData.service_type} service`,
-        entity_id: booking.data.order_id,
-        actions: [
-          {
-            label: 'Accept',
-            action: 'accept_booking',
-            variant: 'success',
-          },
-          {
-            label: 'Reject',
-            action: 'reject_booking',
-            variant: 'danger',
-          },
-        ],
-      });
+      // Online payment: keep the slot while the driver pays; the garage is
+      // notified once the payment succeeds
+      if (
+        bookingData.payment_mode &&
+        bookingData.payment_mode !== OrderPaymentMode.PAY_AT_GARAGE
+      ) {
+        try {
+          const payment = await this.bookingPaymentService.initiatePayment(
+            booking.data.order_id,
+            bookingData.payment_mode,
+          );
+
+          return {
+            success: true,
+            message: 'Booking reserved. Complete the payment to confirm it.',
+            data: {
+              ...booking.data,
+              payment_status: PaymentStatus.PENDING,
+              payment,
+            },
+          };
+        } catch (paymentError) {
+          await this.bookingPaymentService.releaseUnpaidBooking(
+            booking.data.order_id,
+            'the payment could not be started',
+          );
+          throw new BadRequestException(
+            `Failed to start payment: ${paymentError.message}`,
+          );
+        }
+      }
+
+      await this.notifyGarageOfNewBooking(
+        userId,
+        bookingData.garage_id,
+        booking.data.order_id,
+        bookingData.service_type,
+      );
 
       // Send emails (fire-and-forget; don't block booking response)
       this.sendBookingEmails(userId, bookingData, booking);
@@ -346,24 +697,97 @@ export class VehicleBookingService {
     }
   }
 
+  /**
+   * Confirm a paid booking after Stripe reports payment_intent.succeeded
+   */
+  async handleBookingPaymentSucceeded(paymentIntent: any) {
+    const order =
+      await this.bookingPaymentService.markPaymentSucceeded(paymentIntent);
+    if (!order) return;
+
+    const item = await this.prisma.orderItem.findFirst({
+      where: {
+        order_id: order.id,
+        service: { type: { not: ServiceType.ADDITIONAL } },
+      },
+      include: { service: true },
+    });
+    const serviceType = (item?.service?.type ||
+      BookableServiceType.MOT) as BookableServiceType;
+
+    await this.notifyGarageOfNewBooking(
+      order.driver_id,
+      order.garage_id,
+      order.id,
+      serviceType,
+    );
+
+    this.sendBookingEmails(
+      order.driver_id,
+      {
+        garage_id: order.garage_id,
+        vehicle_id: order.vehicle_id,
+        service_type: serviceType,
+      } as BookSlotDto,
+      { data: { order_id: order.id, slot_id: order.slot_id } },
+    );
+  }
+
+  /**
+   * Release a booking after Stripe reports payment_intent.payment_failed
+   */
+  async handleBookingPaymentFailed(paymentIntent: any) {
+    await this.bookingPaymentService.markPaymentFailed(paymentIntent);
+  }
+
+  private async notifyGarageOfNewBooking(
+    userId: string,
+    garageId: string,
+    orderId: string,
+    serviceType: BookableServiceType,
+  ) {
+    await this.notificationService.create({
+      receiver_id: garageId,
+      sender_id: userId,
+      type: NotificationType.BOOKING,
+      text: `New booking received for ${serviceType} service`,
+      entity_id: orderId,
+      actions: [
+        {
+          label: 'Accept',
+          action: 'accept_booking',
+          variant: 'success',
+        },
+        {
+          label: 'Reject',
+          action: 'reject_booking',
+          variant: 'danger',
+        },
+      ],
+    });
+  }
+
   /**
    * Book an existing database slot
    */
   private async bookExistingSlot(
     userId: string,
     bookingData: BookSlotDto,
-    service: any,
+    lineItems: BookingLineItems,
   ): Promise<any> {
     return await this.prisma.$transaction(
       async (tx) => {
-        // Validate slot availability
+        // Validate slot availability (a slot the driver is holding is theirs to book)
         const slot = await tx.timeSlot.findFirst({
           where: {
             id: bookingData.slot_id,
             garage_id: bookingData.garage_id,
-            is_available: true,
             is_blocked: false,
             order_id: null,
+            OR: [
+              { is_available: true },
+              { held_by: userId, held_until: { gt: new Date() } },
+            ],
           },
         });
 
@@ -371,6 +795,25 @@ export class VehicleBookingService {
           throw new ConflictException('Slot not available or already booked');
         }
 
+        // Add-ons with a duration extend the slot
+        const { end_datetime: endDateTime, base_end_datetime } =
+          TimeSlotHelper.extendedEnd(slot, lineItems.extra_minutes);
+        if (lineItems.extra_minutes > 0) {
+          await this.validateSlotIsBookable(
+            bookingData.garage_id,
+            slot.start_datetime,
+            endDateTime,
+            tx,
+          );
+          await this.assertNoOverlappingSlots(
+            tx,
+            bookingData.garage_id,
+            slot.start_datetime,
+            endDateTime,
+            slot.bay,
+          );
+        }
+
         // Create order
         const order = await tx.order.create({
           data: {
@@ -379,19 +822,24 @@ export class VehicleBookingService {
             garage_id: bookingData.garage_id,
             order_date: slot.start_datetime,
             status: OrderStatus.PENDING,
-            total_amount: service.price,
+            total_amount: lineItems.total_amount,
             slot_id: bookingData.slot_id,
+            status_history: {
+              create: {
+                actor: OrderStatusActor.DRIVER,
+                to_status: OrderStatus.PENDING,
+                changed_by_id: userId,
+              },
+            },
           },
         });
 
-        // Create order item
-        await tx.orderItem.create({
-          data: {
+        // Create order items (main service + add-ons)
+        await tx.orderItem.createMany({
+          data: lineItems.items.map((item) => ({
+            ...item,
             order_id: order.id,
-            service_id: service.id,
-            quantity: 1,
-            price: service.price,
-          },
+          })),
         });
 
         // Update slot as booked
@@ -400,8 +848,13 @@ export class VehicleBookingService {
           data: {
             order_id: order.id,
             is_available: false,
+            end_datetime: endDateTime,
+            base_end_datetime,
+            held_until: null,
+            held_by: null,
           },
         });
+        await this.claimWaitlistOffer(tx, slot.id, userId);
 
         this.logger.log(
           `Successfully booked existing slot for user ${userId}, order ID: ${order.id}`,
@@ -416,6 +869,7 @@ export class VehicleBookingService {
             vehicle_id: order.vehicle_id,
             slot_id: order.slot_id,
             service_type: bookingData.service_type,
+            additional_services: lineItems.additional_services,
             total_amount: order.total_amount,
             order_date: order.order_date,
             status: order.status,
@@ -432,7 +886,7 @@ export class VehicleBookingService {
   private async bookTemplateSlot(
     userId: string,
     bookingData: BookSlotDto,
-    service: any,
+    lineItems: BookingLineItems,
   ): Promise<any> {
     const maxRetries = 3;
     let lastError: any;
@@ -442,7 +896,7 @@ export class VehicleBookingService {
         return await this.executeTemplateSlotBooking(
           userId,
           bookingData,
-          service,
+          lineItems,
         );
       } catch (error: any) {
         lastError = error;
@@ -478,15 +932,29 @@ export class VehicleBookingService {
   private async executeTemplateSlotBooking(
     userId: string,
     bookingData: BookSlotDto,
-    service: any,
+    lineItems: BookingLineItems,
   ): Promise<any> {
-    // Calculate datetime
-    const startDateTime = new Date(
-      `${bookingData.date}T${bookingData.start_time}:00`,
+    // Calculate datetime in the garage's time zone (add-ons with a duration extend the slot)
+    const timeZone = await this.garageScheduleService.getGarageTimeZone(
+      bookingData.garage_id,
     );
-    const endDateTime = new Date(
-      `${bookingData.date}T${bookingData.end_time}:00`,
+    const startDateTime = TimezoneHelper.toInstant(
+      bookingData.date,
+      bookingData.start_time,
+      timeZone,
     );
+    const { end_datetime: endDateTime, base_end_datetime } =
+      TimeSlotHelper.extendedEnd(
+        {
+          end_datetime: TimezoneHelper.toInstant(
+            bookingData.date,
+            bookingData.end_time,
+            timeZone,
+          ),
+          base_end_datetime: null,
+        },
+        lineItems.extra_minutes,
+      );
 
     return await this.prisma.$transaction(
       async (tx) => {
@@ -498,26 +966,50 @@ export class VehicleBookingService {
           tx,
         );
 
-        // Try to find or create the slot atomically
-        let slot = await tx.timeSlot.findUnique({
+        // A slot the driver is holding for this time is theirs to book
+        const heldSlot = await tx.timeSlot.findFirst({
           where: {
-            garage_id_start_datetime: {
-              garage_id: bookingData.garage_id,
-              start_datetime: startDateTime,
-            },
+            garage_id: bookingData.garage_id,
+            start_datetime: startDateTime,
+            held_by: userId,
+            held_until: { gt: new Date() },
+            order_id: null,
           },
         });
 
-        if (slot) {
-          // Slot already exists, check if it's available
-          if (slot.order_id) {
-            throw new ConflictException(
-              'This time slot has just been booked by another user. Please choose a different time.',
+        if (heldSlot && lineItems.extra_minutes > 0) {
+          await this.assertNoOverlappingSlots(
+            tx,
+            bookingData.garage_id,
+            startDateTime,
+            endDateTime,
+            heldSlot.bay,
+          );
+        }
+
+        // Find a free bay for the whole booking (including add-on time)
+        const freeBay = heldSlot
+          ? { slot: heldSlot, bay: heldSlot.bay }
+          : await this.garageScheduleService.findFreeBay(
+              tx,
+              bookingData.garage_id,
+              startDateTime,
+              endDateTime,
             );
-          }
 
+        if (!freeBay) {
+          throw new ConflictException(
+            lineItems.extra_minutes > 0
+              ? 'Not enough free time after this slot for the selected additional services. Please choose a different time.'
+              : 'This time slot has just been booked by another user. Please choose a different time.',
+          );
+        }
+
+        let slot = freeBay.slot;
+
+        if (slot) {
           this.logger.log(
-            `Using existing slot ${slot.id} for time ${bookingData.start_time}`,
+            `Using existing slot ${slot.id} (bay ${freeBay.bay}) for time ${bookingData.start_time}`,
           );
         } else {
           // Slot doesn't exist, create it
@@ -527,6 +1019,7 @@ export class VehicleBookingService {
                 garage_id: bookingData.garage_id,
                 start_datetime: startDateTime,
                 end_datetime: endDateTime,
+                bay: freeBay.bay,
                 is_available: false, // Immediately mark as unavailable
                 is_blocked: false,
               },
@@ -557,19 +1050,24 @@ export class VehicleBookingService {
             garage_id: bookingData.garage_id,
             order_date: startDateTime,
             status: OrderStatus.PENDING,
-            total_amount: service.price,
+            total_amount: lineItems.total_amount,
             slot_id: slot.id,
+            status_history: {
+              create: {
+                actor: OrderStatusActor.DRIVER,
+                to_status: OrderStatus.PENDING,
+                changed_by_id: userId,
+              },
+            },
           },
         });
 
-        // Create order item
-        await tx.orderItem.create({
-          data: {
+        // Create order items (main service + add-ons)
+        await tx.orderItem.createMany({
+          data: lineItems.items.map((item) => ({
+            ...item,
             order_id: order.id,
-            service_id: service.id,
-            quantity: 1,
-            price: service.price,
-          },
+          })),
         });
 
         // Update slot with order_id
@@ -578,8 +1076,13 @@ export class VehicleBookingService {
           data: {
             order_id: order.id,
             is_available: false,
+            end_datetime: endDateTime,
+            base_end_datetime,
+            held_until: null,
+            held_by: null,
           },
         });
+        await this.claimWaitlistOffer(tx, slot.id, userId);
 
         this.logger.log(
           `Successfully booked template slot for user ${userId}, order ID: ${order.id}`,
@@ -594,6 +1097,7 @@ export class VehicleBookingService {
             vehicle_id: order.vehicle_id,
             slot_id: order.slot_id,
             service_type: bookingData.service_type,
+            additional_services: lineItems.additional_services,
             total_amount: order.total_amount,
             order_date: order.order_date,
             status: order.status,
@@ -610,9 +1114,14 @@ export class VehicleBookingService {
     endDateTime: Date,
     tx: any,
   ): Promise<void> {
-    const schedule = await tx.schedule.findUnique({
-      where: { garage_id: garageId },
-    });
+    // Hours of the schedule version in effect on the booked date
+    const schedule = this.garageScheduleService.resolveScheduleForDate(
+      await tx.schedule.findUnique({
+        where: { garage_id: garageId },
+        include: { versions: true },
+      }),
+      startDateTime,
+    );
 
     if (!schedule?.is_active) {
       throw new BadRequestException('Garage schedule not active');
@@ -622,7 +1131,8 @@ export class VehicleBookingService {
       throw new BadRequestException('Cannot book past dates');
     }
 
-    const dayOfWeek = startDateTime.getDay();
+    const timeZone = schedule.time_zone ?? DEFAULT_TIME_ZONE;
+    const dayOfWeek = TimezoneHelper.dayOfWeek(startDateTime, timeZone);
     const dailyHours = this.parseDailyHours(schedule.daily_hours);
     const dayConfig = dailyHours?.[dayOfWeek];
 
@@ -634,14 +1144,35 @@ export class VehicleBookingService {
       ? schedule.restrictions
       : JSON.parse(schedule.restrictions || '[]');
 
-    this.checkHoliday(restrictions, startDateTime, dayOfWeek);
-    this.checkBreakTime(restrictions, startDateTime, endDateTime, dayOfWeek);
+    this.checkHoliday(restrictions, startDateTime, timeZone);
+
+    const dateKey = TimezoneHelper.toDateString(startDateTime, timeZone);
+    const closedDate = (
+      await this.garageScheduleService.getClosedDates(
+        schedule,
+        dateKey,
+        dateKey,
+        tx,
+      )
+    ).get(dateKey);
+    if (closedDate) {
+      throw new BadRequestException(
+        `Cannot book on holidays (${closedDate.label})`,
+      );
+    }
+    this.checkBreakTime(
+      restrictions,
+      startDateTime,
+      endDateTime,
+      dayOfWeek,
+      timeZone,
+    );
     this.checkOperatingHours(
       schedule,
       startDateTime,
       endDateTime,
-      dayOfWeek,
       dayConfig,
+      timeZone,
     );
     this.checkSlotDuration(startDateTime, endDateTime);
   }
@@ -654,11 +1185,13 @@ export class VehicleBookingService {
   private checkHoliday(
     restrictions: any[],
     startDateTime: Date,
-    dayOfWeek: number,
+    timeZone: string,
   ): void {
-    const dateStr = startDateTime.toISOString().split('T')[0];
-    const month = startDateTime.getMonth() + 1;
-    const day = startDateTime.getDate();
+    const dateStr = TimezoneHelper.toDateString(startDateTime, timeZone);
+    const { month, day, dayOfWeek } = TimezoneHelper.dateParts(
+      startDateTime,
+      timeZone,
+    );
 
     const isHoliday = restrictions.some((r) => {
       if (r.type !== 'HOLIDAY') return false;
@@ -679,11 +1212,14 @@ export class VehicleBookingService {
     startDateTime: Date,
     endDateTime: Date,
     dayOfWeek: number,
+    timeZone: string,
   ): void {
     const startMins = this.parseTimeToMinutes(
-      this.formatTime24Hour(startDateTime),
+      this.formatTime24Hour(startDateTime, timeZone),
+    );
+    const endMins = this.parseTimeToMinutes(
+      this.formatTime24Hour(endDateTime, timeZone),
     );
-    const endMins = this.parseTimeToMinutes(this.formatTime24Hour(endDateTime));
 
     for (const r of restrictions) {
       if (
@@ -706,13 +1242,15 @@ export class VehicleBookingService {
     schedule: any,
     startDateTime: Date,
     endDateTime: Date,
-    dayOfWeek: number,
     dayConfig: any,
+    timeZone: string,
   ): void {
     const startMins = this.parseTimeToMinutes(
-      this.formatTime24Hour(startDateTime),
+      this.formatTime24Hour(startDateTime, timeZone),
+    );
+    const endMins = this.parseTimeToMinutes(
+      this.formatTime24Hour(endDateTime, timeZone),
     );
-    const endMins = this.parseTimeToMinutes(this.formatTime24Hour(endDateTime));
 
     let intervals: { start: number; end: number }[] = [];
 
@@ -764,14 +1302,13 @@ export class VehicleBookingService {
   }
 
   /**
-   * Helper: Format time as HH:mm
+   * Helper: Format time as HH:mm in the garage's time zone
    */
-  private formatTime24Hour(date: Date): string {
-    return date.toLocaleTimeString('en-GB', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
+  private formatTime24Hour(
+    date: Date,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): string {
+    return TimezoneHelper.formatTime(date, timeZone);
   }
 
   /**
@@ -801,7 +1338,9 @@ export class VehicleBookingService {
       this.logger.log(`Validating vehicle with DVLA: ${registrationNumber}`);
 
       const vehicleData =
-        await DvlaService.getCompleteVehicleData(registrationNumber);
+        await this.vehicleDataService.getCompleteVehicleData(
+          registrationNumber,
+        );
 
       if (!vehicleData) {
         throw new NotFoundException('Vehicle not found in DVLA system');
@@ -820,11 +1359,15 @@ export class VehicleBookingService {
         mot_expiry_date: dvlaData?.motExpiryDate || 'Unknown',
         exists_in_account: false, // Will be updated by caller
         vehicle_id: '', // ✅ ADDED: Temporary empty string, will be set by caller
+        data_stale: vehicleData.stale,
       };
     } catch (error) {
       this.logger.error(
         `DVLA validation failed for ${registrationNumber}: ${error.message}`,
       );
+      if (error instanceof ServiceUnavailableException) {
+        throw error;
+      }
       throw new NotFoundException('Vehicle not found in DVLA system');
     }
   }
@@ -862,6 +1405,41 @@ export class VehicleBookingService {
     return user;
   }
 
+  /**
+   * Apply the admin-configured no-show rules: repeat no-shows must pay online
+   * or are blocked from booking altogether. Without a payment mode only the
+   * block is checked.
+   */
+  private async assertDriverReliability(
+    driver: { no_show_count: number },
+    paymentMode?: OrderPaymentMode,
+  ): Promise<void> {
+    if (!driver.no_show_count) {
+      return;
+    }
+
+    const [blockThreshold, prepaymentThreshold] = await Promise.all([
+      SettingHelper.getNumber(this.prisma, 'NO_SHOW_BLOCK_THRESHOLD', 0),
+      SettingHelper.getNumber(this.prisma, 'NO_SHOW_PREPAYMENT_THRESHOLD', 2),
+    ]);
+
+    if (blockThreshold > 0 && driver.no_show_count >= blockThreshold) {
+      throw new BadRequestException(
+        'Online booking is unavailable for your account because of missed appointments. Please contact support.',
+      );
+    }
+
+    if (
+      prepaymentThreshold > 0 &&
+      driver.no_show_count >= prepaymentThreshold &&
+      paymentMode === OrderPaymentMode.PAY_AT_GARAGE
+    ) {
+      throw new BadRequestException(
+        'Because of missed appointments, bookings on your account must be paid online (in full or by deposit).',
+      );
+    }
+  }
+
   /**
    * Validate slot availability
    */
@@ -912,28 +1490,137 @@ export class VehicleBookingService {
     return service;
   }
 
-  async getMyBookings(
-    userId: string,
-    query: GetMyBookingsDto,
-  ): Promise<MyBookingsResponseDto> {
-    const { status = 'all', search = '', page = 1, limit = 10 } = query;
+  /**
+   * Get the priced add-on (ADDITIONAL) services a driver selected
+   */
+  private async getAdditionalServices(
+    garageId: string,
+    serviceIds?: string[],
+  ): Promise<any[]> {
+    const ids = [...new Set(serviceIds || [])];
+    if (ids.length === 0) return [];
 
-    // Build where clause
-    const where: any = {
-      driver_id: userId,
-    };
-    if (status && status !== 'all') {
-      where.status = status.toUpperCase();
-    }
-    if (search) {
-      where.OR = [
-        { garage: { garage_name: { contains: search, mode: 'insensitive' } } },
+    const services = await this.prisma.service.findMany({
+      where: {
+        id: { in: ids },
+        garage_id: garageId,
+        type: ServiceType.ADDITIONAL,
+      },
+    });
+
+    if (services.length !== ids.length) {
+      throw new NotFoundException(
+        'One or more additional services are not offered by this garage',
+      );
+    }
+
+    const unpriced = services.find((service) => service.price === null);
+    if (unpriced) {
+      throw new BadRequestException(
+        `${unpriced.name} is priced at the garage and cannot be added online`,
+      );
+    }
+
+    return services;
+  }
+
+  /**
+   * Order items, total and extra slot time for the main service plus add-ons
+   */
+  private buildLineItems(service: any, addOns: any[]): BookingLineItems {
+    const services = [service, ...addOns];
+    const total = services.reduce((sum, s) => sum + Number(s.price || 0), 0);
+
+    return {
+      items: services.map((s) => ({
+        service_id: s.id,
+        quantity: 1,
+        price: s.price,
+      })),
+      total_amount: Math.round(total * 100) / 100,
+      extra_minutes: addOns.reduce(
+        (sum, s) => sum + (s.duration_minutes || 0),
+        0,
+      ),
+      additional_services: addOns.map((s) => ({
+        id: s.id,
+        name: s.name,
+        price: Number(s.price),
+        duration_minutes: s.duration_minutes,
+      })),
+    };
+  }
+
+  /**
+   * Main (MOT / RETEST) service type of an order, ignoring add-ons
+   */
+  private getPrimaryServiceType(
+    items: { service?: { type: ServiceType } | null }[],
+  ): ServiceType | undefined {
+    return items.find(
+      (item) => item.service && item.service.type !== ServiceType.ADDITIONAL,
+    )?.service?.type;
+  }
+
+  /**
+   * Reject an extended booking that would run into the next slot of the day,
+   * whether that slot is stored or still only in the schedule template
+   */
+  private async assertNoOverlappingSlots(
+    tx: Prisma.TransactionClient,
+    garageId: string,
+    startDateTime: Date,
+    endDateTime: Date,
+    bay: number,
+  ): Promise<void> {
+    // Only slots in the same bay stand in the way of a longer booking
+    const overlapping =
+      await this.garageScheduleService.findSlotsStartingWithin(
+        tx,
+        garageId,
+        startDateTime,
+        endDateTime,
+        bay,
+      );
+
+    if (overlapping.length > 0) {
+      throw new ConflictException(
+        'Not enough free time after this slot for the selected additional services. Please choose a different time.',
+      );
+    }
+  }
+
+  async getMyBookings(
+    userId: string,
+    query: GetMyBookingsDto,
+  ): Promise<MyBookingsResponseDto> {
+    const { status = 'all', search = '', page = 1, limit = 10 } = query;
+
+    // Build where clause
+    const where: any = {
+      driver_id: userId,
+    };
+    if (status && status !== 'all') {
+      where.status = status.toUpperCase();
+    }
+    if (search) {
+      where.OR = [
+        { garage: { garage_name: { contains: search, mode: 'insensitive' } } },
         { garage: { address: { contains: search, mode: 'insensitive' } } },
         {
           vehicle: {
             registration_number: { contains: search, mode: 'insensitive' },
           },
         },
+        {
+          vehicle: {
+            previous_registrations: {
+              some: {
+                registration_number: { contains: search, mode: 'insensitive' },
+              },
+            },
+          },
+        },
       ];
     }
 
@@ -948,6 +1635,13 @@ export class VehicleBookingService {
         vehicle: true,
         slot: true,
         items: { include: { service: true } },
+        reschedule_requests: { orderBy: { created_at: 'desc' }, take: 1 },
+        review: true,
+        payment_transactions: {
+          where: { type: PaymentType.REFUND },
+          orderBy: { created_at: 'desc' },
+          take: 1,
+        },
       },
       orderBy: { created_at: 'desc' },
       skip: (page - 1) * limit,
@@ -969,7 +1663,39 @@ export class VehicleBookingService {
       total_amount: order.total_amount?.toString() || '',
       status: order.status,
       vehicle_registration: order.vehicle?.registration_number || '',
-      service_type: order.items[0]?.service?.type || '',
+      service_type: this.getPrimaryServiceType(order.items) || '',
+      additional_services: order.items
+        .filter((item) => item.service?.type === ServiceType.ADDITIONAL)
+        .map((item) => ({
+          name: item.service.name,
+          price: item.price.toString(),
+        })),
+      payment_mode: order.payment_mode,
+      payment_status: order.payment_status,
+      refunded_amount: order.refunded_amount?.toString() || null,
+      refund_status: order.payment_transactions[0]?.status || null,
+      retest_status: order.retest_status,
+      retest_deadline: order.retest_deadline?.toISOString() || null,
+      parent_order_id: order.parent_order_id,
+      reschedule_request: order.reschedule_requests[0]
+        ? {
+            id: order.reschedule_requests[0].id,
+            status: order.reschedule_requests[0].status,
+            requested_start:
+              order.reschedule_requests[0].requested_start.toISOString(),
+            requested_end:
+              order.reschedule_requests[0].requested_end.toISOString(),
+            expires_at: order.reschedule_requests[0].expires_at.toISOString(),
+          }
+        : null,
+      review: order.review
+        ? {
+            id: order.review.id,
+            rating: order.review.rating,
+            comment: order.review.comment,
+            reply: order.review.reply,
+          }
+        : null,
     }));
 
     const total_pages = Math.ceil(total_count / limit);
@@ -991,6 +1717,586 @@ export class VehicleBookingService {
     };
   }
 
+  /**
+   * Cancel a booking on behalf of the driver who made it.
+   * Enforces the admin-configured cancellation cutoff before the appointment.
+   */
+  async cancelMyBooking(
+    userId: string,
+    bookingId: string,
+    dto: CancelBookingDto,
+  ) {
+    const booking = await this.prisma.order.findFirst({
+      where: { id: bookingId, driver_id: userId },
+      include: {
+        driver: true,
+        garage: true,
+        vehicle: true,
+        slot: true,
+        items: { include: { service: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    if (
+      !this.bookingStatusService.canTransition(
+        booking.status,
+        OrderStatus.CANCELLED,
+        OrderStatusActor.DRIVER,
+      )
+    ) {
+      throw new BadRequestException(
+        `Booking cannot be cancelled because it is ${booking.status.toLowerCase()}`,
+      );
+    }
+
+    const appointmentStart = booking.slot?.start_datetime ?? booking.order_date;
+    const { cutoffHours, policy } = await this.getCancellationPolicy();
+    const hoursUntilAppointment =
+      (appointmentStart.getTime() - Date.now()) / (60 * 60 * 1000);
+
+    if (hoursUntilAppointment < cutoffHours) {
+      throw new BadRequestException({
+        message: `Bookings can only be cancelled at least ${cutoffHours} hours before the appointment. Please contact the garage directly.`,
+        data: { cutoff_hours: cutoffHours, cancellation_policy: policy },
+      });
+    }
+
+    const cancelledBooking = await this.prisma.$transaction(async (tx) => {
+      // Only cancel from the status checked above; the garage may have moved it on
+      const { count } = await tx.order.updateMany({
+        where: { id: booking.id, status: booking.status },
+        data: {
+          status: OrderStatus.CANCELLED,
+          slot_id: null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'This booking was updated in the meantime. Please refresh and try again.',
+        );
+      }
+
+      await this.bookingStatusService.recordTransition(tx, {
+        order_id: booking.id,
+        from_status: booking.status,
+        to_status: OrderStatus.CANCELLED,
+        actor: OrderStatusActor.DRIVER,
+        changed_by_id: userId,
+        reason: dto.reason,
+      });
+
+      await this.garageBookingService.releaseBooking(tx, booking);
+
+      return tx.order.findUniqueOrThrow({ where: { id: booking.id } });
+    });
+
+    const serviceType = this.getPrimaryServiceType(booking.items) || 'MOT';
+    const timeZone = await this.garageScheduleService.getGarageTimeZone(
+      booking.garage_id,
+    );
+    const bookingDateLabel = appointmentStart.toLocaleDateString('en-GB', {
+      timeZone,
+    });
+
+    await this.notificationService.create({
+      receiver_id: booking.garage_id,
+      sender_id: userId,
+      type: NotificationType.BOOKING,
+      text: `Booking for ${booking.vehicle?.registration_number || 'a vehicle'} on ${bookingDateLabel} has been cancelled by the driver${dto.reason ? `: ${dto.reason}` : ''}`,
+      entity_id: booking.id,
+    });
+
+    this.sendCancellationEmails(booking, serviceType, timeZone, dto.reason);
+
+    // Cancelled within policy → refund any online payment in full
+    const refund = await this.garageBookingService.afterBookingReleased(
+      booking,
+      dto.reason || 'Booking cancelled by the driver',
+    );
+
+    return {
+      success: true,
+      message: refund
+        ? 'Booking cancelled successfully. Your payment is being refunded.'
+        : 'Booking cancelled successfully',
+      data: {
+        order_id: cancelledBooking.id,
+        status: cancelledBooking.status,
+        cancelled_at: cancelledBooking.updated_at,
+        refund,
+      },
+    };
+  }
+
+  /**
+   * Rate and review the garage of a completed booking (one review per booking)
+   */
+  async createReview(userId: string, bookingId: string, dto: CreateReviewDto) {
+    const booking = await this.prisma.order.findFirst({
+      where: { id: bookingId, driver_id: userId },
+      include: {
+        vehicle: { select: { registration_number: true } },
+        review: { select: { id: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    if (booking.status !== OrderStatus.COMPLETED || !booking.garage_id) {
+      throw new BadRequestException('Only completed bookings can be reviewed');
+    }
+
+    if (booking.review) {
+      throw new ConflictException('This booking has already been reviewed');
+    }
+
+    let review;
+    try {
+      review = await this.prisma.review.create({
+        data: {
+          order_id: booking.id,
+          driver_id: userId,
+          garage_id: booking.garage_id,
+          rating: dto.rating,
+          comment: dto.comment?.trim() || null,
+        },
+      });
+    } catch (error) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException('This booking has already been reviewed');
+      }
+      throw error;
+    }
+
+    await this.notificationService.create({
+      receiver_id: booking.garage_id,
+      sender_id: userId,
+      type: NotificationType.REVIEW,
+      text: `New ${dto.rating}-star review for the booking of ${booking.vehicle?.registration_number || 'a vehicle'}`,
+      entity_id: review.id,
+    });
+
+    return {
+      success: true,
+      message: 'Review submitted successfully',
+      data: {
+        id: review.id,
+        order_id: review.order_id,
+        rating: review.rating,
+        comment: review.comment,
+        status: review.status,
+        created_at: review.created_at,
+      },
+    };
+  }
+
+  /**
+   * Book the retest offered after a failed MOT, at the same garage and within
+   * the retest window. The new booking is linked to the original MOT booking.
+   */
+  async bookRetest(userId: string, bookingId: string, dto: BookRetestDto) {
+    const original = await this.prisma.order.findFirst({
+      where: { id: bookingId, driver_id: userId },
+    });
+
+    if (!original) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    if (
+      original.retest_status !== RetestOfferStatus.OFFERED ||
+      !original.garage_id ||
+      !original.vehicle_id
+    ) {
+      throw new BadRequestException(
+        'No retest offer is available for this booking',
+      );
+    }
+
+    const timeZone = await this.garageScheduleService.getGarageTimeZone(
+      original.garage_id,
+    );
+    const retestStart = dto.slot_id
+      ? (
+          await this.prisma.timeSlot.findFirst({
+            where: { id: dto.slot_id, garage_id: original.garage_id },
+            select: { start_datetime: true },
+          })
+        )?.start_datetime
+      : TimezoneHelper.toInstant(dto.date, dto.start_time, timeZone);
+
+    if (!retestStart) {
+      throw new NotFoundException('Time slot not found');
+    }
+
+    if (retestStart > original.retest_deadline) {
+      throw new BadRequestException(
+        `The retest must take place by ${original.retest_deadline.toLocaleDateString('en-GB', { timeZone })}`,
+      );
+    }
+
+    // Claim the offer first so it cannot be booked twice
+    const claimed = await this.prisma.order.updateMany({
+      where: { id: original.id, retest_status: RetestOfferStatus.OFFERED },
+      data: { retest_status: RetestOfferStatus.BOOKED },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictException('This retest has already been booked');
+    }
+
+    let booking;
+    try {
+      booking = await this.bookSlot(userId, {
+        ...dto,
+        garage_id: original.garage_id,
+        vehicle_id: original.vehicle_id,
+        service_type: BookableServiceType.RETEST,
+      });
+    } catch (error) {
+      await this.prisma.order.update({
+        where: { id: original.id },
+        data: { retest_status: RetestOfferStatus.OFFERED },
+      });
+      throw error;
+    }
+
+    await this.prisma.order.update({
+      where: { id: booking.data.order_id },
+      data: { parent_order_id: original.id },
+    });
+
+    return {
+      ...booking,
+      data: { ...booking.data, parent_order_id: original.id },
+    };
+  }
+
+  /**
+   * Ask the garage to move a booking to another slot.
+   * The proposed slot is held until the garage responds or the hold expires.
+   */
+  async requestReschedule(
+    userId: string,
+    bookingId: string,
+    dto: RequestRescheduleDto,
+  ) {
+    const booking = await this.prisma.order.findFirst({
+      where: { id: bookingId, driver_id: userId },
+      include: {
+        vehicle: true,
+        driver: { select: { no_show_count: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    if (
+      booking.status !== OrderStatus.PENDING &&
+      booking.status !== OrderStatus.ACCEPTED
+    ) {
+      throw new BadRequestException(
+        `Cannot reschedule a ${booking.status.toLowerCase()} booking`,
+      );
+    }
+
+    if (booking.driver) {
+      await this.assertDriverReliability(booking.driver, booking.payment_mode);
+    }
+
+    const pendingRequest = await this.prisma.rescheduleRequest.findFirst({
+      where: { order_id: booking.id, status: RescheduleRequestStatus.PENDING },
+    });
+
+    if (pendingRequest) {
+      throw new ConflictException(
+        'A reschedule request for this booking is already awaiting the garage response',
+      );
+    }
+
+    const holdHours = await SettingHelper.getNumber(
+      this.prisma,
+      'RESCHEDULE_HOLD_HOURS',
+      24,
+    );
+
+    const request = await this.prisma.$transaction(
+      async (tx) => {
+        let slot: any;
+
+        if (dto.slot_id) {
+          slot = await tx.timeSlot.findFirst({
+            where: {
+              id: dto.slot_id,
+              garage_id: booking.garage_id,
+              is_available: true,
+              is_blocked: false,
+              order_id: null,
+            },
+          });
+
+          if (!slot) {
+            throw new ConflictException('Proposed slot is not available');
+          }
+
+          if (slot.start_datetime < new Date()) {
+            throw new BadRequestException('Cannot reschedule to a past time');
+          }
+        } else {
+          const timeZone = await this.garageScheduleService.getGarageTimeZone(
+            booking.garage_id,
+          );
+          const startDateTime = TimezoneHelper.toInstant(
+            dto.date,
+            dto.start_time,
+            timeZone,
+          );
+          const endDateTime = TimezoneHelper.toInstant(
+            dto.date,
+            dto.end_time,
+            timeZone,
+          );
+
+          await this.validateSlotIsBookable(
+            booking.garage_id,
+            startDateTime,
+            endDateTime,
+            tx,
+          );
+
+          const freeBay = await this.garageScheduleService.findFreeBay(
+            tx,
+            booking.garage_id,
+            startDateTime,
+            endDateTime,
+          );
+
+          if (!freeBay) {
+            throw new ConflictException(
+              'The proposed time is no longer available. Please choose a different time.',
+            );
+          }
+
+          slot = freeBay.slot;
+
+          if (!slot) {
+            slot = await tx.timeSlot.create({
+              data: {
+                garage_id: booking.garage_id,
+                start_datetime: startDateTime,
+                end_datetime: endDateTime,
+                bay: freeBay.bay,
+                is_available: true,
+                is_blocked: false,
+              },
+            });
+          }
+        }
+
+        // Hold expires after the configured window, or when the slot starts
+        const expiresAt = new Date(
+          Math.min(
+            Date.now() + holdHours * 60 * 60 * 1000,
+            slot.start_datetime.getTime(),
+          ),
+        );
+
+        await tx.timeSlot.update({
+          where: { id: slot.id },
+          data: { is_available: false, held_until: expiresAt },
+        });
+
+        return tx.rescheduleRequest.create({
+          data: {
+            order_id: booking.id,
+            slot_id: slot.id,
+            requested_start: slot.start_datetime,
+            requested_end: slot.end_datetime,
+            reason: dto.reason,
+            expires_at: expiresAt,
+          },
+        });
+      },
+      { isolationLevel: 'Serializable', maxWait: 5000, timeout: 10000 },
+    );
+    await this.availabilityCache.invalidateGarage(booking.garage_id);
+
+    const timeZone = await this.garageScheduleService.getGarageTimeZone(
+      booking.garage_id,
+    );
+    const requestedDate = request.requested_start.toLocaleDateString('en-GB', {
+      timeZone,
+    });
+    const requestedTime = TimezoneHelper.formatTime(
+      request.requested_start,
+      timeZone,
+    );
+
+    const notification = await this.notificationService.create({
+      receiver_id: booking.garage_id,
+      sender_id: userId,
+      type: NotificationType.BOOKING,
+      text: `Driver requested to move the booking for ${booking.vehicle?.registration_number || 'a vehicle'} to ${requestedDate} at ${requestedTime}${dto.reason ? `: ${dto.reason}` : ''}`,
+      entity_id: booking.id,
+      actions: [
+        {
+          label: 'Accept',
+          action: 'accept_reschedule',
+          variant: 'success',
+        },
+        {
+          label: 'Decline',
+          action: 'decline_reschedule',
+          variant: 'danger',
+        },
+      ],
+    });
+
+    await this.prisma.rescheduleRequest.update({
+      where: { id: request.id },
+      data: { notification_id: notification.id },
+    });
+
+    return {
+      success: true,
+      message: 'Reschedule request sent to the garage',
+      data: {
+        request_id: request.id,
+        order_id: booking.id,
+        status: request.status,
+        requested_start: request.requested_start,
+        requested_end: request.requested_end,
+        expires_at: request.expires_at,
+      },
+    };
+  }
+
+  /**
+   * Read the cancellation cutoff (Setting) and policy text (WebsiteInfo)
+   */
+  private async getCancellationPolicy(): Promise<{
+    cutoffHours: number;
+    policy: string | null;
+  }> {
+    const [cutoffHours, websiteInfo] = await Promise.all([
+      SettingHelper.getNumber(
+        this.prisma,
+        'BOOKING_CANCELLATION_CUTOFF_HOURS',
+        24,
+      ),
+      this.prisma.websiteInfo.findFirst({
+        select: { cancellation_policy: true },
+      }),
+    ]);
+
+    return {
+      cutoffHours,
+      policy: websiteInfo?.cancellation_policy || null,
+    };
+  }
+
+  /**
+   * Earliest bookable slot of each garage in search results. Search still
+   * works if availability cannot be worked out.
+   */
+  private async withNextAvailableSlots<T extends { id: string }>(garages: T[]) {
+    try {
+      const nextSlots = await this.garageScheduleService.findNextAvailableSlots(
+        garages.map((garage) => garage.id),
+      );
+      return garages.map((garage) => ({
+        ...garage,
+        next_available_slot: nextSlots.get(garage.id) ?? null,
+      }));
+    } catch (error) {
+      this.logger.error(
+        `Failed to find next available slots: ${error.message}`,
+        error.stack,
+      );
+      return garages.map((garage) => ({
+        ...garage,
+        next_available_slot: null,
+      }));
+    }
+  }
+
+  /**
+   * Booking a slot offered from the waitlist claims the offer
+   */
+  private async claimWaitlistOffer(
+    tx: Prisma.TransactionClient,
+    slotId: string,
+    userId: string,
+  ) {
+    await tx.waitlistEntry.updateMany({
+      where: {
+        offered_slot_id: slotId,
+        driver_id: userId,
+        status: WaitlistStatus.OFFERED,
+      },
+      data: { status: WaitlistStatus.CLAIMED },
+    });
+  }
+
+  // Helper to send cancellation emails to driver and garage
+  private sendCancellationEmails(
+    booking: any,
+    serviceType: string,
+    timeZone: string,
+    reason?: string,
+  ) {
+    try {
+      const start = new Date(
+        booking.slot?.start_datetime ?? booking.order_date,
+      );
+      const end = booking.slot ? new Date(booking.slot.end_datetime) : null;
+      const booking_date = start.toLocaleDateString('en-GB', { timeZone });
+      const booking_time = end
+        ? `${TimezoneHelper.formatTime(start, timeZone)} - ${TimezoneHelper.formatTime(end, timeZone)}`
+        : TimezoneHelper.formatTime(start, timeZone);
+
+      const driver_name = booking.driver?.name || 'Driver';
+      const garage_name = booking.garage?.garage_name || 'Garage';
+      const details = {
+        driver_name,
+        garage_name,
+        service_type: serviceType,
+        vehicle_registration: booking.vehicle?.registration_number || '',
+        booking_date,
+        booking_time,
+        reason,
+      };
+
+      if (booking.driver?.email) {
+        this.mailService.sendBookingCancellationEmail({
+          to: booking.driver.email,
+          recipient_name: driver_name,
+          message: `Your booking with ${garage_name} has been cancelled.`,
+          ...details,
+        });
+      }
+
+      if (booking.garage?.email) {
+        this.mailService.sendBookingCancellationEmail({
+          to: booking.garage.email,
+          recipient_name: garage_name,
+          message: `${driver_name} has cancelled their booking.`,
+          ...details,
+        });
+      }
+    } catch (err) {
+      this.logger.warn(`Failed to queue cancellation emails: ${err?.message}`);
+    }
+  }
+
   // Helper to compose and send booking emails to driver and garage
   private async sendBookingEmails(
     userId: string,
@@ -1009,16 +2315,28 @@ export class VehicleBookingService {
 
       if (!driver || !garage || !slot) return;
 
+      const timeZone = await this.garageScheduleService.getGarageTimeZone(
+        bookingData.garage_id,
+      );
       const start = new Date(slot.start_datetime);
       const end = new Date(slot.end_datetime);
-      const booking_date = start.toLocaleDateString('en-GB');
-      const booking_time = `${start.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false })} - ${end.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false })}`;
+      const booking_date = start.toLocaleDateString('en-GB', { timeZone });
+      const booking_time = `${TimezoneHelper.formatTime(start, timeZone)} - ${TimezoneHelper.formatTime(end, timeZone)}`;
 
-      // Fetch vehicle and service label if needed
-      const [vehicle] = await Promise.all([
+      // Fetch vehicle and add-on services if needed
+      const [vehicle, addOnItems] = await Promise.all([
         this.prisma.vehicle.findUnique({
           where: { id: bookingData.vehicle_id },
         }),
+        bookingResult.data.order_id
+          ? this.prisma.orderItem.findMany({
+              where: {
+                order_id: bookingResult.data.order_id,
+                service: { type: ServiceType.ADDITIONAL },
+              },
+              include: { service: { select: { name: true } } },
+            })
+          : [],
       ]);
 
       const service_type = bookingData.service_type;
@@ -1037,6 +2355,9 @@ export class VehicleBookingService {
           vehicle_registration,
           booking_date,
           booking_time,
+          calendar_event: bookingResult.data.order_id
+            ? { order_id: bookingResult.data.order_id, start, end }
+            : undefined,
         });
       }
 
@@ -1052,7 +2373,7 @@ export class VehicleBookingService {
           booking_date,
           booking_time,
           additional_services:
-            (bookingData as any).additional_services || 'None',
+            addOnItems.map((item) => item.service?.name).join(', ') || 'None',
         });
       }
     } catch (err) {
@@ -5,7 +5,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { UserRole, ServiceType, Prisma } from '@prisma/client';
+import { UserRole, ServiceType, Prisma, ReviewStatus } from '@prisma/client';
 import { GarageDto } from './dto/garage-search-response.dto';
 import {
   AdditionalServiceDto,
@@ -14,6 +14,7 @@ import {
 import { GarageSortBy } from './dto/search-garage.dto';
 import { SojebStorage } from 'src/common/lib/Disk/SojebStorage';
 import appConfig from 'src/config/app.config';
+import { GarageScheduleService } from '../garage-dashboard/services/garage-schedule.service';
 
 type LatLng = {
   lat: number;
@@ -26,7 +27,10 @@ type LatLng = {
 export class VehicleGarageService {
   private readonly logger = new Logger(VehicleGarageService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly garageScheduleService: GarageScheduleService,
+  ) {}
 
   /**
    * Find active garages by postcode
@@ -150,6 +154,8 @@ export class VehicleGarageService {
               distance_miles: number | null;
               avatar: string | null;
               mot_price: number | null;
+              avg_rating: number | null;
+              review_count: bigint;
             }>
           >(Prisma.sql`
         SELECT
@@ -179,7 +185,19 @@ export class VehicleGarageService {
             FROM "Service" s 
             WHERE s.garage_id = u.id AND s.type = 'MOT' 
             LIMIT 1
-          ) AS mot_price
+          ) AS mot_price,
+
+          (
+            SELECT AVG(r.rating)
+            FROM "reviews" r
+            WHERE r.garage_id = u.id AND r.status = 'PUBLISHED'
+          ) AS avg_rating,
+
+          (
+            SELECT COUNT(*)
+            FROM "reviews" r
+            WHERE r.garage_id = u.id AND r.status = 'PUBLISHED'
+          ) AS review_count
 
         FROM "users" u
         WHERE
@@ -194,7 +212,9 @@ export class VehicleGarageService {
               ? Prisma.sql`mot_price ASC NULLS LAST, distance_miles ASC NULLS LAST,`
               : sortBy === GarageSortBy.PRICE_HIGH_TO_LOW
                 ? Prisma.sql`mot_price DESC NULLS LAST, distance_miles ASC NULLS LAST,`
-                : Prisma.empty
+                : sortBy === GarageSortBy.RATING
+                  ? Prisma.sql`avg_rating DESC NULLS LAST, review_count DESC, distance_miles ASC NULLS LAST,`
+                  : Prisma.empty
           }
           CASE
             WHEN regexp_replace(upper(coalesce(u.zip_code, '')), '\\s+', '', 'g') = ${postcodeNoSpace}
@@ -241,6 +261,11 @@ export class VehicleGarageService {
                 ? Number(row.distance_miles.toFixed(2))
                 : undefined,
             mot_price: row.mot_price ? Number(row.mot_price) : undefined,
+            average_rating:
+              row.avg_rating !== null
+                ? Math.round(Number(row.avg_rating) * 10) / 10
+                : null,
+            review_count: Number(row.review_count || 0),
           })),
           total_count: totalCount,
         };
@@ -261,6 +286,8 @@ export class VehicleGarageService {
             phone_number: string | null;
             avatar: string | null;
             mot_price: number | null;
+            avg_rating: number | null;
+            review_count: bigint;
             created_at: Date;
           }>
         >(Prisma.sql`
@@ -280,7 +307,19 @@ export class VehicleGarageService {
             FROM "Service" s 
             WHERE s.garage_id = u.id AND s.type = 'MOT' 
             LIMIT 1
-          ) AS mot_price
+          ) AS mot_price,
+
+          (
+            SELECT AVG(r.rating)
+            FROM "reviews" r
+            WHERE r.garage_id = u.id AND r.status = 'PUBLISHED'
+          ) AS avg_rating,
+
+          (
+            SELECT COUNT(*)
+            FROM "reviews" r
+            WHERE r.garage_id = u.id AND r.status = 'PUBLISHED'
+          ) AS review_count
 
         FROM "users" u
         WHERE
@@ -295,7 +334,9 @@ export class VehicleGarageService {
               ? Prisma.sql`mot_price ASC NULLS LAST,`
               : sortBy === GarageSortBy.PRICE_HIGH_TO_LOW
                 ? Prisma.sql`mot_price DESC NULLS LAST,`
-                : Prisma.empty
+                : sortBy === GarageSortBy.RATING
+                  ? Prisma.sql`avg_rating DESC NULLS LAST, review_count DESC,`
+                  : Prisma.empty
           }
           u.created_at DESC,
           u.garage_name ASC,
@@ -331,6 +372,11 @@ export class VehicleGarageService {
             : null,
           distance_miles: undefined,
           mot_price: garage.mot_price ? Number(garage.mot_price) : undefined,
+          average_rating:
+            garage.avg_rating !== null
+              ? Math.round(Number(garage.avg_rating) * 10) / 10
+              : null,
+          review_count: Number(garage.review_count || 0),
         })),
         total_count: count,
       };
@@ -449,10 +495,14 @@ export class VehicleGarageService {
         orderBy: [{ type: 'asc' }, { name: 'asc' }],
       });
 
-      // Fetch garage schedule
-      const schedule = await this.prisma.schedule.findUnique({
-        where: { garage_id: garageId },
-      });
+      // Fetch garage schedule with the hours in effect today
+      const schedule = this.garageScheduleService.resolveScheduleForDate(
+        await this.prisma.schedule.findUnique({
+          where: { garage_id: garageId },
+          include: { versions: true },
+        }),
+        new Date(),
+      );
 
       // Parse schedule data if exists
       let scheduleData = null;
@@ -647,4 +697,73 @@ export class VehicleGarageService {
       return null;
     }
   }
+
+  /**
+   * Published reviews of a garage with its average rating
+   */
+  async getGarageReviews(garageId: string, page = 1, limit = 10) {
+    const safeLimit = Math.min(Math.max(Number(limit) || 10, 1), 50);
+    const safePage = Math.max(Number(page) || 1, 1);
+
+    const garage = await this.prisma.user.findFirst({
+      where: { id: garageId, type: UserRole.GARAGE },
+      select: { id: true },
+    });
+
+    if (!garage) {
+      throw new NotFoundException('Garage not found');
+    }
+
+    const where = {
+      garage_id: garageId,
+      status: ReviewStatus.PUBLISHED,
+    };
+
+    const [reviews, summary] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+        select: {
+          id: true,
+          rating: true,
+          comment: true,
+          reply: true,
+          replied_at: true,
+          created_at: true,
+          driver: { select: { name: true } },
+        },
+      }),
+      this.prisma.review.aggregate({
+        where,
+        _avg: { rating: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const total = summary._count._all;
+
+    return {
+      success: true,
+      message: 'Reviews retrieved successfully',
+      data: {
+        average_rating:
+          summary._avg.rating !== null
+            ? Math.round(summary._avg.rating * 10) / 10
+            : null,
+        review_count: total,
+        reviews: reviews.map(({ driver, ...review }) => ({
+          ...review,
+          driver_name: driver?.name || 'Former customer',
+        })),
+        pagination: {
+          page: safePage,
+          limit: safeLimit,
+          total,
+          pages: Math.ceil(total / safeLimit),
+        },
+      },
+    };
+  }
 }
@@ -0,0 +1,119 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { VehicleRegistrationService } from './vehicle-registration.service';
+
+describe('VehicleRegistrationService', () => {
+  const tx = {
+    vehicle: {
+      findUniqueOrThrow: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+    vehicle: { findUnique: jest.fn(), findFirst: jest.fn() },
+  };
+
+  let service: VehicleRegistrationService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    prisma.vehicle.findUnique.mockResolvedValue(null);
+    prisma.vehicle.findFirst.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VehicleRegistrationService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(VehicleRegistrationService);
+  });
+
+  describe('findVehicle', () => {
+    it('finds a vehicle by a plate it carried before', async () => {
+      prisma.vehicle.findFirst.mockResolvedValue({ id: 'vehicle-1' });
+
+      await expect(service.findVehicle('ch3 ry', 'driver-1')).resolves.toEqual({
+        id: 'vehicle-1',
+      });
+      expect(prisma.vehicle.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            user_id: 'driver-1',
+            previous_registrations: {
+              some: { registration_number: 'CH3RY' },
+            },
+          },
+        }),
+      );
+    });
+
+    it('does not resolve an old plate that another vehicle carries today', async () => {
+      prisma.vehicle.findUnique.mockResolvedValue({
+        id: 'vehicle-2',
+        user_id: 'driver-2',
+      });
+
+      await expect(
+        service.findVehicle('CH3RY', 'driver-1'),
+      ).resolves.toBeNull();
+      expect(prisma.vehicle.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sharesMotHistory', () => {
+    it('only treats a history as the same vehicle when it continues ours', () => {
+      const stored = new Set(['200000000001']);
+
+      expect(
+        service.sharesMotHistory(stored, [
+          {
+            motTestNumber: '200000000001',
+            registrationAtTimeOfTest: 'AB12CDE',
+          },
+        ]),
+      ).toBe(true);
+      expect(
+        service.sharesMotHistory(
+          new Set(),
+          [{ motTestNumber: '3', registrationAtTimeOfTest: 'CH 3RY' }],
+          ['CH3RY'],
+        ),
+      ).toBe(true);
+      expect(
+        service.sharesMotHistory(stored, [
+          {
+            motTestNumber: '900000000001',
+            registrationAtTimeOfTest: 'CH3RY',
+          },
+        ]),
+      ).toBe(false);
+    });
+  });
+
+  describe('reRegister', () => {
+    it('refuses a plate held by a vehicle on another account', async () => {
+      tx.vehicle.findUniqueOrThrow.mockResolvedValue({
+        id: 'vehicle-1',
+        user_id: 'driver-1',
+        registration_number: 'CH3RY',
+      });
+      tx.vehicle.findUnique.mockResolvedValue({
+        id: 'vehicle-2',
+        user_id: 'driver-2',
+      });
+
+      await expect(
+        service.reRegister('vehicle-1', 'AB12CDE', 'DRIVER'),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.vehicle.update).not.toHaveBeenCalled();
+    });
+  });
+});
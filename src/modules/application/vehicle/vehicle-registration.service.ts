@@ -0,0 +1,220 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { MotTest } from 'src/common/lib/DVLA/DvlaService';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+export type RegistrationSource = 'MOT_HISTORY' | 'DVSA' | 'DRIVER';
+
+export const normalizeRegistration = (registrationNumber?: string | null) =>
+  (registrationNumber || '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Tracks the plates a vehicle has carried. A cherished transfer changes the
+ * registration but not the vehicle, so a vehicle is identified by its MOT
+ * test numbers rather than its current plate.
+ */
+@Injectable()
+export class VehicleRegistrationService {
+  private readonly logger = new Logger(VehicleRegistrationService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Find a vehicle by its current plate, or by a previous one as long as no
+   * vehicle carries that plate today
+   *
+   * @param userId - Only consider this driver's vehicles
+   */
+  async findVehicle(registrationNumber: string, userId?: string) {
+    const registration = normalizeRegistration(registrationNumber);
+    if (!registration) return null;
+
+    const current = await this.prisma.vehicle.findUnique({
+      where: { registration_number: registration },
+    });
+    if (current) {
+      return !userId || current.user_id === userId ? current : null;
+    }
+
+    return this.prisma.vehicle.findFirst({
+      where: {
+        ...(userId && { user_id: userId }),
+        previous_registrations: { some: { registration_number: registration } },
+      },
+      orderBy: { updated_at: 'desc' },
+    });
+  }
+
+  /**
+   * The vehicle that already has any of these MOT tests on record, whatever
+   * plate it is stored under
+   */
+  async findVehicleByMotHistory(tests: Pick<MotTest, 'motTestNumber'>[]) {
+    const testNumbers = tests.map((test) => test.motTestNumber).filter(Boolean);
+    if (testNumbers.length === 0) return null;
+
+    const report = await this.prisma.motReport.findFirst({
+      where: { test_number: { in: testNumbers } },
+      select: { vehicle: true },
+    });
+    return report?.vehicle ?? null;
+  }
+
+  /**
+   * Whether a plate's MOT history describes the vehicle we have on record:
+   * it repeats a test we hold or was tested under one of its known plates
+   *
+   * @param knownPlates - Plates the vehicle is known to have carried
+   */
+  sharesMotHistory(
+    storedTestNumbers: Set<string>,
+    tests: Pick<MotTest, 'motTestNumber' | 'registrationAtTimeOfTest'>[],
+    knownPlates: string[] = [],
+  ) {
+    const plates = new Set(knownPlates.map(normalizeRegistration));
+    return tests.some(
+      (test) =>
+        storedTestNumbers.has(test.motTestNumber) ||
+        plates.has(normalizeRegistration(test.registrationAtTimeOfTest)),
+    );
+  }
+
+  /**
+   * Remember the plates a vehicle was tested under before its current one
+   *
+   * @returns Number of previously unknown plates
+   */
+  async recordPreviousRegistrations(
+    vehicleId: string,
+    currentRegistration: string,
+    tests: Pick<MotTest, 'registrationAtTimeOfTest'>[],
+  ) {
+    const current = normalizeRegistration(currentRegistration);
+    const plates = new Set(
+      tests
+        .map((test) => normalizeRegistration(test.registrationAtTimeOfTest))
+        .filter((plate) => plate && plate !== current),
+    );
+    if (plates.size === 0) return 0;
+
+    const { count } = await this.prisma.vehicleRegistration.createMany({
+      data: [...plates].map((plate) => ({
+        vehicle_id: vehicleId,
+        registration_number: plate,
+        source: 'MOT_HISTORY',
+      })),
+      skipDuplicates: true,
+    });
+    return count;
+  }
+
+  /**
+   * Move a vehicle onto a new plate and keep the old one in its history. A
+   * record the same driver already holds under the new plate is the same
+   * vehicle and is merged in.
+   *
+   * @throws ConflictException - When another account holds the new plate
+   */
+  async reRegister(
+    vehicleId: string,
+    newRegistration: string,
+    source: RegistrationSource,
+  ) {
+    const registration = normalizeRegistration(newRegistration);
+    const replacedAt = new Date();
+
+    const vehicle = await this.prisma.$transaction(async (tx) => {
+      const vehicle = await tx.vehicle.findUniqueOrThrow({
+        where: { id: vehicleId },
+      });
+      if (vehicle.registration_number === registration) return vehicle;
+
+      const holder = await tx.vehicle.findUnique({
+        where: { registration_number: registration },
+      });
+      if (holder) {
+        if (holder.user_id !== vehicle.user_id) {
+          throw new ConflictException(
+            `Registration ${registration} is held by a vehicle on another account`,
+          );
+        }
+        await this.merge(tx, vehicle.id, holder.id);
+      }
+
+      await tx.vehicleRegistration.upsert({
+        where: {
+          vehicle_id_registration_number: {
+            vehicle_id: vehicle.id,
+            registration_number: vehicle.registration_number,
+          },
+        },
+        create: {
+          vehicle_id: vehicle.id,
+          registration_number: vehicle.registration_number,
+          replaced_at: replacedAt,
+          source,
+        },
+        update: { replaced_at: replacedAt, source },
+      });
+      // A plate can come back to the vehicle, e.g. out of retention
+      await tx.vehicleRegistration.deleteMany({
+        where: { vehicle_id: vehicle.id, registration_number: registration },
+      });
+
+      return tx.vehicle.update({
+        where: { id: vehicle.id },
+        data: { registration_number: registration, updated_at: replacedAt },
+      });
+    });
+
+    this.logger.log(
+      `Vehicle ${vehicleId} re-registered as ${registration} (${source})`,
+    );
+    return vehicle;
+  }
+
+  /**
+   * Fold a duplicate record of the same vehicle into the one being kept:
+   * bookings and plates move across, MOT reports are merged by test number
+   */
+  private async merge(
+    tx: Prisma.TransactionClient,
+    keepId: string,
+    duplicateId: string,
+  ) {
+    const kept = await tx.motReport.findMany({
+      where: { vehicle_id: keepId, test_number: { not: null } },
+      select: { test_number: true },
+    });
+
+    await tx.motReport.updateMany({
+      where: {
+        vehicle_id: duplicateId,
+        OR: [
+          { test_number: null },
+          { test_number: { notIn: kept.map((r) => r.test_number) } },
+        ],
+      },
+      data: { vehicle_id: keepId },
+    });
+    await tx.order.updateMany({
+      where: { vehicle_id: duplicateId },
+      data: { vehicle_id: keepId },
+    });
+
+    const plates = await tx.vehicleRegistration.findMany({
+      where: { vehicle_id: duplicateId },
+      select: { registration_number: true, replaced_at: true, source: true },
+    });
+    if (plates.length > 0) {
+      await tx.vehicleRegistration.createMany({
+        data: plates.map((plate) => ({ ...plate, vehicle_id: keepId })),
+        skipDuplicates: true,
+      });
+    }
+
+    // Whatever is left (duplicate reports, open transfers) goes with it
+    await tx.vehicle.delete({ where: { id: duplicateId } });
+    this.logger.log(`Merged duplicate vehicle ${duplicateId} into ${keepId}`);
+  }
+}
@@ -13,11 +13,13 @@ import {
 import { VehicleService } from './vehicle.service';
 import { CreateVehicleDto } from './dto/create-vehicle.dto';
 import { UpdateVehicleDto } from './dto/update-vehicle.dto';
+import { ChangeRegistrationDto } from './dto/change-registration.dto';
 import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
 import { VehicleGarageService } from './vehicle-garage.service';
 import { VehicleBookingService } from './vehicle-booking.service';
 import { SearchGarageDto } from './dto/search-garage.dto';
 import { BookSlotDto } from './dto/book-slot.dto';
+import { HoldSlotDto } from './dto/hold-slot.dto';
 import { Roles } from 'src/common/guard/role/roles.decorator';
 import { RolesGuard } from 'src/common/guard/role/roles.guard';
 import { Role } from 'src/common/guard/role/role.enum';
@@ -29,6 +31,15 @@ import {
 } from '@nestjs/swagger';
 import { GetMyBookingsDto, MyBookingsResponseDto } from './dto/my-bookings.dto';
 import { GetMotReportsQueryDto } from './dto/mot-reports-query.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { RequestRescheduleDto } from './dto/request-reschedule.dto';
+import { BookRetestDto } from './dto/book-retest.dto';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { JoinWaitlistDto } from '../waitlist/dto/join-waitlist.dto';
+import { VehicleTransferService } from '../vehicle-transfer/vehicle-transfer.service';
+import { RequestVehicleTransferDto } from '../vehicle-transfer/dto/request-vehicle-transfer.dto';
+import { DisputeVehicleTransferDto } from '../vehicle-transfer/dto/dispute-vehicle-transfer.dto';
 import { Request } from 'express';
 import { JwtOptionalGuard } from 'src/modules/auth/guards';
 
@@ -40,6 +51,8 @@ export class VehicleController {
     private readonly vehicleService: VehicleService,
     private readonly vehicleGarageService: VehicleGarageService,
     private readonly vehicleBookingService: VehicleBookingService,
+    private readonly waitlistService: WaitlistService,
+    private readonly vehicleTransferService: VehicleTransferService,
   ) {}
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -194,6 +207,27 @@ export class VehicleController {
     return this.vehicleService.refreshMotHistory(req.user.userId, vehicleId);
   }
 
+  @Patch(':vehicleId/registration')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Move a vehicle onto a new registration',
+    description:
+      'For a plate change such as a cherished transfer. The new plate must belong to the same vehicle according to DVSA; the old plate is kept in the vehicle history and MOT histories are merged.',
+  })
+  @ApiResponse({ status: 200, description: 'Vehicle registration updated' })
+  async changeRegistration(
+    @Req() req,
+    @Param('vehicleId') vehicleId: string,
+    @Body() dto: ChangeRegistrationDto,
+  ) {
+    return this.vehicleService.changeRegistration(
+      req.user.userId,
+      vehicleId,
+      dto,
+    );
+  }
+
   @Get('my-bookings')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.DRIVER)
@@ -207,6 +241,84 @@ export class VehicleController {
     return this.vehicleBookingService.getMyBookings(req.user?.userId, query);
   }
 
+  @Patch('my-bookings/:id/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Cancel one of the logged-in driver bookings',
+    description:
+      'Cancels a pending or accepted booking and releases its slot. Rejected if the appointment is within the configured cancellation cutoff.',
+  })
+  @ApiResponse({ status: 200, description: 'Booking cancelled successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Within the cancellation cutoff; data holds cutoff_hours and the cancellation_policy text',
+  })
+  @ApiResponse({ status: 409, description: 'Booking changed meanwhile' })
+  async cancelMyBooking(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: CancelBookingDto,
+  ) {
+    return this.vehicleBookingService.cancelMyBooking(req.user.userId, id, dto);
+  }
+
+  @Post('my-bookings/:id/retest')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Book the retest offered after a failed MOT',
+    description:
+      'Books a RETEST at the same garage for a completed MOT booking that failed. The slot must fall within the 10-working-day retest window; the new booking is linked to the original one.',
+  })
+  @ApiResponse({ status: 201, description: 'Retest booked successfully' })
+  async bookRetest(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: BookRetestDto,
+  ) {
+    return this.vehicleBookingService.bookRetest(req.user.userId, id, dto);
+  }
+
+  @Post('my-bookings/:id/review')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Rate and review the garage of a completed booking',
+    description:
+      'Drivers can leave one rating (1-5) and optional review per completed booking.',
+  })
+  @ApiResponse({ status: 201, description: 'Review submitted successfully' })
+  async createReview(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: CreateReviewDto,
+  ) {
+    return this.vehicleBookingService.createReview(req.user.userId, id, dto);
+  }
+
+  @Post('my-bookings/:id/reschedule-request')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Request to move a booking to another slot',
+    description:
+      'Holds the proposed slot (from garages/:garageId/slots) and asks the garage to accept or decline. The hold is released automatically if the garage does not respond in time.',
+  })
+  @ApiResponse({ status: 201, description: 'Reschedule request sent' })
+  async requestReschedule(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: RequestRescheduleDto,
+  ) {
+    return this.vehicleBookingService.requestReschedule(
+      req.user.userId,
+      id,
+      dto,
+    );
+  }
+
   // --------------------------------------------- New Added BY Najim ---------------------------------------------
   // IMPORTANT: These specific routes MUST come before dynamic :id routes to avoid route conflicts
 
@@ -253,6 +365,144 @@ export class VehicleController {
     return this.vehicleBookingService.getAvailableSlots(garageId, date);
   }
 
+  @Get('garages/:garageId/reviews')
+  @UseGuards(JwtOptionalGuard)
+  @ApiOperation({
+    summary: 'Get published reviews for a garage',
+    description:
+      'Returns the average rating, review count and paginated published reviews of a garage.',
+  })
+  @ApiResponse({ status: 200, description: 'Garage reviews' })
+  async getGarageReviews(
+    @Param('garageId') garageId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.vehicleGarageService.getGarageReviews(
+      garageId,
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 10,
+    );
+  }
+
+  @Post('garages/:garageId/waitlist')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Join the waitlist for a fully booked day',
+    description:
+      'Optionally limited to a time window. When a matching slot frees up it is held for the first driver in line, who is notified and can claim it with book-slot before the offer expires.',
+  })
+  @ApiResponse({ status: 201, description: 'Added to the waitlist' })
+  @ApiResponse({
+    status: 400,
+    description: 'Slots in the requested window are still free',
+  })
+  async joinWaitlist(
+    @Req() req,
+    @Param('garageId') garageId: string,
+    @Body() dto: JoinWaitlistDto,
+  ) {
+    return this.vehicleBookingService.joinWaitlist(
+      req.user.userId,
+      garageId,
+      dto,
+    );
+  }
+
+  @Get('my-waitlist')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Get the logged-in driver active waitlist entries and offers',
+  })
+  @ApiResponse({ status: 200, description: 'Waitlist entries' })
+  async getMyWaitlist(@Req() req) {
+    return this.waitlistService.getMyWaitlist(req.user.userId);
+  }
+
+  @Delete('my-waitlist/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Leave a waitlist',
+    description:
+      'Declines any slot currently offered from it, which passes to the next driver in line.',
+  })
+  @ApiResponse({ status: 200, description: 'Left the waitlist' })
+  async leaveWaitlist(@Req() req, @Param('id') id: string) {
+    return this.waitlistService.leaveWaitlist(req.user.userId, id);
+  }
+
+  @Post('transfers')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Claim a vehicle registered to another account',
+    description:
+      'For a car you have bought. The current owner is notified and can confirm or dispute; undisputed claims complete automatically after 7 days and move the vehicle with its MOT history to your account.',
+  })
+  @ApiResponse({ status: 201, description: 'Transfer requested' })
+  async requestVehicleTransfer(
+    @Req() req,
+    @Body() dto: RequestVehicleTransferDto,
+  ) {
+    return this.vehicleTransferService.requestTransfer(req.user.userId, dto);
+  }
+
+  @Get('transfers')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary:
+      'Get transfers the logged-in driver requested (incoming) and claims on their vehicles (outgoing)',
+  })
+  @ApiResponse({ status: 200, description: 'Vehicle transfers' })
+  async getMyVehicleTransfers(@Req() req) {
+    return this.vehicleTransferService.getMyTransfers(req.user.userId);
+  }
+
+  @Post('transfers/:id/confirm')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Confirm a claim on your vehicle and hand it over now',
+  })
+  @ApiResponse({ status: 201, description: 'Vehicle moved to the new owner' })
+  async confirmVehicleTransfer(@Req() req, @Param('id') id: string) {
+    return this.vehicleTransferService.confirmTransfer(req.user.userId, id);
+  }
+
+  @Post('transfers/:id/dispute')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Dispute a claim on your vehicle',
+    description:
+      'Stops the automatic transfer; an admin reviews the dispute and decides.',
+  })
+  @ApiResponse({ status: 201, description: 'Transfer disputed' })
+  async disputeVehicleTransfer(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() dto: DisputeVehicleTransferDto,
+  ) {
+    return this.vehicleTransferService.disputeTransfer(
+      req.user.userId,
+      id,
+      dto,
+    );
+  }
+
+  @Delete('transfers/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({ summary: 'Withdraw your transfer request' })
+  @ApiResponse({ status: 200, description: 'Transfer cancelled' })
+  async cancelVehicleTransfer(@Req() req, @Param('id') id: string) {
+    return this.vehicleTransferService.cancelTransfer(req.user.userId, id);
+  }
+
   // --------------------------------------------- End New Routes ---------------------------------------------
 
   @Post('search-garages')
@@ -305,4 +555,26 @@ export class VehicleController {
   async bookSlot(@Req() req, @Body() bookingData: BookSlotDto) {
     return this.vehicleBookingService.bookSlot(req.user.userId, bookingData);
   }
+
+  @Post('slot-holds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({
+    summary: 'Hold a slot while checking out',
+    description:
+      'Reserves the slot for a few minutes so other drivers see it as held. Book it with book-slot (by slot_id or the same date and time) before the hold expires, or it is released automatically.',
+  })
+  @ApiResponse({ status: 201, description: 'Slot held' })
+  async holdSlot(@Req() req, @Body() dto: HoldSlotDto) {
+    return this.vehicleBookingService.holdSlot(req.user.userId, dto);
+  }
+
+  @Delete('slot-holds/:slotId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.DRIVER)
+  @ApiOperation({ summary: 'Release a held slot' })
+  @ApiResponse({ status: 200, description: 'Slot hold released' })
+  async releaseSlotHold(@Req() req, @Param('slotId') slotId: string) {
+    return this.vehicleBookingService.releaseSlotHold(req.user.userId, slotId);
+  }
 }
@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { VehicleService } from './vehicle.service';
 import { VehicleController } from './vehicle.controller';
 import { VehicleGarageService } from './vehicle-garage.service';
 import { VehicleBookingService } from './vehicle-booking.service';
+import { VehicleRegistrationService } from './vehicle-registration.service';
 import { GarageDashboardModule } from '../garage-dashboard/garage-dashboard.module';
 import { MotReminderProcessor } from './mot-reminder.processor';
+import { RetestOfferProcessor } from './retest-offer.processor';
+import { SlotHoldProcessor } from './slot-hold.processor';
+import { MotRefreshProcessor } from './mot-refresh.processor';
 import { NotificationModule } from '../notification/notification.module';
 import { MailModule } from 'src/mail/mail.module';
+import { BookingPaymentModule } from '../booking-payment/booking-payment.module';
+import { BookingStatusModule } from '../booking-status/booking-status.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { VehicleTransferModule } from '../vehicle-transfer/vehicle-transfer.module';
+import { SlotAvailabilityCacheModule } from '../slot-availability/slot-availability-cache.module';
+import { VehicleDataModule } from 'src/common/lib/DVLA/vehicle-data.module';
 
 @Module({
   imports: [
@@ -15,12 +26,30 @@ import { MailModule } from 'src/mail/mail.module';
     GarageDashboardModule,
     NotificationModule,
     MailModule,
+    BookingPaymentModule,
+    BookingStatusModule,
+    WaitlistModule,
+    VehicleTransferModule,
+    SlotAvailabilityCacheModule,
+    VehicleDataModule,
+    BullModule.registerQueue(
+      {
+        name: 'slot-hold-queue',
+      },
+      {
+        name: 'mot-refresh-queue',
+      },
+    ),
   ],
   providers: [
     VehicleService,
     VehicleGarageService,
     VehicleBookingService,
+    VehicleRegistrationService,
     MotReminderProcessor,
+    RetestOfferProcessor,
+    SlotHoldProcessor,
+    MotRefreshProcessor,
   ],
   controllers: [VehicleController],
   exports: [VehicleService, VehicleGarageService, VehicleBookingService],
@@ -1,18 +1,247 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { VehicleDataService } from 'src/common/lib/DVLA/vehicle-data.service';
+import { PrismaService } from 'src/prisma/prisma.service';
 import { VehicleService } from './vehicle.service';
+import { VehicleRegistrationService } from './vehicle-registration.service';
 
 describe('VehicleService', () => {
+  const vehicle = {
+    id: 'vehicle-1',
+    registration_number: 'XY19ABC',
+    mot_expiry_date: new Date('2026-08-30T00:00:00.000Z'),
+    is_expired: false,
+  };
+
+  const tx = {
+    motReport: { create: jest.fn() },
+    motDefect: { createMany: jest.fn() },
+    vehicle: {
+      findUniqueOrThrow: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    vehicleRegistration: { upsert: jest.fn(), deleteMany: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+    user: { findFirst: jest.fn() },
+    vehicle: { findFirst: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    motReport: { findMany: jest.fn() },
+    vehicleRegistration: { createMany: jest.fn() },
+  };
+  const vehicleDataService = {
+    getMotHistory: jest.fn(),
+    getVehicleDetails: jest.fn(),
+  };
+
   let service: VehicleService;
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+
+    prisma.motReport.findMany.mockResolvedValue([
+      { test_number: '200000000001' },
+    ]);
+    prisma.vehicleRegistration.createMany.mockResolvedValue({ count: 0 });
+    tx.motReport.create.mockResolvedValue({ id: 'report-1' });
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [VehicleService],
+      providers: [
+        VehicleService,
+        VehicleRegistrationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: VehicleDataService, useValue: vehicleDataService },
+      ],
     }).compile();
 
-    service = module.get<VehicleService>(VehicleService);
+    service = module.get(VehicleService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('syncMotHistory', () => {
+    it('keeps the last pass expiry after a failed test and records the sync', async () => {
+      vehicleDataService.getMotHistory.mockResolvedValue({
+        motTests: [
+          {
+            motTestNumber: '200000000001',
+            completedDate: '2025-08-29T08:45:30.000Z',
+            expiryDate: '2026-08-30',
+            motTestResult: 'PASSED',
+          },
+          {
+            motTestNumber: '200000000002',
+            completedDate: '2026-08-28T11:20:00.000Z',
+            motTestResult: 'FAILED',
+          },
+        ],
+      });
+
+      const result = await service.syncMotHistory(vehicle);
+
+      expect(vehicleDataService.getMotHistory).toHaveBeenCalledWith('XY19ABC', {
+        refresh: true,
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ found: true, new_records: 1 }),
+      );
+      expect(prisma.vehicle.update).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1' },
+        data: expect.objectContaining({
+          mot_expiry_date: new Date('2026-08-30'),
+          is_expired: true,
+          mot_sync_status: 'SYNCED',
+          mot_synced_at: expect.any(Date),
+          mot_sync_error: null,
+        }),
+      });
+    });
+
+    it('records a failed sync and rethrows when DVSA is unavailable', async () => {
+      vehicleDataService.getMotHistory.mockRejectedValue(
+        new Error('MOT API is temporarily unavailable'),
+      );
+
+      await expect(service.syncMotHistory(vehicle)).rejects.toThrow(
+        'temporarily unavailable',
+      );
+      expect(prisma.vehicle.update).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1' },
+        data: expect.objectContaining({
+          mot_sync_status: 'FAILED',
+          mot_sync_error: 'MOT API is temporarily unavailable',
+        }),
+      });
+      expect(prisma.vehicle.update.mock.calls[0][0].data).not.toHaveProperty(
+        'mot_synced_at',
+      );
+    });
+
+    it('flags a plate that now belongs to a different vehicle instead of merging its history', async () => {
+      vehicleDataService.getMotHistory.mockResolvedValue({
+        registration: 'XY19ABC',
+        motTests: [
+          {
+            motTestNumber: '900000000001',
+            completedDate: '2026-05-01T09:00:00.000Z',
+            expiryDate: '2027-04-30',
+            motTestResult: 'PASSED',
+            registrationAtTimeOfTest: 'XY19ABC',
+          },
+        ],
+      });
+
+      const result = await service.syncMotHistory(vehicle);
+
+      expect(result).toEqual(
+        expect.objectContaining({ plate_changed: true, new_records: 0 }),
+      );
+      expect(tx.motReport.create).not.toHaveBeenCalled();
+      expect(prisma.vehicle.update).toHaveBeenCalledTimes(1);
+      expect(prisma.vehicle.update).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1' },
+        data: expect.objectContaining({ mot_sync_status: 'PLATE_CHANGED' }),
+      });
+    });
+
+    it('remembers the plates earlier tests were taken under', async () => {
+      vehicleDataService.getMotHistory.mockResolvedValue({
+        registration: 'XY19ABC',
+        motTests: [
+          {
+            motTestNumber: '200000000001',
+            completedDate: '2025-08-29T08:45:30.000Z',
+            expiryDate: '2026-08-30',
+            motTestResult: 'PASSED',
+            registrationAtTimeOfTest: 'XY19ABC',
+          },
+          {
+            motTestNumber: '100000000001',
+            completedDate: '2024-08-29T08:45:30.000Z',
+            expiryDate: '2025-08-30',
+            motTestResult: 'PASSED',
+            registrationAtTimeOfTest: 'CH 3RY',
+          },
+        ],
+      });
+
+      await service.syncMotHistory(vehicle);
+
+      expect(prisma.vehicleRegistration.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            vehicle_id: 'vehicle-1',
+            registration_number: 'CH3RY',
+            source: 'MOT_HISTORY',
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('changeRegistration', () => {
+    // A car too new for an MOT, flagged when its old plate moved on
+    const flagged = {
+      ...vehicle,
+      user_id: 'driver-1',
+      make: 'FORD',
+      mot_sync_status: 'PLATE_CHANGED',
+      previous_registrations: [],
+    };
+
+    beforeEach(() => {
+      prisma.user.findFirst.mockResolvedValue({
+        id: 'driver-1',
+        type: 'DRIVER',
+      });
+      prisma.vehicle.findFirst.mockResolvedValue(flagged);
+      prisma.motReport.findMany.mockResolvedValue([]);
+      vehicleDataService.getMotHistory.mockRejectedValue(
+        new NotFoundException('No MOT history'),
+      );
+      tx.vehicle.findUniqueOrThrow.mockResolvedValue(flagged);
+      tx.vehicle.findUnique.mockResolvedValue(null);
+      tx.vehicle.update.mockResolvedValue({
+        ...flagged,
+        registration_number: 'CH3RY',
+      });
+    });
+
+    it('clears the plate-changed flag once the vehicle is on its new plate', async () => {
+      vehicleDataService.getVehicleDetails.mockResolvedValue({ make: 'Ford' });
+
+      await service.changeRegistration('driver-1', 'vehicle-1', {
+        registration_number: 'CH3 RY',
+      });
+
+      expect(tx.vehicle.update).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1' },
+        data: expect.objectContaining({ registration_number: 'CH3RY' }),
+      });
+      expect(prisma.vehicle.update).toHaveBeenCalledWith({
+        where: { id: 'vehicle-1' },
+        data: expect.objectContaining({
+          mot_sync_status: 'NOT_FOUND',
+          mot_sync_error: null,
+        }),
+      });
+    });
+
+    it('refuses a plate whose make cannot be matched', async () => {
+      vehicleDataService.getVehicleDetails.mockResolvedValue({});
+
+      await expect(
+        service.changeRegistration('driver-1', 'vehicle-1', {
+          registration_number: 'CH3RY',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(tx.vehicle.update).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -10,11 +10,18 @@ import { PrismaService } from 'src/prisma/prisma.service';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import { CreateVehicleDto } from './dto/create-vehicle.dto';
 import { UpdateVehicleDto } from './dto/update-vehicle.dto';
+import { MotSyncStatus, Vehicle } from '@prisma/client';
 import {
-  DvlaService,
   CombinedVehicleData,
+  MotHistoryResponse,
 } from 'src/common/lib/DVLA/DvlaService';
+import { VehicleDataService } from 'src/common/lib/DVLA/vehicle-data.service';
 import { GetMotReportsQueryDto } from './dto/mot-reports-query.dto';
+import { ChangeRegistrationDto } from './dto/change-registration.dto';
+import {
+  normalizeRegistration,
+  VehicleRegistrationService,
+} from './vehicle-registration.service';
 
 /**
  * Vehicle Service for managing driver vehicles
@@ -29,7 +36,11 @@ import { GetMotReportsQueryDto } from './dto/mot-reports-query.dto';
 export class VehicleService {
   private readonly logger = new Logger(VehicleService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private readonly vehicleDataService: VehicleDataService,
+    private readonly vehicleRegistrationService: VehicleRegistrationService,
+  ) {}
 
   /**
    * Add a new vehicle for a driver with comprehensive validation
@@ -64,39 +75,49 @@ export class VehicleService {
         );
       }
 
+      const previouslyRegistered =
+        await this.vehicleRegistrationService.findVehicle(
+          dto.registration_number,
+          userId,
+        );
+      if (previouslyRegistered) {
+        throw new ConflictException(
+          `${normalizeRegistration(dto.registration_number)} is a previous registration of your vehicle ${previouslyRegistered.registration_number}`,
+        );
+      }
+
       // Check if vehicle exists globally (another user might have it)
       const globalExistingVehicle = await this.prisma.vehicle.findFirst({
         where: {
           registration_number: dto.registration_number.toUpperCase(),
           user_id: { not: userId }, // Different user
         },
-        include: {
-          user: {
-            select: {
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
-          },
-        },
+        select: { id: true, user_id: true },
       });
 
       if (globalExistingVehicle) {
-        const ownerName =
-          `${globalExistingVehicle.user.first_name || ''} ${globalExistingVehicle.user.last_name || ''}`.trim() ||
-          'Unknown';
         this.logger.warn(
-          `Vehicle ${dto.registration_number} already registered by another user: ${globalExistingVehicle.user.email}`,
-        );
-        // Throw error early with clear message since database constraint prevents duplicate registration numbers
-        throw new ConflictException(
-          `Vehicle with registration ${dto.registration_number} is already registered by another user (${ownerName} - ${globalExistingVehicle.user.email}). Each vehicle registration number can only be associated with one account.`,
+          `Vehicle ${dto.registration_number} already registered by another user: ${globalExistingVehicle.user_id}`,
         );
+        throw this.registeredElsewhereException(dto.registration_number);
       }
 
       // Fetch comprehensive vehicle data from external APIs
       const vehicleData = await this.fetchVehicleData(dto.registration_number);
 
+      // A vehicle we already hold under an older plate keeps its record
+      const reRegistered = await this.reRegisterKnownVehicle(
+        userId,
+        vehicleData,
+      );
+      if (reRegistered) {
+        return {
+          success: true,
+          message: 'Vehicle moved to its new registration',
+          data: reRegistered,
+        };
+      }
+
       // Create vehicle record with combined data
       const vehicle = await this.createVehicleRecord(userId, vehicleData);
 
@@ -189,6 +210,9 @@ export class VehicleService {
               created_at: 'desc',
             },
           },
+          previous_registrations: {
+            orderBy: { created_at: 'desc' },
+          },
         },
       });
 
@@ -369,7 +393,9 @@ export class VehicleService {
       );
 
       const vehicleData =
-        await DvlaService.getCompleteVehicleData(registrationNumber);
+        await this.vehicleDataService.getCompleteVehicleData(
+          registrationNumber,
+        );
       this.logger.log(
         `Successfully fetched external data for: ${registrationNumber}`,
       );
@@ -432,6 +458,10 @@ export class VehicleService {
         mot_data: vehicleData.motData
           ? JSON.stringify(vehicleData.motData)
           : null,
+
+        // Counts as a sync so the background refresher doesn't redo it straight away
+        mot_sync_status: vehicleData.motData ? MotSyncStatus.SYNCED : null,
+        mot_synced_at: vehicleData.motData ? vehicleData.lastUpdated : null,
       };
 
       const vehicle = await this.prisma.vehicle.create({
@@ -475,26 +505,10 @@ export class VehicleService {
                 `Vehicle ${vehicleData.registrationNumber} already exists for user ${userId}, returning existing vehicle`,
               );
               return existingVehicle;
-            } else {
-              // Vehicle exists for a different user - fetch user details for better error
-              const existingUser = await this.prisma.user.findUnique({
-                where: { id: existingVehicle.user_id },
-                select: {
-                  email: true,
-                  first_name: true,
-                  last_name: true,
-                },
-              });
-
-              const ownerName = existingUser
-                ? `${existingUser.first_name || ''} ${existingUser.last_name || ''}`.trim() ||
-                  'Unknown'
-                : 'Unknown';
-
-              throw new ConflictException(
-                `Vehicle with registration ${vehicleData.registrationNumber} is already registered by another user (${ownerName} - ${existingUser?.email || 'Unknown'}). Each vehicle registration number can only be associated with one account.`,
-              );
             }
+            throw this.registeredElsewhereException(
+              vehicleData.registrationNumber,
+            );
           }
         }
       }
@@ -506,6 +520,45 @@ export class VehicleService {
     }
   }
 
+  /**
+   * A new plate whose MOT history we already hold belongs to a vehicle stored
+   * under an older registration. The driver's own record moves onto the new
+   * plate rather than a second one being created; a vehicle on another
+   * account is left untouched and needs a transfer.
+   */
+  private async reRegisterKnownVehicle(
+    userId: string,
+    vehicleData: CombinedVehicleData,
+  ) {
+    const motTests = vehicleData.motData?.motTests ?? [];
+    const known =
+      await this.vehicleRegistrationService.findVehicleByMotHistory(motTests);
+    if (!known) return null;
+
+    if (known.user_id !== userId) {
+      throw this.registeredElsewhereException(vehicleData.registrationNumber);
+    }
+
+    const vehicle = await this.vehicleRegistrationService.reRegister(
+      known.id,
+      vehicleData.registrationNumber,
+      'DVSA',
+    );
+
+    await this.applyMotHistory(vehicle, vehicleData.motData, new Date());
+    return this.prisma.vehicle.findUnique({ where: { id: vehicle.id } });
+  }
+
+  /**
+   * Registration numbers are unique across accounts; a new keeper claims the
+   * vehicle through a transfer instead. The other owner is never disclosed.
+   */
+  private registeredElsewhereException(registrationNumber: string) {
+    return new ConflictException(
+      `Vehicle with registration ${registrationNumber.toUpperCase()} is registered to another account. If you are its new keeper, request a transfer with POST /vehicles/transfers.`,
+    );
+  }
+
   /**
    * Create MOT report records from MOT history data
    *
@@ -591,12 +644,16 @@ export class VehicleService {
         throw new NotFoundException('Vehicle not found or access denied');
       }
 
-      // 2. Fetch latest history from DVLA
-      const motHistory = await DvlaService.getMotHistory(
-        vehicle.registration_number,
-      );
+      // 2. Pull the latest history from DVSA
+      const result = await this.syncMotHistory(vehicle);
+
+      if (result.plate_changed) {
+        throw new ConflictException(
+          `Registration ${vehicle.registration_number} now belongs to a different vehicle. If this vehicle has a new plate, update it with PATCH /vehicles/${vehicle.id}/registration.`,
+        );
+      }
 
-      if (!motHistory || !motHistory.motTests) {
+      if (!result.found) {
         return {
           success: true,
           message: 'No MOT history found from DVLA',
@@ -604,29 +661,7 @@ export class VehicleService {
         };
       }
 
-      // Sort tests by completedDate descending to ensure [0] is the latest
-      const sortedTests = motHistory.motTests.sort((a, b) => {
-        const dateA = new Date(a.completedDate || 0).getTime();
-        const dateB = new Date(b.completedDate || 0).getTime();
-        return dateB - dateA;
-      });
-
-      // 3. Get existing local records to check for duplicates
-      const existingReports = await this.prisma.motReport.findMany({
-        where: { vehicle_id: vehicleId },
-        select: { test_number: true },
-      });
-
-      const existingTestNumbers = new Set(
-        existingReports.map((r) => r.test_number),
-      );
-
-      // 4. Filter for new tests only
-      const newTests = sortedTests.filter(
-        (test) => !existingTestNumbers.has(test.motTestNumber),
-      );
-
-      if (newTests.length === 0) {
+      if (result.new_records === 0) {
         this.logger.log(
           `Vehicle ${vehicle.registration_number} is already up to date`,
         );
@@ -637,57 +672,334 @@ export class VehicleService {
         };
       }
 
+      return {
+        success: true,
+        message: `Successfully added ${result.new_records} new MOT records`,
+        data: {
+          new_records: result.new_records,
+          latest_expiry: result.latest_expiry,
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to refresh MOT history for vehicle ${vehicleId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Move a vehicle onto a new plate, e.g. after a cherished transfer. The new
+   * plate's MOT history has to continue the vehicle's own; when there is no
+   * history to compare, the make recorded by DVLA has to match instead.
+   *
+   * @param userId - ID of the driver
+   * @param vehicleId - ID of the vehicle
+   * @param dto - The new registration number
+   */
+  async changeRegistration(
+    userId: string,
+    vehicleId: string,
+    dto: ChangeRegistrationDto,
+  ) {
+    try {
+      const registration = normalizeRegistration(dto.registration_number);
       this.logger.log(
-        `Found ${newTests.length} new MOT tests for ${vehicle.registration_number}`,
+        `Changing registration of vehicle ${vehicleId} to ${registration}`,
       );
 
-      // 5. Insert new records reusing common logic
-      await this.createMotReports(vehicleId, newTests);
+      await this.validateUserAndRole(userId, 'DRIVER');
 
-      // 6. Update local vehicle data with latest info if available
-      const updateData: any = { updated_at: new Date() };
+      const vehicle = await this.prisma.vehicle.findFirst({
+        where: { id: vehicleId, user_id: userId },
+        include: {
+          previous_registrations: { select: { registration_number: true } },
+        },
+      });
 
-      // Check if we have a future expiry date in the latest test (which is sortedTests[0])
-      const latestTest = sortedTests[0];
-      if (latestTest?.expiryDate) {
-        const expiryDate = new Date(latestTest.expiryDate);
-        // Only update if the expiry date is in the future
-        if (
-          expiryDate.getTime() > Date.now() &&
-          vehicle.mot_expiry_date?.getTime() < expiryDate.getTime()
-        ) {
-          updateData.is_expired = false;
-          updateData.mot_expiry_date = expiryDate;
-        } else {
-          if (vehicle.mot_expiry_date?.getTime() > expiryDate.getTime()) {
-            updateData.mot_expiry_date = expiryDate;
-          }
-          updateData.is_expired = true;
+      if (!vehicle) {
+        throw new NotFoundException('Vehicle not found or access denied');
+      }
+
+      if (registration === vehicle.registration_number) {
+        throw new BadRequestException(
+          `Vehicle is already registered as ${registration}`,
+        );
+      }
+
+      let motHistory: MotHistoryResponse | null = null;
+      try {
+        motHistory = await this.vehicleDataService.getMotHistory(registration, {
+          refresh: true,
+        });
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+
+      const motTests = motHistory?.motTests ?? [];
+      const reports = await this.prisma.motReport.findMany({
+        where: { vehicle_id: vehicle.id, test_number: { not: null } },
+        select: { test_number: true },
+      });
+      const storedTestNumbers = new Set(reports.map((r) => r.test_number));
+
+      let sameVehicle: boolean;
+      if (storedTestNumbers.size > 0 && motTests.length > 0) {
+        sameVehicle = this.vehicleRegistrationService.sharesMotHistory(
+          storedTestNumbers,
+          motTests,
+        );
+      } else {
+        sameVehicle = this.vehicleRegistrationService.sharesMotHistory(
+          storedTestNumbers,
+          motTests,
+          [
+            vehicle.registration_number,
+            ...vehicle.previous_registrations.map((r) => r.registration_number),
+          ],
+        );
+        if (!sameVehicle) {
+          const details =
+            await this.vehicleDataService.getVehicleDetails(registration);
+          sameVehicle =
+            !!vehicle.make &&
+            !!details.make &&
+            vehicle.make.toUpperCase() === details.make.toUpperCase();
         }
       }
 
-      await this.prisma.vehicle.update({
-        where: { id: vehicleId },
-        data: updateData,
+      if (!sameVehicle) {
+        throw new BadRequestException(
+          `Registration ${registration} belongs to a different vehicle`,
+        );
+      }
+
+      const reRegistered = await this.vehicleRegistrationService.reRegister(
+        vehicle.id,
+        registration,
+        'DRIVER',
+      );
+      // A plate flagged as changed no longer applies once the vehicle moved off it
+      const syncedAt = new Date();
+      if (motHistory) {
+        await this.applyMotHistory(reRegistered, motHistory, syncedAt);
+      } else {
+        await this.prisma.vehicle.update({
+          where: { id: vehicle.id },
+          data: {
+            mot_sync_status: MotSyncStatus.NOT_FOUND,
+            mot_synced_at: syncedAt,
+            mot_sync_attempted_at: syncedAt,
+            mot_sync_error: null,
+          },
+        });
+      }
+
+      const updatedVehicle = await this.prisma.vehicle.findUnique({
+        where: { id: vehicle.id },
+        include: {
+          previous_registrations: { orderBy: { created_at: 'desc' } },
+        },
       });
 
+      this.logger.log(`Vehicle ${vehicleId} now registered as ${registration}`);
+
       return {
         success: true,
-        message: `Successfully added ${newTests.length} new MOT records`,
-        data: {
-          new_records: newTests.length,
-          latest_expiry: sortedTests[0]?.expiryDate || null,
-        },
+        message: 'Vehicle registration updated successfully',
+        data: updatedVehicle,
       };
     } catch (error) {
       this.logger.error(
-        `Failed to refresh MOT history for vehicle ${vehicleId}:`,
+        `Failed to change registration of vehicle ${vehicleId}:`,
         error,
       );
       throw error;
     }
   }
 
+  /**
+   * Pull a vehicle's MOT history from DVSA, store tests we don't have yet and
+   * re-derive its MOT expiry. The outcome is recorded on the vehicle so the
+   * background refresher knows when it was last synced.
+   *
+   * @throws when DVSA could not be reached; an unknown registration is not an error
+   */
+  async syncMotHistory(
+    vehicle: Pick<
+      Vehicle,
+      'id' | 'registration_number' | 'mot_expiry_date' | 'is_expired'
+    >,
+  ) {
+    const syncedAt = new Date();
+
+    let motHistory: MotHistoryResponse;
+    try {
+      motHistory = await this.vehicleDataService.getMotHistory(
+        vehicle.registration_number,
+        { refresh: true },
+      );
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        await this.prisma.vehicle.update({
+          where: { id: vehicle.id },
+          data: {
+            mot_sync_status: MotSyncStatus.FAILED,
+            mot_sync_attempted_at: syncedAt,
+            mot_sync_error: error.message,
+          },
+        });
+        throw error;
+      }
+
+      // No tests on record yet (e.g. under three years old)
+      await this.prisma.vehicle.update({
+        where: { id: vehicle.id },
+        data: {
+          is_expired: vehicle.mot_expiry_date
+            ? vehicle.mot_expiry_date.getTime() <= syncedAt.getTime()
+            : vehicle.is_expired,
+          mot_sync_status: MotSyncStatus.NOT_FOUND,
+          mot_synced_at: syncedAt,
+          mot_sync_attempted_at: syncedAt,
+          mot_sync_error: null,
+        },
+      });
+      return {
+        found: false,
+        plate_changed: false,
+        new_records: 0,
+        latest_expiry: null,
+      };
+    }
+
+    return this.applyMotHistory(vehicle, motHistory, syncedAt);
+  }
+
+  /**
+   * Store a freshly fetched MOT history against a vehicle. A history that
+   * shares no test with the one on record belongs to whichever vehicle now
+   * carries the plate, so it is flagged instead of merged.
+   */
+  private async applyMotHistory(
+    vehicle: Pick<
+      Vehicle,
+      'id' | 'registration_number' | 'mot_expiry_date' | 'is_expired'
+    >,
+    motHistory: MotHistoryResponse,
+    syncedAt: Date,
+  ) {
+    // Sort tests by completedDate descending to ensure [0] is the latest
+    const sortedTests = [...(motHistory?.motTests ?? [])].sort((a, b) => {
+      const dateA = new Date(a.completedDate || 0).getTime();
+      const dateB = new Date(b.completedDate || 0).getTime();
+      return dateB - dateA;
+    });
+
+    const existingReports = await this.prisma.motReport.findMany({
+      where: { vehicle_id: vehicle.id },
+      select: { test_number: true },
+    });
+    const existingTestNumbers = new Set(
+      existingReports.map((r) => r.test_number).filter(Boolean),
+    );
+
+    if (
+      existingTestNumbers.size > 0 &&
+      sortedTests.length > 0 &&
+      !this.vehicleRegistrationService.sharesMotHistory(
+        existingTestNumbers,
+        sortedTests,
+      )
+    ) {
+      this.logger.warn(
+        `Registration ${vehicle.registration_number} now belongs to a different vehicle than ${vehicle.id}`,
+      );
+      await this.prisma.vehicle.update({
+        where: { id: vehicle.id },
+        data: {
+          mot_sync_status: MotSyncStatus.PLATE_CHANGED,
+          mot_sync_attempted_at: syncedAt,
+          mot_sync_error: `Registration ${vehicle.registration_number} now belongs to a different vehicle`,
+        },
+      });
+      return {
+        found: true,
+        plate_changed: true,
+        new_records: 0,
+        latest_expiry: null,
+      };
+    }
+
+    // DVSA may already know the vehicle under a newer plate
+    const registration = normalizeRegistration(motHistory?.registration);
+    if (registration && registration !== vehicle.registration_number) {
+      try {
+        const reRegistered = await this.vehicleRegistrationService.reRegister(
+          vehicle.id,
+          registration,
+          'DVSA',
+        );
+        vehicle = {
+          ...vehicle,
+          registration_number: reRegistered.registration_number,
+        };
+      } catch (error) {
+        if (!(error instanceof ConflictException)) throw error;
+        this.logger.warn(
+          `Could not move vehicle ${vehicle.id} to ${registration}: ${error.message}`,
+        );
+      }
+    }
+
+    await this.vehicleRegistrationService.recordPreviousRegistrations(
+      vehicle.id,
+      vehicle.registration_number,
+      sortedTests,
+    );
+
+    const newTests = sortedTests.filter(
+      (test) => !existingTestNumbers.has(test.motTestNumber),
+    );
+
+    if (newTests.length > 0) {
+      this.logger.log(
+        `Found ${newTests.length} new MOT tests for ${vehicle.registration_number}`,
+      );
+      await this.createMotReports(vehicle.id, newTests);
+    }
+
+    // A failed test has no expiry, so the last pass still decides
+    const latestPass = sortedTests.find((test) => test.expiryDate);
+    const motExpiryDate = latestPass
+      ? new Date(latestPass.expiryDate)
+      : vehicle.mot_expiry_date;
+
+    await this.prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data: {
+        updated_at: syncedAt,
+        mot_expiry_date: motExpiryDate,
+        is_expired: motExpiryDate
+          ? motExpiryDate.getTime() <= syncedAt.getTime()
+          : vehicle.is_expired,
+        mot_data: JSON.stringify(motHistory),
+        mot_sync_status: MotSyncStatus.SYNCED,
+        mot_synced_at: syncedAt,
+        mot_sync_attempted_at: syncedAt,
+        mot_sync_error: null,
+      },
+    });
+
+    return {
+      found: true,
+      plate_changed: false,
+      new_records: newTests.length,
+      latest_expiry: sortedTests[0]?.expiryDate || null,
+    };
+  }
+
   /**
    * Get complete MOT report with vehicle details for report generation/download
    *
@@ -0,0 +1,38 @@
+import { IsString, IsNotEmpty, IsOptional, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class JoinWaitlistDto {
+  @ApiProperty({
+    description: 'Date to wait for (format: YYYY-MM-DD)',
+    example: '2025-12-10',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Date is required' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Date must be in YYYY-MM-DD format',
+  })
+  date: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Earliest start of a slot you would take (HH:mm). Omit with end_time for any time that day',
+    example: '09:00',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'Start time must be in HH:mm format (24-hour)',
+  })
+  start_time?: string;
+
+  @ApiPropertyOptional({
+    description: 'Latest end of a slot you would take (HH:mm)',
+    example: '13:00',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'End time must be in HH:mm format (24-hour)',
+  })
+  end_time?: string;
+}
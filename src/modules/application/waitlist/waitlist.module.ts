@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
+import { SlotAvailabilityCacheModule } from '../slot-availability/slot-availability-cache.module';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistProcessor } from './waitlist.processor';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationModule,
+    SlotAvailabilityCacheModule,
+    BullModule.registerQueue({
+      name: 'waitlist-queue',
+    }),
+  ],
+  providers: [WaitlistService, WaitlistProcessor],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}
@@ -0,0 +1,26 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { WaitlistService } from './waitlist.service';
+
+/**
+ * Expires waitlist offers that were not claimed in time
+ */
+@Processor('waitlist-queue')
+export class WaitlistProcessor extends WorkerHost {
+  private readonly logger = new Logger(WaitlistProcessor.name);
+
+  constructor(private readonly waitlistService: WaitlistService) {
+    super();
+  }
+
+  async process(job: Job<{ entry_id: string }>) {
+    switch (job.name) {
+      case 'expireWaitlistOffer':
+        await this.waitlistService.expireOffer(job.data.entry_id);
+        break;
+      default:
+        this.logger.warn(`Unknown job ${job.name}`);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { getQueueToken } from '@nestjs/bullmq';
+import { Test, TestingModule } from '@nestjs/testing';
+import { WaitlistStatus } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+import { WaitlistService } from './waitlist.service';
+
+describe('WaitlistService', () => {
+  // 10:00-11:00 on Friday 5 June 2099, Europe/London (BST)
+  const slot = {
+    id: 'slot-1',
+    garage_id: 'garage-1',
+    order_id: null,
+    is_blocked: false,
+    held_until: null,
+    start_datetime: new Date('2099-06-05T09:00:00.000Z'),
+    end_datetime: new Date('2099-06-05T10:00:00.000Z'),
+    garage: {
+      garage_name: 'High Street Motors',
+      schedule: { time_zone: 'Europe/London' },
+    },
+  };
+
+  const entry = (id: string, driverId: string, window?: [string, string]) => ({
+    id,
+    garage_id: 'garage-1',
+    driver_id: driverId,
+    date: new Date('2099-06-05T00:00:00.000Z'),
+    start_time: window?.[0] ?? null,
+    end_time: window?.[1] ?? null,
+    status: WaitlistStatus.WAITING,
+  });
+
+  const tx = {
+    timeSlot: { updateMany: jest.fn(), update: jest.fn() },
+    waitlistEntry: { updateMany: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+    timeSlot: { findUnique: jest.fn() },
+    waitlistEntry: { findMany: jest.fn() },
+    order: { findMany: jest.fn() },
+    setting: { findUnique: jest.fn() },
+  };
+  const notificationService = { create: jest.fn() };
+  const availabilityCache = { invalidateGarage: jest.fn() };
+  const waitlistQueue = { add: jest.fn() };
+
+  let service: WaitlistService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    tx.timeSlot.updateMany.mockResolvedValue({ count: 1 });
+    tx.waitlistEntry.updateMany.mockResolvedValue({ count: 1 });
+    prisma.timeSlot.findUnique.mockResolvedValue(slot);
+    prisma.order.findMany.mockResolvedValue([]);
+    prisma.setting.findUnique.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitlistService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: SlotAvailabilityCacheService, useValue: availabilityCache },
+        { provide: getQueueToken('waitlist-queue'), useValue: waitlistQueue },
+      ],
+    }).compile();
+
+    service = module.get(WaitlistService);
+  });
+
+  describe('offerFreedSlot', () => {
+    it('holds the slot for the first driver whose window fits and who has not booked that day', async () => {
+      prisma.waitlistEntry.findMany.mockResolvedValue([
+        entry('afternoon', 'driver-1', ['13:00', '17:00']),
+        entry('booked', 'driver-2'),
+        entry('morning', 'driver-3', ['09:00', '12:00']),
+      ]);
+      prisma.order.findMany.mockResolvedValue([{ driver_id: 'driver-2' }]);
+
+      await service.offerFreedSlot('slot-1');
+
+      expect(tx.timeSlot.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            is_available: false,
+            held_by: 'driver-3',
+          }),
+        }),
+      );
+      expect(tx.waitlistEntry.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'morning', status: WaitlistStatus.WAITING },
+          data: expect.objectContaining({
+            status: WaitlistStatus.OFFERED,
+            offered_slot_id: 'slot-1',
+          }),
+        }),
+      );
+      expect(waitlistQueue.add).toHaveBeenCalledWith(
+        'expireWaitlistOffer',
+        { entry_id: 'morning' },
+        expect.objectContaining({ jobId: 'waitlist-offer-morning' }),
+      );
+      expect(notificationService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ receiver_id: 'driver-3' }),
+      );
+    });
+
+    it('gives the hold back when the driver left the waitlist meanwhile', async () => {
+      prisma.waitlistEntry.findMany.mockResolvedValue([
+        entry('gone', 'driver-1'),
+      ]);
+      tx.waitlistEntry.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.offerFreedSlot('slot-1');
+
+      expect(tx.timeSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot-1' },
+        data: { is_available: true, held_until: null, held_by: null },
+      });
+      expect(waitlistQueue.add).not.toHaveBeenCalled();
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves a slot that is already held alone', async () => {
+      prisma.timeSlot.findUnique.mockResolvedValue({
+        ...slot,
+        held_until: new Date('2099-06-05T08:00:00.000Z'),
+      });
+      prisma.waitlistEntry.findMany.mockResolvedValue([
+        entry('any', 'driver-1'),
+      ]);
+
+      await service.offerFreedSlot('slot-1');
+
+      expect(prisma.waitlistEntry.findMany).not.toHaveBeenCalled();
+      expect(waitlistQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('passes over drivers blocked for no-shows', async () => {
+      prisma.setting.findUnique.mockResolvedValue({ default_value: '3' });
+      prisma.waitlistEntry.findMany.mockResolvedValue([]);
+
+      await service.offerFreedSlot('slot-1');
+
+      expect(prisma.waitlistEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            driver: { no_show_count: { lt: 3 } },
+          }),
+        }),
+      );
+      expect(tx.timeSlot.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,459 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  OrderStatus,
+  UserRole,
+  WaitlistEntry,
+  WaitlistStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SettingHelper } from '../../../common/helper/setting.helper';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../../../common/repository/notification/notification.repository';
+import {
+  DEFAULT_TIME_ZONE,
+  TimezoneHelper,
+} from '../../../common/helper/timezone.helper';
+import { SlotAvailabilityCacheService } from '../slot-availability/slot-availability-cache.service';
+import { JoinWaitlistDto } from './dto/join-waitlist.dto';
+
+const ACTIVE_STATUSES: WaitlistStatus[] = [
+  WaitlistStatus.WAITING,
+  WaitlistStatus.OFFERED,
+];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Drivers wait for a fully booked day; whenever a slot frees up it is held
+ * for the first eligible driver for a limited time to claim by booking it.
+ */
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly availabilityCache: SlotAvailabilityCacheService,
+    @InjectQueue('waitlist-queue') private readonly waitlistQueue: Queue,
+  ) {}
+
+  async joinWaitlist(userId: string, garageId: string, dto: JoinWaitlistDto) {
+    const garage = await this.prisma.user.findFirst({
+      where: { id: garageId, type: UserRole.GARAGE, status: 1 },
+      select: { id: true, schedule: { select: { time_zone: true } } },
+    });
+
+    if (!garage) {
+      throw new NotFoundException('Garage not available for bookings');
+    }
+
+    const timeZone = garage.schedule?.time_zone ?? DEFAULT_TIME_ZONE;
+    if (dto.date < TimezoneHelper.toDateString(new Date(), timeZone)) {
+      throw new BadRequestException('Cannot join the waitlist for a past date');
+    }
+
+    if (!!dto.start_time !== !!dto.end_time) {
+      throw new BadRequestException(
+        'Provide both start_time and end_time, or neither for the whole day',
+      );
+    }
+    if (
+      dto.start_time &&
+      toMinutes(dto.start_time) >= toMinutes(dto.end_time)
+    ) {
+      throw new BadRequestException('start_time must be before end_time');
+    }
+
+    const date = new Date(`${dto.date}T00:00:00.000Z`);
+    const existing = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        driver_id: userId,
+        garage_id: garageId,
+        date,
+        status: { in: ACTIVE_STATUSES },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'You are already on the waitlist for this garage on this date',
+      );
+    }
+
+    const entry = await this.prisma.waitlistEntry.create({
+      data: {
+        garage_id: garageId,
+        driver_id: userId,
+        date,
+        start_time: dto.start_time ?? null,
+        end_time: dto.end_time ?? null,
+      },
+    });
+
+    this.logger.log(
+      `Driver ${userId} joined the waitlist for garage ${garageId} on ${dto.date}`,
+    );
+
+    return {
+      success: true,
+      message:
+        'You are on the waitlist. We will notify you as soon as a slot frees up.',
+      data: this.formatEntry(entry),
+    };
+  }
+
+  async getMyWaitlist(userId: string) {
+    const entries = await this.prisma.waitlistEntry.findMany({
+      where: { driver_id: userId, status: { in: ACTIVE_STATUSES } },
+      include: {
+        garage: { select: { id: true, garage_name: true } },
+        offered_slot: {
+          select: { id: true, start_datetime: true, end_datetime: true },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { created_at: 'asc' }],
+    });
+
+    return {
+      success: true,
+      message: 'Waitlist retrieved successfully',
+      data: entries.map((entry) => ({
+        ...this.formatEntry(entry),
+        garage: entry.garage,
+        offered_slot: entry.offered_slot,
+      })),
+    };
+  }
+
+  async leaveWaitlist(userId: string, entryId: string) {
+    const entry = await this.prisma.waitlistEntry.findFirst({
+      where: { id: entryId, driver_id: userId },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Waitlist entry not found');
+    }
+    if (!ACTIVE_STATUSES.includes(entry.status)) {
+      throw new BadRequestException('This waitlist entry is no longer active');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.CANCELLED },
+      });
+
+      if (entry.status === WaitlistStatus.OFFERED && entry.offered_slot_id) {
+        await tx.timeSlot.updateMany({
+          where: {
+            id: entry.offered_slot_id,
+            held_by: userId,
+            order_id: null,
+          },
+          data: { is_available: true, held_until: null, held_by: null },
+        });
+      }
+    });
+
+    // A declined offer goes straight to the next driver in line
+    if (entry.status === WaitlistStatus.OFFERED && entry.offered_slot_id) {
+      await this.availabilityCache.invalidateGarage(entry.garage_id);
+      await this.offerFreedSlot(entry.offered_slot_id);
+    }
+
+    return {
+      success: true,
+      message: 'You have left the waitlist',
+    };
+  }
+
+  /**
+   * Offer a slot that has just become free to the first eligible driver
+   * waiting for its day. Never throws: a failed offer must not undo the
+   * cancellation or unblock that freed the slot.
+   */
+  async offerFreedSlot(slotId: string): Promise<void> {
+    try {
+      await this.offerSlot(slotId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to offer slot ${slotId} to the waitlist: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Expire an offer the driver did not claim in time and pass the slot on
+   */
+  async expireOffer(entryId: string): Promise<void> {
+    const entry = await this.prisma.waitlistEntry.findUnique({
+      where: { id: entryId },
+    });
+
+    if (
+      !entry ||
+      entry.status !== WaitlistStatus.OFFERED ||
+      (entry.offer_expires_at && entry.offer_expires_at > new Date())
+    ) {
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+
+      if (entry.offered_slot_id) {
+        await tx.timeSlot.updateMany({
+          where: {
+            id: entry.offered_slot_id,
+            held_by: entry.driver_id,
+            order_id: null,
+          },
+          data: { is_available: true, held_until: null, held_by: null },
+        });
+      }
+    });
+
+    await this.availabilityCache.invalidateGarage(entry.garage_id);
+    this.logger.log(`Waitlist offer ${entry.id} expired unclaimed`);
+
+    if (entry.offered_slot_id) {
+      await this.offerFreedSlot(entry.offered_slot_id);
+    }
+  }
+
+  private async offerSlot(slotId: string) {
+    const now = new Date();
+    const slot = await this.prisma.timeSlot.findUnique({
+      where: { id: slotId },
+      include: {
+        garage: {
+          select: {
+            garage_name: true,
+            schedule: { select: { time_zone: true } },
+          },
+        },
+      },
+    });
+
+    if (
+      !slot?.garage_id ||
+      slot.order_id ||
+      slot.is_blocked ||
+      slot.start_datetime <= now ||
+      (slot.held_until && slot.held_until > now)
+    ) {
+      return;
+    }
+
+    const timeZone = slot.garage?.schedule?.time_zone ?? DEFAULT_TIME_ZONE;
+    const date = TimezoneHelper.toDateString(slot.start_datetime, timeZone);
+    const startTime = TimezoneHelper.formatTime(slot.start_datetime, timeZone);
+    const endTime = TimezoneHelper.formatTime(slot.end_datetime, timeZone);
+
+    const entry = await this.findEligibleEntry(
+      slot.garage_id,
+      date,
+      startTime,
+      endTime,
+      timeZone,
+    );
+    if (!entry) return;
+
+    const claimMinutes = await SettingHelper.getNumber(
+      this.prisma,
+      'WAITLIST_CLAIM_MINUTES',
+      30,
+    );
+    // An offer cannot outlive the slot it is for
+    const expiresAt = new Date(
+      Math.min(
+        now.getTime() + claimMinutes * 60 * 1000,
+        slot.start_datetime.getTime(),
+      ),
+    );
+
+    const offered = await this.prisma.$transaction(async (tx) => {
+      // The slot may have been booked or held since it was freed
+      const { count } = await tx.timeSlot.updateMany({
+        where: {
+          id: slot.id,
+          order_id: null,
+          is_blocked: false,
+          OR: [{ held_until: null }, { held_until: { lte: now } }],
+        },
+        data: {
+          is_available: false,
+          held_until: expiresAt,
+          held_by: entry.driver_id,
+        },
+      });
+      if (count === 0) return false;
+
+      // The driver may have left the waitlist since it was read
+      const claimed = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: WaitlistStatus.WAITING },
+        data: {
+          status: WaitlistStatus.OFFERED,
+          offered_slot_id: slot.id,
+          offer_expires_at: expiresAt,
+        },
+      });
+      if (claimed.count === 0) {
+        await tx.timeSlot.update({
+          where: { id: slot.id },
+          data: { is_available: true, held_until: null, held_by: null },
+        });
+        return false;
+      }
+      return true;
+    });
+
+    if (!offered) return;
+    await this.availabilityCache.invalidateGarage(slot.garage_id);
+
+    try {
+      await this.waitlistQueue.add(
+        'expireWaitlistOffer',
+        { entry_id: entry.id },
+        {
+          delay: Math.max(expiresAt.getTime() - Date.now(), 0),
+          jobId: `waitlist-offer-${entry.id}`,
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      // Without an expiry job the hold would never pass on, so undo the offer
+      this.logger.error(
+        `Failed to schedule expiry of waitlist offer ${entry.id}: ${error.message}`,
+        error.stack,
+      );
+      await this.prisma.$transaction([
+        this.prisma.timeSlot.updateMany({
+          where: { id: slot.id, held_by: entry.driver_id, order_id: null },
+          data: { is_available: true, held_until: null, held_by: null },
+        }),
+        this.prisma.waitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: WaitlistStatus.WAITING,
+            offered_slot_id: null,
+            offer_expires_at: null,
+          },
+        }),
+      ]);
+      await this.availabilityCache.invalidateGarage(slot.garage_id);
+      return;
+    }
+
+    await this.notificationService.create({
+      receiver_id: entry.driver_id,
+      sender_id: slot.garage_id,
+      type: NotificationType.BOOKING,
+      text: `A slot at ${slot.garage?.garage_name || 'the garage'} has opened up on ${date} at ${startTime}. It is held for you until ${TimezoneHelper.formatTime(expiresAt, timeZone)} - book it before then to claim it.`,
+      entity_id: slot.id,
+      actions: [
+        {
+          label: 'Book now',
+          action: 'claim_waitlist_slot',
+          variant: 'success',
+        },
+      ],
+    });
+
+    this.logger.log(
+      `Slot ${slot.id} offered to driver ${entry.driver_id} from the waitlist until ${expiresAt.toISOString()}`,
+    );
+  }
+
+  /**
+   * First driver in line for the day whose time window fits the slot, who
+   * has not booked with the garage that day in the meantime and is not
+   * blocked from booking for no-shows
+   */
+  private async findEligibleEntry(
+    garageId: string,
+    date: string,
+    startTime: string,
+    endTime: string,
+    timeZone: string,
+  ): Promise<WaitlistEntry | null> {
+    const blockThreshold = await SettingHelper.getNumber(
+      this.prisma,
+      'NO_SHOW_BLOCK_THRESHOLD',
+      0,
+    );
+    const entries = await this.prisma.waitlistEntry.findMany({
+      where: {
+        garage_id: garageId,
+        date: new Date(`${date}T00:00:00.000Z`),
+        status: WaitlistStatus.WAITING,
+        ...(blockThreshold > 0 && {
+          driver: { no_show_count: { lt: blockThreshold } },
+        }),
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    const slotStart = toMinutes(startTime);
+    // A slot ending at midnight ends at the close of the day
+    const slotEnd = toMinutes(endTime) || 24 * 60;
+    const fitting = entries.filter(
+      (entry) =>
+        !entry.start_time ||
+        !entry.end_time ||
+        (toMinutes(entry.start_time) <= slotStart &&
+          slotEnd <= toMinutes(entry.end_time)),
+    );
+    if (fitting.length === 0) return null;
+
+    const booked = await this.prisma.order.findMany({
+      where: {
+        garage_id: garageId,
+        driver_id: { in: fitting.map((entry) => entry.driver_id) },
+        status: { in: [OrderStatus.PENDING, OrderStatus.ACCEPTED] },
+        slot: {
+          start_datetime: {
+            gte: TimezoneHelper.startOfDay(date, timeZone),
+            lt: TimezoneHelper.startOfNextDay(date, timeZone),
+          },
+        },
+      },
+      select: { driver_id: true },
+    });
+    const bookedDrivers = new Set(booked.map((order) => order.driver_id));
+
+    return fitting.find((entry) => !bookedDrivers.has(entry.driver_id)) ?? null;
+  }
+
+  private formatEntry(entry: WaitlistEntry) {
+    return {
+      id: entry.id,
+      garage_id: entry.garage_id,
+      date: entry.date.toISOString().split('T')[0],
+      start_time: entry.start_time,
+      end_time: entry.end_time,
+      status: entry.status,
+      offered_slot_id: entry.offered_slot_id,
+      offer_expires_at: entry.offer_expires_at,
+      created_at: entry.created_at,
+    };
+  }
+}
@@ -50,6 +50,9 @@ export class AuthService {
         can_manage_payments: role.permissions.some(
           (p) => p.subject === 'Payment',
         ),
+        can_manage_reviews: role.permissions.some(
+          (p) => p.subject === 'Review',
+        ),
         can_manage_roles: role.permissions.some((p) => p.subject === 'Role'),
         can_manage_users: role.permissions.some((p) => p.subject === 'User'),
         can_view_analytics: role.permissions.some(
@@ -81,6 +84,7 @@ export class AuthService {
         (p) => p.subject === 'Subscription',
       ),
       can_manage_payments: allPermissions.some((p) => p.subject === 'Payment'),
+      can_manage_reviews: allPermissions.some((p) => p.subject === 'Review'),
       can_manage_roles: allPermissions.some((p) => p.subject === 'Role'),
       can_manage_users: allPermissions.some((p) => p.subject === 'User'),
       can_view_analytics: allPermissions.some((p) => p.subject === 'Analytics'),
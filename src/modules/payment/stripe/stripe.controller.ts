@@ -102,6 +102,7 @@ export class StripeController {
             paid_currency: paymentIntent.currency,
             raw_status: paymentIntent.status,
           });
+          await this.stripeService.handleOrderPaymentSucceeded(paymentIntent);
           break;
         case 'payment_intent.payment_failed':
           const failedPaymentIntent = event.data.object;
@@ -111,6 +112,9 @@ export class StripeController {
             status: 'failed',
             raw_status: failedPaymentIntent.status,
           });
+          await this.stripeService.handleOrderPaymentFailed(
+            failedPaymentIntent,
+          );
           break;
         case 'payment_intent.canceled':
           const canceledPaymentIntent = event.data.object;
@@ -130,6 +134,9 @@ export class StripeController {
             raw_status: requireActionPaymentIntent.status,
           });
           break;
+        case 'refund.updated':
+          await this.stripeService.handleRefundUpdated(event.data.object);
+          break;
         case 'payout.paid':
           const paidPayout = event.data.object;
           //console.log(paidPayout);
@@ -196,4 +203,49 @@ export class StripeController {
       return { received: false };
     }
   }
+
+  @Post('connect-webhook')
+  @ApiOperation({
+    summary: 'Handle Stripe Connect webhook events',
+    description: `
+      Receives events of the garages' connected accounts. Register it in Stripe as a
+      Connect endpoint ("Events on connected accounts"); it is signed with
+      STRIPE_CONNECT_WEBHOOK_SECRET.
+
+      **Supported Events:**
+      - \`account.updated\` - Garage payout eligibility changed
+    `,
+  })
+  @ApiHeader({
+    name: 'stripe-signature',
+    description: 'Stripe webhook signature for request verification',
+    required: true,
+  })
+  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
+  async handleConnectWebhook(
+    @Headers('stripe-signature') signature: string,
+    @Req() req: Request,
+  ) {
+    try {
+      const payload = req.body.toString();
+      const event = await this.stripeService.handleConnectWebhook(
+        payload,
+        signature,
+      );
+
+      switch (event.type) {
+        case 'account.updated':
+          await this.stripeService.handleConnectAccountUpdated(
+            event.data.object,
+          );
+          break;
+        default:
+      }
+
+      return { received: true };
+    } catch (error) {
+      console.error('Connect webhook error', error);
+      return { received: false };
+    }
+  }
 }
@@ -2,9 +2,17 @@ import { Module } from '@nestjs/common';
 import { StripeService } from './stripe.service';
 import { StripeController } from './stripe.controller';
 import { NotificationModule } from '../../admin/notification/notification.module';
+import { VehicleModule } from '../../application/vehicle/vehicle.module';
+import { BookingPaymentModule } from '../../application/booking-payment/booking-payment.module';
+import { GarageDashboardModule } from '../../application/garage-dashboard/garage-dashboard.module';
 
 @Module({
-  imports: [NotificationModule],
+  imports: [
+    NotificationModule,
+    VehicleModule,
+    BookingPaymentModule,
+    GarageDashboardModule,
+  ],
   controllers: [StripeController],
   providers: [StripeService],
 })
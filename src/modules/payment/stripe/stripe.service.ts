@@ -4,6 +4,9 @@ import { PrismaService } from '../../../prisma/prisma.service';
 import { MailService } from '../../../mail/mail.service';
 import { NotificationService } from 'src/modules/application/notification/notification.service';
 import { NotificationType } from 'src/common/repository/notification/notification.repository';
+import { VehicleBookingService } from 'src/modules/application/vehicle/vehicle-booking.service';
+import { BookingPaymentService } from 'src/modules/application/booking-payment/booking-payment.service';
+import { GaragePaymentService } from 'src/modules/application/garage-dashboard/services/garage-payment.service';
 
 @Injectable()
 export class StripeService {
@@ -13,6 +16,9 @@ export class StripeService {
     private prisma: PrismaService,
     private mailService: MailService,
     private notificationService: NotificationService,
+    private vehicleBookingService: VehicleBookingService,
+    private bookingPaymentService: BookingPaymentService,
+    private garagePaymentService: GaragePaymentService,
   ) {}
 
   /**
@@ -152,6 +158,70 @@ export class StripeService {
     return StripePayment.handleWebhook(rawBody, sig);
   }
 
+  async handleConnectWebhook(rawBody: string, sig: string | string[]) {
+    return StripePayment.handleWebhook(rawBody, sig, true);
+  }
+
+  /**
+   * Confirm a booking paid online (payment_intent.succeeded for an ORDER payment)
+   */
+  async handleOrderPaymentSucceeded(paymentIntent: any) {
+    if (paymentIntent?.metadata?.type !== 'ORDER') return;
+
+    try {
+      await this.vehicleBookingService.handleBookingPaymentSucceeded(
+        paymentIntent,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to confirm booking payment ${paymentIntent.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Release a booking whose online payment failed
+   */
+  async handleOrderPaymentFailed(paymentIntent: any) {
+    if (paymentIntent?.metadata?.type !== 'ORDER') return;
+
+    try {
+      await this.vehicleBookingService.handleBookingPaymentFailed(
+        paymentIntent,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to release booking for payment ${paymentIntent.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Sync booking refund status (refund.updated)
+   */
+  async handleRefundUpdated(refund: any) {
+    try {
+      await this.bookingPaymentService.syncRefund(refund);
+    } catch (error) {
+      this.logger.error(
+        `Failed to sync refund ${refund?.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Sync garage payout eligibility (account.updated for Connect accounts)
+   */
+  async handleConnectAccountUpdated(account: any) {
+    try {
+      await this.garagePaymentService.syncConnectAccount(account);
+    } catch (error) {
+      this.logger.error(
+        `Failed to sync Connect account ${account?.id}: ${error.message}`,
+      );
+    }
+  }
+
   // ✅ NEW: Subscription event handlers (ADDED TO YOUR EXISTING CODE)
 
   // Handle subscription created